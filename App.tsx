@@ -1,83 +1,83 @@
 
 import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
-import { ToothData, MeasurementType, MeasurementLocation, MeasurementSiteValue, PerioSiteMeasurements, NonSiteLocation } from './types.ts';
-import { INITIAL_CHART_DATA } from './constants.ts';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { ToothData, MeasurementType, MeasurementLocation, MeasurementSiteValue, NonSiteLocation, FurcationEntrance, FurcationSystem, Visit, VisitSnapshot, Patient } from './types.ts';
+import { createChartData, applyDentition } from './constants.ts';
+import { processChartData } from './chartCalculations.ts';
 import DentalChart3D from './components/PerioChart.tsx';
 import { InfoPanel } from './components/Tooth.tsx';
 import Toolbar from './components/Toolbar.tsx';
-import { fetchDbMeasurements, processDbMeasurements } from './dbDataSync.ts';
+import { fetchDbSessions, processDbMeasurements, summarizeSessions, DbMeasurement, ObservationQuery, ObservationSession } from './dbDataSync.ts';
 import TextWindow from './components/TextWindow.tsx';
 import { ToothModelGuide } from './components/ToothModelGuide.tsx';
 import { localToothStorage } from './services/localToothStorage';
+import { visitStorage, isLocalVisitId } from './services/visitStorage';
+import { patientStorage, getPatientAge, getPatientDentition, getPatientRecordNumber, NewPatient } from './services/patientStorage';
+import { VisitComparator } from './services/visitComparison';
 import { aiModelManager } from './services/aiModelManager';
+import { createObservationTransport, SyncConnectionState } from './services/syncTransport';
+import { observationWriteBack, SiteConflict, ConflictPolicy } from './services/observationWriteBack';
+import { syncDiagnostics } from './services/syncDiagnostics';
 import ModelStatusIndicator from './components/ModelStatusIndicator';
+import SyncStatusIndicator from './components/SyncStatusIndicator';
+import SyncDiagnosticsPanel from './components/SyncDiagnosticsPanel';
+import VisitSelector from './components/VisitSelector';
+import RiskAssessmentPanel from './components/RiskAssessmentPanel';
+import PatientSelector from './components/PatientSelector';
+import SessionPicker from './components/SessionPicker';
+import NotationSelector from './components/NotationSelector';
+import ChartViewSelector from './components/ChartViewSelector';
+import ReportExporter from './components/ReportExporter';
+import FhirExchange from './components/FhirExchange';
+import SpreadsheetExchange from './components/SpreadsheetExchange';
+import AIProviderSettings from './components/AIProviderSettings';
+import ChatPanel, { ChatMode } from './components/ChatPanel';
+import DentalChart2D from './components/DentalChart2D';
+import { displayPreferences, ChartView } from './services/displayPreferences';
+import { ToothNotation } from './toothNumbering';
+import { applyToothStatus, getToothStatus, ToothStatusUpdate } from './toothStatus';
+import { convertFurcation, getFurcationSystem } from './furcation';
+import { calculateOverallScores, HygieneIndex } from './services/hygieneIndices';
+import { reportGenerator, ClinicDetails } from './services/reportGenerator';
+import { exportFhirBundle, mergeImportedTeeth, FhirImportResult } from './services/fhirBundle';
+import { downloadBlob } from './services/fileDownload';
+import { chartToRows, applyChartImport, ImportPreview } from './services/chartSpreadsheet';
+import { spreadsheetBlob, SpreadsheetFormat } from './services/spreadsheetFile';
+import { ChartAgentBridge } from './services/chartAgentTools';
+
+// Resume the selected patient's open visit, or open their first one
+const loadActiveVisitChart = (): VisitSnapshot => {
+  const open = visitStorage.getActiveVisit();
+  const emptyChart = createChartData(getPatientDentition(patientStorage.getActivePatient()));
+  if (!open) return visitStorage.startNewVisit({ examiner: 'Unassigned' }, emptyChart);
+  return visitStorage.loadVisit(open.id) || { visit: open, teeth: emptyChart, savedAt: open.date };
+};
 
 // A custom hook to manage chart data logic, defined in-file to avoid adding new files.
 const useChartData = () => {
-  const [data, setData] = useState<ToothData[]>(() => {
-    // Always start with clean initial data - no localStorage loading
-    return INITIAL_CHART_DATA;
-  });
-
-  const calculateData = (tooth: ToothData): { cal: PerioSiteMeasurements, riskScore: number } => {
-    const cal: PerioSiteMeasurements = {};
-    let riskScore = 0;
-    
-    const pd = tooth.measurements[MeasurementType.POCKET_DEPTH] || {};
-    const rec = tooth.measurements[MeasurementType.RECESSION] || {};
-    const bop = tooth.measurements[MeasurementType.BLEEDING] || {};
-
-    const locations: MeasurementLocation[] = ['disto_buccal', 'mid_buccal', 'mesio_buccal', 'disto_lingual', 'mid_lingual', 'mesio_lingual'];
-    
-    locations.forEach(loc => {
-      const pocketDepth = typeof pd[loc] === 'number' ? pd[loc] as number : 0;
-      const recession = typeof rec[loc] === 'number' ? rec[loc] as number : 0;
-      cal[loc] = pocketDepth + recession;
-
-      if (pocketDepth > 4) riskScore += pocketDepth - 4;
-      if (recession > 2) riskScore += recession - 2;
-      if (typeof cal[loc] === 'number' && (cal[loc] as number) > 5) riskScore += (cal[loc] as number) - 5;
-      if (bop[loc]) riskScore += 2;
-    });
-
-    riskScore += (tooth.mobility || 0) * 10;
-    riskScore += (tooth.furcation?.buccal || 0) * 8;
-    riskScore += (tooth.furcation?.lingual || 0) * 8;
-
-    return { cal, riskScore };
-  };
-  
-  const processedData = useMemo(() => {
-    return data.map(tooth => {
-      if (tooth.isMissing) return { ...tooth, cal: {}, riskScore: 0 };
-      const { cal, riskScore } = calculateData(tooth);
-      return { ...tooth, cal, riskScore };
-    });
-  }, [data]);
-
-  const overallScores = useMemo(() => {
-    let totalSites = 0;
-    let bopSites = 0;
-    let plaqueSites = 0;
-    
-    processedData.forEach(tooth => {
-        if (!tooth.isMissing) {
-            totalSites += 6;
-            const bopData = tooth.measurements[MeasurementType.BLEEDING] || {};
-            const plaqueData = tooth.measurements[MeasurementType.PLAQUE] || {};
-            const locations: MeasurementLocation[] = ['disto_buccal', 'mid_buccal', 'mesio_buccal', 'disto_lingual', 'mid_lingual', 'mesio_lingual'];
-            locations.forEach(loc => {
-                if (bopData[loc]) bopSites++;
-                if (plaqueData[loc]) plaqueSites++;
-            });
-        }
-    });
-
-    const bopPercentage = totalSites > 0 ? (bopSites / totalSites) * 100 : 0;
-    const plaquePercentage = totalSites > 0 ? (plaqueSites / totalSites) * 100 : 0;
-
-    return { bopPercentage, plaquePercentage };
-  }, [processedData]);
+  const [activePatient, setActivePatient] = useState<Patient>(() => patientStorage.getActivePatient());
+  const [patients, setPatients] = useState<Patient[]>(() => patientStorage.listPatients());
+  const [initialChart] = useState(loadActiveVisitChart);
+  const [activeVisit, setActiveVisit] = useState<Visit>(initialChart.visit);
+  const [data, setData] = useState<ToothData[]>(initialChart.teeth);
+  const [visits, setVisits] = useState<Visit[]>(() => visitStorage.listVisits());
+  // A past visit loaded for review; while set, the chart shows it read-only
+  const [viewedVisit, setViewedVisit] = useState<VisitSnapshot | null>(null);
+  // Baseline visit the displayed chart is compared against
+  const [comparisonVisit, setComparisonVisit] = useState<VisitSnapshot | null>(null);
+  const activeVisitIdRef = useRef(activeVisit.id);
+
+  const displayedData = viewedVisit ? viewedVisit.teeth : data;
+
+  const processedData = useMemo(() => processChartData(displayedData), [displayedData]);
+
+  const comparison = useMemo(() => {
+    if (!comparisonVisit) return null;
+    return VisitComparator.compare(comparisonVisit.teeth, displayedData);
+  }, [comparisonVisit, displayedData]);
+
+  // Implants are probed on their own thresholds and left out of the full-mouth scores
+  const overallScores = useMemo(() => calculateOverallScores(processedData), [processedData]);
 
   const updateChartData = useCallback((
     toothId: number,
@@ -101,15 +101,29 @@ const useChartData = () => {
       if (type === MeasurementType.MOBILITY) {
         newToothData.mobility = value as number;
         console.log('🦷 Updated mobility:', value);
+      } else if (type === MeasurementType.FREMITUS) {
+        newToothData.fremitus = value as number;
+        console.log('🦷 Updated fremitus:', value);
       } else if (type === MeasurementType.FURCATION) {
-        if (!newToothData.furcation) newToothData.furcation = {};
-        if (location === 'furcation_buccal') newToothData.furcation.buccal = value as number;
-        if (location === 'furcation_lingual') newToothData.furcation.lingual = value as number;
-        console.log('🦷 Updated furcation:', newToothData.furcation);
+        const entrance = location.replace(/^furcation_/, '') as FurcationEntrance;
+        // A tooth keeps one system; class IV only exists in Glickman
+        const system = (value as number) > 3 ? 'glickman' : displayPreferences.getFurcationSystem();
+        newToothData.furcation = {
+          ...convertFurcation(newToothData.furcation, getFurcationSystem(newToothData), system),
+          [entrance]: value as number,
+        };
+        newToothData.furcationSystem = system;
+        console.log('🦷 Updated furcation:', newToothData.furcation, system);
       } else {
         const measurementBlock = newToothData.measurements[type] || {};
         measurementBlock[location] = value;
         newToothData.measurements[type] = measurementBlock;
+        // Recession and gingival margin describe the same site; keep them in step
+        if (type === MeasurementType.RECESSION || type === MeasurementType.GINGIVAL_MARGIN) {
+          const mirrorType = type === MeasurementType.RECESSION ? MeasurementType.GINGIVAL_MARGIN : MeasurementType.RECESSION;
+          const mirrorValue = type === MeasurementType.RECESSION ? -(value as number) : Math.max(0, -(value as number));
+          newToothData.measurements[mirrorType] = { ...newToothData.measurements[mirrorType], [location]: mirrorValue };
+        }
         console.log('🦷 Updated measurements:', type, location, value);
       }
       
@@ -118,18 +132,154 @@ const useChartData = () => {
       
       // Save to localStorage after each update
       localToothStorage.saveToothData(newData);
+      visitStorage.saveVisitChart(activeVisitIdRef.current, newData);
       console.log('💾 Data saved to localStorage');
       
       return newData;
     });
   }, []);
 
-  return { chartData: processedData, updateChartData, overallScores };
+  const updateToothStatus = useCallback((toothId: number, update: ToothStatusUpdate) => {
+    setData(prevData => {
+      const newData = prevData.map(t => (t.id === toothId ? applyToothStatus(t, update) : t));
+      localToothStorage.saveToothData(newData);
+      visitStorage.saveVisitChart(activeVisitIdRef.current, newData);
+      console.log('🦷 Updated tooth status:', toothId, update);
+      return newData;
+    });
+  }, []);
+
+  // Imports write into the open visit; the merge decides which sites change
+  const importChart = useCallback((merge: (teeth: ToothData[]) => ToothData[]) => {
+    setData(prevData => {
+      const newData = merge(prevData);
+      localToothStorage.saveToothData(newData);
+      visitStorage.saveVisitChart(activeVisitIdRef.current, newData);
+      console.log('📥 Imported chart data');
+      return newData;
+    });
+  }, []);
+
+  const startNewVisit = useCallback((examiner: string) => {
+    // Persist the current chart before it is frozen and used as the seed
+    visitStorage.saveVisitChart(activeVisitIdRef.current, data);
+    const snapshot = visitStorage.startNewVisit({ examiner }, createChartData(getPatientDentition(activePatient)));
+    activeVisitIdRef.current = snapshot.visit.id;
+    setActiveVisit(snapshot.visit);
+    setData(snapshot.teeth);
+    setVisits(visitStorage.listVisits());
+    setViewedVisit(null);
+  }, [data, activePatient]);
+
+  // Follow the database visit the voice agent is recording: a visit started
+  // here takes its id, an older one is closed and the new visit opened
+  const followDatabaseVisit = useCallback((sessions: ObservationSession[]) => {
+    const session = visitStorage.findNewDatabaseVisit(sessions);
+    if (!session) return;
+    const current = visitStorage.getActiveVisit();
+    const snapshot = current && isLocalVisitId(current.id)
+      ? visitStorage.adoptDatabaseVisitId(current.id, session.visitId)
+      : visitStorage.startNewVisit(
+          { examiner: current?.examiner || 'Unassigned', visitId: session.visitId, date: session.startedAt },
+          createChartData(getPatientDentition(patientStorage.getActivePatient())),
+        );
+    if (!snapshot) return;
+    activeVisitIdRef.current = snapshot.visit.id;
+    setActiveVisit(snapshot.visit);
+    setData(snapshot.teeth);
+    setVisits(visitStorage.listVisits());
+  }, []);
+
+  const viewVisit = useCallback((visitId: string | null) => {
+    if (!visitId || visitId === activeVisitIdRef.current) {
+      setViewedVisit(null);
+      return;
+    }
+    setViewedVisit(visitStorage.loadVisit(visitId));
+  }, []);
+
+  const compareWithVisit = useCallback((visitId: string | null) => {
+    setComparisonVisit(visitId ? visitStorage.loadVisit(visitId) : null);
+  }, []);
+
+  const selectPatient = useCallback((patientId: string) => {
+    const patient = patientStorage.getPatient(patientId);
+    if (!patient) return;
+    // Persist the current chart before switching storage scope
+    visitStorage.saveVisitChart(activeVisitIdRef.current, data);
+    patientStorage.setActivePatient(patient.id);
+
+    const snapshot = loadActiveVisitChart();
+    activeVisitIdRef.current = snapshot.visit.id;
+    setActivePatient(patient);
+    setActiveVisit(snapshot.visit);
+    setData(snapshot.teeth);
+    setVisits(visitStorage.listVisits());
+    setViewedVisit(null);
+    setComparisonVisit(null);
+  }, [data]);
+
+  const createPatient = useCallback((details: NewPatient) => {
+    const patient = patientStorage.createPatient(details);
+    setPatients(patientStorage.listPatients());
+    selectPatient(patient.id);
+  }, [selectPatient]);
+
+  const updatePatient = useCallback((details: NewPatient) => {
+    const patient = patientStorage.updatePatient(activePatient.id, details);
+    if (!patient) return;
+    setPatients(patientStorage.listPatients());
+    setActivePatient(patient);
+
+    // Only an explicit dentition change re-shapes the open chart, not a new date of birth
+    if (patient.dentition && patient.dentition !== activePatient.dentition) {
+      const teeth = applyDentition(data, patient.dentition);
+      localToothStorage.saveToothData(teeth);
+      visitStorage.saveVisitChart(activeVisitIdRef.current, teeth);
+      setData(teeth);
+      console.log(`🦷 Chart switched to ${patient.dentition} dentition (${teeth.length} teeth)`);
+    }
+  }, [activePatient, data]);
+
+  return {
+    chartData: processedData,
+    updateChartData,
+    updateToothStatus,
+    importChart,
+    overallScores,
+    visits,
+    activeVisit,
+    viewedVisit,
+    isReadOnly: viewedVisit !== null,
+    comparisonVisit,
+    comparison,
+    startNewVisit,
+    followDatabaseVisit,
+    viewVisit,
+    compareWithVisit,
+    patients,
+    activePatient,
+    selectPatient,
+    createPatient,
+    updatePatient,
+  };
 };
 
 
 function App() {
-  const { chartData, updateChartData, overallScores } = useChartData();
+  const {
+    chartData, updateChartData, updateToothStatus, importChart, overallScores,
+    visits, activeVisit, viewedVisit, isReadOnly, comparisonVisit, comparison,
+    startNewVisit, followDatabaseVisit, viewVisit, compareWithVisit,
+    patients, activePatient, selectPatient, createPatient, updatePatient,
+  } = useChartData();
+
+  const classificationInputs = useMemo(() => ({
+    ageYears: getPatientAge(activePatient),
+    cigarettesPerDay: activePatient.smokingStatus === 'current' ? activePatient.cigarettesPerDay : undefined,
+    hasDiabetes: activePatient.hasDiabetes,
+    hba1c: activePatient.hba1c,
+  }), [activePatient]);
   
   // Initialize AI model manager
   useEffect(() => {
@@ -148,14 +298,37 @@ function App() {
   }, []);
   const [selectedToothId, setSelectedToothId] = useState<number | null>(null);
   const [activeSurface, setActiveSurface] = useState<'buccal' | 'lingual' | null>('buccal');
-  const [showPlaque, setShowPlaque] = useState(false);
+  const [heatMap, setHeatMap] = useState<HygieneIndex | null>(null);
   const [showTextWindow, setShowTextWindow] = useState(false);
   const [showHelpWindow, setShowHelpWindow] = useState(false);
+  const [showRiskAssessment, setShowRiskAssessment] = useState(false);
   const [cameraControls, setCameraControls] = useState<any>(null);
   const [blinkingTeeth, setBlinkingTeeth] = useState<Set<number>>(new Set());
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  const [chatMode, setChatMode] = useState<ChatMode>('tooth');
+  // Camera move requested by the chat assistant; a new object moves it again
+  const [cameraFocus, setCameraFocus] = useState<{ toothId: number } | null>(null);
   const [ttsText, setTtsText] = useState<string>('');
-  const lastFetchTimeRef = useRef<string>('');
-  const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Voice-agent session shown on the chart; null follows every session of the patient
+  const [syncSessionId, setSyncSessionId] = useState<string | null>(null);
+  const [syncSessions, setSyncSessions] = useState<ObservationSession[]>([]);
+  const [syncState, setSyncState] = useState<SyncConnectionState>('connecting');
+  // Open conflicts between manual edits and synced rows, one per site
+  const [syncConflicts, setSyncConflicts] = useState<SiteConflict[]>([]);
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>(() => observationWriteBack.getPolicy());
+  const [pendingWrites, setPendingWrites] = useState(0);
+  const [toothNotation, setToothNotation] = useState<ToothNotation>(() => displayPreferences.getToothNotation());
+  const [furcationSystem, setFurcationSystem] = useState<FurcationSystem>(() => displayPreferences.getFurcationSystem());
+  const [chartView, setChartView] = useState<ChartView>(() => displayPreferences.getChartView());
+  // Set by the 3D scene while it is mounted
+  const sceneCaptureRef = useRef<(() => string) | null>(null);
+
+  // Tooth selection does not carry over to another patient
+  useEffect(() => {
+    setSelectedToothId(null);
+    setSyncConflicts([]);
+    syncDiagnostics.clear();
+  }, [activePatient.id]);
 
   const selectedToothData = useMemo(() => {
     const tooth = chartData.find(t => t.id === selectedToothId) || null;
@@ -163,14 +336,19 @@ function App() {
     return tooth;
   }, [selectedToothId, chartData]);
 
+  // The 3D scene is built once per set of teeth, so rebuild it when the dentition or a tooth status changes
+  const sceneKey = useMemo(
+    () => chartData.map(t => `${t.id}:${getToothStatus(t)}:${t.supernumerary || 0}`).join(','),
+    [chartData]
+  );
+
   const handleToothSelect = useCallback((toothId: number) => {
-    if (chartData.find(t => t.id === toothId)?.isMissing) return;
     setSelectedToothId(currentId => currentId === toothId ? null : toothId);
     // Automatically open analysis window when tooth is selected
     if (toothId) {
       setShowTextWindow(true);
     }
-  }, [chartData]);
+  }, []);
   
   const handleSetSurface = useCallback((surface: 'buccal' | 'lingual' | null) => {
     setActiveSurface(surface);
@@ -189,26 +367,58 @@ function App() {
     }
   }, [cameraControls]);
   
-  const handleTogglePlaque = useCallback(() => {
-    setShowPlaque(prev => !prev);
+  // Picking the index that is already shown turns the heat map off
+  const handleChangeHeatMap = useCallback((index: HygieneIndex) => {
+    setHeatMap(prev => (prev === index ? null : index));
   }, []);
 
-  // Function to sync data from database
-  const syncDatabaseData = useCallback(async () => {
-    // Fetch from Supabase API (change to 'local' for testing with test.json)
-    const measurements = await fetchDbMeasurements('supabase');
-    if (measurements.length === 0) return;
+  // Rows of the open visit. A visit the database does not know yet listens to
+  // rows recorded since it began, whose sessions link it to its database
+  // visit (followDatabaseVisit); only then are they charted.
+  const linkedToDatabase = !isLocalVisitId(activeVisit.id);
+  const syncQuery = useMemo<ObservationQuery>(() => ({
+    patientId: getPatientRecordNumber(activePatient),
+    ...(linkedToDatabase ? { visitId: activeVisit.id } : { since: activeVisit.date }),
+    sessionId: syncSessionId,
+  }), [activePatient, linkedToDatabase, activeVisit.id, activeVisit.date, syncSessionId]);
+
+  // Sessions of the patient in the chair; a new patient starts on all sessions
+  useEffect(() => {
+    setSyncSessions([]);
+    fetchDbSessions(getPatientRecordNumber(activePatient)).then(setSyncSessions);
+  }, [activePatient]);
 
-    // Process measurements and apply updates
-    const { updates, updatedTeethIds } = processDbMeasurements(measurements);
-    
-    // Check if there are any new updates (comparing timestamps)
-    const latestTimestamp = measurements[measurements.length - 1]?.created_at || '';
-    if (latestTimestamp === lastFetchTimeRef.current) {
-      return; // No new data
-    }
-    
-    lastFetchTimeRef.current = latestTimestamp;
+  // A session picked for one visit filters nothing in the next
+  useEffect(() => {
+    setSyncSessionId(null);
+  }, [activePatient, activeVisit.id]);
+
+  // The picker offers the sessions recorded for the open visit
+  const visitSessions = useMemo(() => syncSessions.filter(session => linkedToDatabase
+    ? session.visitId === activeVisit.id
+    : Date.parse(session.startedAt) >= Date.parse(activeVisit.date)),
+  [syncSessions, linkedToDatabase, activeVisit.id, activeVisit.date]);
+
+  // A visit the database started since the open one takes over the chart
+  useEffect(() => {
+    followDatabaseVisit(syncSessions);
+  }, [syncSessions, followDatabaseVisit]);
+
+  // Apply synced rows to the chart and blink the teeth they touched
+  const applyDbMeasurements = useCallback((measurements: DbMeasurement[], query: ObservationQuery) => {
+    // Process the open visit's rows, keeping manual edits that are newer than the rows
+    const processed = processDbMeasurements(measurements, { ...query, visitId: activeVisit.id });
+    syncDiagnostics.record(processed.diagnostics);
+    const updates = observationWriteBack.resolveIncoming(query.patientId, processed.updates);
+    const updatedTeethIds = Array.from(new Set(updates.map(update => update.toothId)));
+
+    // Pick up sessions that started since the list was loaded
+    const newSessions = summarizeSessions(measurements);
+    setSyncSessions(prev => {
+      const known = new Set(prev.map(s => s.sessionId));
+      const added = newSessions.filter(s => !known.has(s.sessionId));
+      return added.length > 0 ? [...added, ...prev] : prev;
+    });
 
     // Apply all updates
     updates.forEach(update => {
@@ -226,34 +436,180 @@ function App() {
         setBlinkingTeeth(new Set());
       }, 1000);
     }
-  }, [updateChartData]);
+  }, [updateChartData, activeVisit.id]);
 
-  // Start polling for database updates every 1 second (after 2 second delay)
+  // Subscribe to database updates for the current patient/session (after 2 second delay)
   useEffect(() => {
-    // Wait 2 seconds before starting database sync
+    const transport = createObservationTransport();
     const initialDelayTimeout = setTimeout(() => {
-      // Initial sync after 2 seconds
-      syncDatabaseData();
-
-      // Set up polling interval
-      pollingIntervalRef.current = setInterval(() => {
-        syncDatabaseData();
-      }, 1000); // Poll every 1 second
-    }, 2000); // Wait 2 seconds before first sync
+      transport.connect(syncQuery, {
+        onRows: rows => applyDbMeasurements(rows, syncQuery),
+        onStateChange: setSyncState,
+      });
+    }, 2000);
 
-    // Cleanup on unmount
+    // A new patient or session starts a fresh subscription
     return () => {
       clearTimeout(initialDelayTimeout);
-      if (pollingIntervalRef.current) {
-        clearInterval(pollingIntervalRef.current);
-      }
+      transport.disconnect();
+    };
+  }, [syncQuery, applyDbMeasurements]);
+
+  // Replay edits queued while offline and track what is still waiting
+  useEffect(() => {
+    const unsubscribeConflicts = observationWriteBack.onConflict(conflict => {
+      setSyncConflicts(prev => [...prev.filter(c => c.id !== conflict.id), conflict]);
+    });
+    const unsubscribeQueue = observationWriteBack.onQueueChange(setPendingWrites);
+    observationWriteBack.init();
+    return () => {
+      unsubscribeConflicts();
+      unsubscribeQueue();
     };
-  }, [syncDatabaseData]);
+  }, []);
+
+  const handleChangeConflictPolicy = useCallback((policy: ConflictPolicy) => {
+    observationWriteBack.setPolicy(policy);
+    setConflictPolicy(policy);
+  }, []);
+
+  const handleChangeNotation = useCallback((notation: ToothNotation) => {
+    displayPreferences.setToothNotation(notation);
+    setToothNotation(notation);
+  }, []);
+
+  const handleChangeFurcationSystem = useCallback((system: FurcationSystem) => {
+    displayPreferences.setFurcationSystem(system);
+    setFurcationSystem(system);
+  }, []);
+
+  const handleChangeChartView = useCallback((view: ChartView) => {
+    displayPreferences.setChartView(view);
+    setChartView(view);
+  }, []);
+
+  const handleSceneCapture = useCallback((capture: (() => string) | null) => {
+    sceneCaptureRef.current = capture;
+  }, []);
+
+  const handleExportReport = useCallback(async (clinic: ClinicDetails) => {
+    // The 2D chart is rendered for the report even when only the 3D view is open
+    const markup = renderToStaticMarkup(
+      <DentalChart2D chartData={chartData} selectedToothId={null} onToothSelect={() => {}} notation={toothNotation} />
+    );
+    const svgStart = markup.indexOf('<svg');
+    await reportGenerator.download({
+      patient: activePatient,
+      visit: viewedVisit?.visit || activeVisit,
+      chartData,
+      classificationInputs,
+      notation: toothNotation,
+      clinic,
+      chartSvg: svgStart === -1 ? null : markup.slice(svgStart, markup.lastIndexOf('</svg>') + 6),
+      sceneImage: sceneCaptureRef.current?.() ?? null,
+    });
+  }, [chartData, toothNotation, activePatient, viewedVisit, activeVisit, classificationInputs]);
+
+  const handleExportFhir = useCallback(() => {
+    const visit = viewedVisit?.visit || activeVisit;
+    const bundle = exportFhirBundle(activePatient, visit, chartData);
+    downloadBlob(
+      new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' }),
+      `fhir-${getPatientRecordNumber(activePatient)}-${visit.date.slice(0, 10)}.json`,
+    );
+  }, [activePatient, viewedVisit, activeVisit, chartData]);
+
+  const handleImportFhir = useCallback((result: FhirImportResult): string | null => {
+    const recordNumber = getPatientRecordNumber(activePatient);
+    if (result.patientRecordNumber && result.patientRecordNumber !== recordNumber) {
+      return `Bundle is for patient ${result.patientRecordNumber}, not ${recordNumber}`;
+    }
+    importChart(teeth => mergeImportedTeeth(teeth, result.teeth));
+    return null;
+  }, [activePatient, importChart]);
+
+  const handleExportSpreadsheet = useCallback((format: SpreadsheetFormat) => {
+    const visit = viewedVisit?.visit || activeVisit;
+    downloadBlob(
+      spreadsheetBlob(chartToRows(chartData, toothNotation), format, 'Chart'),
+      `chart-${getPatientRecordNumber(activePatient)}-${visit.date.slice(0, 10)}.${format}`,
+    );
+  }, [activePatient, viewedVisit, activeVisit, chartData, toothNotation]);
+
+  const handleApplySpreadsheet = useCallback((preview: ImportPreview) => {
+    importChart(teeth => applyChartImport(teeth, preview));
+  }, [importChart]);
+
+  const handleDismissConflict = useCallback((conflict: SiteConflict) => {
+    setSyncConflicts(prev => prev.filter(c => c.id !== conflict.id));
+  }, []);
+
+  // Edits made in the info panel are also written back to the database;
+  // updates applied from the database go through updateChartData directly
+  const handleManualUpdate = useCallback((
+    toothId: number,
+    location: MeasurementLocation | NonSiteLocation,
+    type: MeasurementType,
+    value: MeasurementSiteValue
+  ) => {
+    updateChartData(toothId, location, type, value);
+    observationWriteBack.recordEdit({ toothId, location, type, value }, {
+      patientId: getPatientRecordNumber(activePatient),
+      visitId: activeVisit.id,
+      sessionId: observationWriteBack.manualSessionId(activeVisit.id),
+    }).catch(error => console.error('❌ Failed to write back chart edit:', error));
+  }, [updateChartData, activePatient, activeVisit.id]);
+
+  // The chat assistant reads the latest state through a ref so the bridge stays stable during a reply
+  const agentStateRef = useRef({ chartData, toothNotation, isReadOnly, classificationInputs, visits, displayedVisitId: (viewedVisit?.visit || activeVisit).id, handleManualUpdate, compareWithVisit });
+  agentStateRef.current = { chartData, toothNotation, isReadOnly, classificationInputs, visits, displayedVisitId: (viewedVisit?.visit || activeVisit).id, handleManualUpdate, compareWithVisit };
+
+  const chartAgentBridge = useMemo<ChartAgentBridge>(() => ({
+    getChart: () => agentStateRef.current.chartData,
+    getNotation: () => agentStateRef.current.toothNotation,
+    isReadOnly: () => agentStateRef.current.isReadOnly,
+    getClassificationInputs: () => agentStateRef.current.classificationInputs,
+    getVisits: () => agentStateRef.current.visits,
+    getDisplayedVisitId: () => agentStateRef.current.displayedVisitId,
+    updateSite: (toothId, location, type, value) => agentStateRef.current.handleManualUpdate(toothId, location, type, value),
+    // Unlike a click, selecting from the chat never toggles the tooth off
+    selectTooth: (toothId, focusCamera) => {
+      setSelectedToothId(toothId);
+      if (focusCamera) setCameraFocus({ toothId });
+    },
+    highlightTeeth: (toothIds) => {
+      setBlinkingTeeth(new Set(toothIds));
+      setTimeout(() => setBlinkingTeeth(new Set()), 3000);
+    },
+    showComparison: (visitId) => agentStateRef.current.compareWithVisit(visitId),
+  }), []);
+
+  // The chosen value is recorded as a fresh edit so it also wins in the database
+  const handleResolveConflict = useCallback((conflict: SiteConflict, choice: 'manual' | 'incoming') => {
+    const value = choice === 'manual' ? conflict.manualValue : conflict.incomingValue;
+    handleManualUpdate(conflict.toothId, conflict.location as MeasurementLocation, conflict.type, value);
+    handleDismissConflict(conflict);
+  }, [handleManualUpdate, handleDismissConflict]);
 
   const handleToggleTextWindow = useCallback(() => {
     setShowTextWindow(prev => !prev);
   }, []);
 
+  const handleToggleRiskAssessment = useCallback(() => {
+    setShowRiskAssessment(prev => !prev);
+  }, []);
+
+  // The info panel opens the chat on its tooth; the toolbar opens it on the whole mouth
+  const handleOpenToothChat = useCallback(() => {
+    setChatMode('tooth');
+    setIsChatOpen(true);
+  }, []);
+
+  const handleToggleChat = useCallback(() => {
+    setChatMode('mouth');
+    setIsChatOpen(prev => !prev);
+  }, []);
+
   const handleHelp = useCallback(() => {
     setShowHelpWindow(prev => !prev);
   }, []);
@@ -262,6 +618,7 @@ function App() {
   const closeAllWindows = useCallback(() => {
     setShowTextWindow(false);
     setShowHelpWindow(false);
+    setShowRiskAssessment(false);
     setSelectedToothId(null);
   }, []);
 
@@ -368,51 +725,164 @@ function App() {
         <div className="bg-[rgba(25,30,45,0.6)] backdrop-blur-md border border-[rgba(255,255,255,0.1)] p-3 rounded-xl">
           <h1 className="text-2xl font-bold text-white drop-shadow-md">Agentic Periodontal Digital Twin</h1>
           <p className="text-md text-slate-300 drop-shadow-md">Interactive 3D Assessment Tool</p>
-          <div className="mt-2">
+          <div className="mt-2 flex items-center space-x-4">
             <ModelStatusIndicator />
+            <SyncStatusIndicator
+              state={syncState}
+              pendingWrites={pendingWrites}
+              conflicts={syncConflicts}
+              onResolveConflict={handleResolveConflict}
+              onDismissConflict={handleDismissConflict}
+            />
+            <SyncDiagnosticsPanel />
+          </div>
+          <div className="mt-2 pointer-events-auto">
+            <PatientSelector
+              patients={patients}
+              activePatient={activePatient}
+              onSelectPatient={selectPatient}
+              onCreatePatient={createPatient}
+              onUpdatePatient={updatePatient}
+            />
+          </div>
+          <div className="mt-2 pointer-events-auto">
+            <VisitSelector
+              visits={visits}
+              activeVisit={activeVisit}
+              viewedVisit={viewedVisit?.visit || null}
+              comparisonVisit={comparisonVisit?.visit || null}
+              comparison={comparison}
+              onViewVisit={viewVisit}
+              onCompareVisit={compareWithVisit}
+              onStartNewVisit={startNewVisit}
+            />
+          </div>
+          <div className="mt-2 pointer-events-auto">
+            <SessionPicker
+              sessions={visitSessions}
+              selectedSessionId={syncSessionId}
+              onSelectSession={setSyncSessionId}
+              conflictPolicy={conflictPolicy}
+              onChangeConflictPolicy={handleChangeConflictPolicy}
+            />
+          </div>
+          <div className="mt-2 pointer-events-auto">
+            <NotationSelector notation={toothNotation} onChangeNotation={handleChangeNotation} />
+          </div>
+          <div className="mt-2 pointer-events-auto">
+            <ChartViewSelector view={chartView} onChangeView={handleChangeChartView} />
+          </div>
+          <div className="mt-2 pointer-events-auto">
+            <ReportExporter onExport={handleExportReport} />
+          </div>
+          <div className="mt-2 pointer-events-auto">
+            <FhirExchange onExport={handleExportFhir} onImport={handleImportFhir} readOnly={isReadOnly} />
+          </div>
+          <div className="mt-2 pointer-events-auto">
+            <SpreadsheetExchange
+              chartData={chartData}
+              notation={toothNotation}
+              readOnly={isReadOnly}
+              onExport={handleExportSpreadsheet}
+              onApply={handleApplySpreadsheet}
+            />
+          </div>
+          <div className="mt-2 pointer-events-auto">
+            <AIProviderSettings />
           </div>
         </div>
         <div className="pointer-events-auto">
           <Toolbar 
             onResetCamera={handleResetCamera} 
-            onTogglePlaque={handleTogglePlaque} 
-            isPlaqueVisible={showPlaque}
+            heatMap={heatMap}
+            onChangeHeatMap={handleChangeHeatMap}
                     onToggleTextWindow={handleToggleTextWindow}
                     isTextWindowVisible={showTextWindow}
                     onOverallAnalysis={handleOverallAnalysis}
+                    onToggleRiskAssessment={handleToggleRiskAssessment}
+                    isRiskAssessmentVisible={showRiskAssessment}
+                    onToggleChat={handleToggleChat}
+                    isChatVisible={isChatOpen}
                     onHelp={handleHelp}
           />
         </div>
       </header>
       
-      <DentalChart3D
-        chartData={chartData}
-        onToothSelect={handleToothSelect}
-        selectedToothData={selectedToothData}
-        showPlaque={showPlaque}
-        setCameraControls={setCameraControls}
-        activeSurface={activeSurface}
-        blinkingTeeth={blinkingTeeth}
-      />
+      <div className={`w-full h-full flex flex-col ${chartView === '2d' ? 'pt-80' : ''}`}>
+        {chartView !== '2d' && (
+          <div className={chartView === 'split' ? 'h-[55%]' : 'h-full'}>
+            {/* The renderer is sized on mount, so a layout change remounts the scene */}
+            <DentalChart3D
+              key={`${activePatient.id}|${sceneKey}|${chartView}`}
+              chartData={chartData}
+              onToothSelect={handleToothSelect}
+              selectedToothData={selectedToothData}
+              heatMap={heatMap}
+              setCameraControls={setCameraControls}
+              onSceneCapture={handleSceneCapture}
+              activeSurface={activeSurface}
+              blinkingTeeth={blinkingTeeth}
+              comparison={comparison}
+              notation={toothNotation}
+              cameraFocus={cameraFocus}
+            />
+          </div>
+        )}
+        {chartView !== '3d' && (
+          <div className="flex-1 min-h-0">
+            <DentalChart2D
+              chartData={chartData}
+              selectedToothId={selectedToothId}
+              onToothSelect={handleToothSelect}
+              notation={toothNotation}
+            />
+          </div>
+        )}
+      </div>
       
       {selectedToothData && (
         <InfoPanel
           key={selectedToothData.id}
           toothData={selectedToothData}
-          onUpdate={updateChartData}
+          onUpdate={handleManualUpdate}
+          onUpdateStatus={updateToothStatus}
+          readOnly={isReadOnly}
           onClose={handleClosePanel}
           onSelectTooth={handleToothSelect}
           activeSurface={activeSurface}
           onSetSurface={handleSetSurface}
           overallScores={overallScores}
+          comparison={comparison?.teeth.find(t => t.toothId === selectedToothData.id) || null}
+          comparisonVisit={comparisonVisit?.visit || null}
+          notation={toothNotation}
+          furcationSystem={furcationSystem}
+          onChangeFurcationSystem={handleChangeFurcationSystem}
+          onOpenChat={handleOpenToothChat}
         />
       )}
 
+      <ChatPanel
+        key={`chat-${activePatient.id}`}
+        isOpen={isChatOpen}
+        onClose={() => setIsChatOpen(false)}
+        toothData={selectedToothData}
+        mode={chatMode}
+        onChangeMode={setChatMode}
+        chartData={chartData}
+        overallScores={overallScores}
+        classificationInputs={classificationInputs}
+        notation={toothNotation}
+        agent={chartAgentBridge}
+      />
+
       <TextWindow 
+        key={`analysis-${activePatient.id}`}
         isVisible={showTextWindow} 
         onClose={() => setShowTextWindow(false)}
         selectedToothId={selectedToothId}
         chartData={chartData}
+        classificationInputs={classificationInputs}
+        notation={toothNotation}
         onTextUpdate={setTtsText}
       />
 
@@ -421,6 +891,15 @@ function App() {
         onClose={() => setShowHelpWindow(false)}
       />
 
+      <RiskAssessmentPanel
+        key={`risk-${activePatient.id}`}
+        isVisible={showRiskAssessment}
+        onClose={() => setShowRiskAssessment(false)}
+        chartData={chartData}
+        patient={activePatient}
+        overallScores={overallScores}
+      />
+
 
       <footer className="absolute bottom-0 left-0 p-2 text-slate-400 text-xs z-10">
         <p>Not for clinical use. All data is for demonstration purposes only.</p>
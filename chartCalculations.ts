@@ -0,0 +1,75 @@
+import { ToothData, MeasurementType, MeasurementLocation, PerioSiteMeasurements } from './types.ts';
+import { MEASUREMENT_LOCATIONS } from './constants.ts';
+import { isImplant, isProbeable } from './toothStatus.ts';
+import { PERI_IMPLANT_THRESHOLDS } from './services/periImplantAssessment';
+import { getFurcationSystem, toHampClass } from './furcation.ts';
+
+// Keratinized tissue narrower than this is charted as a mucogingival deficiency
+export const MIN_KERATINIZED_TISSUE_MM = 2;
+
+/**
+ * Gingival margin at a site in mm from the CEJ, coronal positive. Charts
+ * recorded before the margin was charted fall back to minus the recession.
+ */
+export const getGingivalMargin = (tooth: ToothData, location: MeasurementLocation): number | undefined => {
+  const gm = tooth.measurements[MeasurementType.GINGIVAL_MARGIN]?.[location];
+  if (typeof gm === 'number') return gm;
+  const rec = tooth.measurements[MeasurementType.RECESSION]?.[location];
+  return typeof rec === 'number' ? -rec : undefined;
+};
+
+/**
+ * Derive clinical attachment loss (PD minus gingival margin), keratinized
+ * tissue width and the prognostic risk score for a tooth.
+ * Implants score pockets from the peri-implant threshold and weigh suppuration higher.
+ */
+export const calculateData = (tooth: ToothData): { cal: PerioSiteMeasurements, keratinizedTissue: PerioSiteMeasurements, riskScore: number } => {
+  const cal: PerioSiteMeasurements = {};
+  const keratinizedTissue: PerioSiteMeasurements = {};
+  let riskScore = 0;
+  
+  const pd = tooth.measurements[MeasurementType.POCKET_DEPTH] || {};
+  const mgj = tooth.measurements[MeasurementType.MUCOGINGIVAL_JUNCTION] || {};
+  const bop = tooth.measurements[MeasurementType.BLEEDING] || {};
+  const sup = tooth.measurements[MeasurementType.SUPPURATION] || {};
+  const implant = isImplant(tooth);
+  const pocketThreshold = implant ? PERI_IMPLANT_THRESHOLDS.pocketDepthWatch : 4;
+
+  MEASUREMENT_LOCATIONS.forEach(loc => {
+    const pocketDepth = typeof pd[loc] === 'number' ? pd[loc] as number : 0;
+    const gingivalMargin = getGingivalMargin(tooth, loc) ?? 0;
+    const recession = Math.max(0, -gingivalMargin);
+    // A margin coronal to the CEJ (overgrowth) makes part of the pocket pseudo-pocket
+    cal[loc] = Math.max(0, pocketDepth - gingivalMargin);
+    if (typeof mgj[loc] === 'number') {
+      keratinizedTissue[loc] = Math.max(0, (mgj[loc] as number) + gingivalMargin);
+    }
+
+    if (pocketDepth > pocketThreshold) riskScore += pocketDepth - pocketThreshold;
+    if (recession > 2) riskScore += recession - 2;
+    if ((cal[loc] as number) > 5) riskScore += (cal[loc] as number) - 5;
+    if (bop[loc]) riskScore += 2;
+    if (sup[loc]) riskScore += implant ? 3 : 2;
+    if (typeof keratinizedTissue[loc] === 'number' && (keratinizedTissue[loc] as number) < MIN_KERATINIZED_TISSUE_MM) riskScore += 1;
+  });
+
+  riskScore += (tooth.mobility || 0) * 10;
+  riskScore += (tooth.fremitus || 0) * 3;
+  const furcationSystem = getFurcationSystem(tooth);
+  Object.values(tooth.furcation || {}).forEach(grade => {
+    riskScore += toHampClass(grade || 0, furcationSystem) * 8;
+  });
+
+  return { cal, keratinizedTissue, riskScore };
+};
+
+/**
+ * Attach calculated CAL, keratinized tissue and risk score to every tooth in a chart
+ */
+export const processChartData = (teeth: ToothData[]): ToothData[] => {
+  return teeth.map(tooth => {
+    if (!isProbeable(tooth)) return { ...tooth, cal: {}, keratinizedTissue: {}, riskScore: 0 };
+    const { cal, keratinizedTissue, riskScore } = calculateData(tooth);
+    return { ...tooth, cal, keratinizedTissue, riskScore };
+  });
+};
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { AI_PROVIDER_KINDS, AIProviderConfig, AIProviderKind } from '../services/aiProviders';
+import { AI_FEATURES, AIFeature, AISettings, aiSettings } from '../services/aiSettings';
+
+const inputClass = "bg-gray-800/80 border border-gray-600 rounded-md px-2 py-1 text-slate-200 outline-none focus:border-blue-500";
+
+// Fields each provider reads; the rest are left out of its form
+const PROVIDER_FIELDS: Record<AIProviderKind, (keyof AIProviderConfig)[]> = {
+  generate: ['baseUrl'],
+  openai: ['baseUrl', 'model', 'apiKey'],
+  gemini: ['model', 'apiKey'],
+  local: ['baseUrl', 'model'],
+};
+
+const FIELD_PLACEHOLDERS: Record<keyof AIProviderConfig, string> = {
+  baseUrl: 'URL',
+  model: 'Model',
+  apiKey: 'API key',
+};
+
+export const AIProviderSettings: React.FC = () => {
+  const [settings, setSettings] = useState<AISettings>(() => aiSettings.getSettings());
+  const [isEditing, setIsEditing] = useState(false);
+
+  const updateFeature = (feature: AIFeature, kind: AIProviderKind) =>
+    setSettings(prev => ({ ...prev, features: { ...prev.features, [feature]: kind } }));
+
+  const updateProvider = (kind: AIProviderKind, patch: Partial<AIProviderConfig>) =>
+    setSettings(prev => ({ ...prev, providers: { ...prev.providers, [kind]: { ...prev.providers[kind], ...patch } } }));
+
+  const handleSave = () => {
+    aiSettings.saveSettings(settings);
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-xs text-slate-300">
+      <div className="flex items-center gap-2">
+        <span className="font-semibold text-blue-300">AI</span>
+        <button onClick={() => setIsEditing(prev => !prev)} className="underline hover:text-white">Providers</button>
+      </div>
+
+      {isEditing && (
+        <div className="flex flex-col gap-2 p-2 bg-gray-900/80 border border-gray-700 rounded-md w-96">
+          <div className="grid grid-cols-2 gap-1">
+            {AI_FEATURES.map(feature => (
+              <label key={feature.value} className="flex flex-col">
+                <span className="text-slate-400">{feature.label}</span>
+                <select value={settings.features[feature.value]} onChange={e => updateFeature(feature.value, e.target.value as AIProviderKind)} className={inputClass}>
+                  {AI_PROVIDER_KINDS.map(kind => <option key={kind.value} value={kind.value}>{kind.label}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          {AI_PROVIDER_KINDS.map(kind => (
+            <fieldset key={kind.value} className="flex flex-col gap-1 border-t border-gray-700 pt-1">
+              <legend className="text-slate-400" title={kind.description}>{kind.label}</legend>
+              {PROVIDER_FIELDS[kind.value].map(field => (
+                <input
+                  key={field}
+                  type={field === 'apiKey' ? 'password' : 'text'}
+                  value={settings.providers[kind.value][field]}
+                  onChange={e => updateProvider(kind.value, { [field]: e.target.value })}
+                  placeholder={FIELD_PLACEHOLDERS[field]}
+                  className={inputClass}
+                />
+              ))}
+            </fieldset>
+          ))}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setSettings(aiSettings.resetSettings())}
+              className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-white transition-colors"
+            >
+              Reset
+            </button>
+            <button onClick={handleSave} className="px-2 py-1 rounded-md bg-green-600/80 hover:bg-green-500 text-white transition-colors">
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AIProviderSettings;
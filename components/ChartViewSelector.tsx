@@ -0,0 +1,29 @@
+import React from 'react';
+import { ChartView, CHART_VIEWS } from '../services/displayPreferences';
+
+interface ChartViewSelectorProps {
+  view: ChartView;
+  onChangeView: (view: ChartView) => void;
+}
+
+export const ChartViewSelector: React.FC<ChartViewSelectorProps> = ({ view, onChangeView }) => {
+  return (
+    <div className="flex items-center gap-2 text-xs text-slate-300">
+      <span className="font-semibold text-blue-300">Chart</span>
+      <div className="flex bg-gray-800/80 border border-gray-600 rounded-md p-0.5" role="group" aria-label="Chart view">
+        {CHART_VIEWS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onChangeView(option.value)}
+            className={`px-2 py-0.5 rounded transition-colors ${view === option.value ? 'bg-blue-600 text-white' : 'text-slate-300 hover:bg-gray-700'}`}
+            aria-pressed={view === option.value}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ChartViewSelector;
@@ -1,21 +1,55 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { ToothData, MeasurementType } from '../types.ts';
+import { describeToothForPrompt, formatToothLabel, formatToothNumber, parseToothNumber, ToothNotation, DEFAULT_TOOTH_NOTATION } from '../toothNumbering.ts';
+import { describeFurcation } from '../furcation.ts';
+import { MEASUREMENT_LOCATIONS } from '../constants.ts';
+import { calculateData, getGingivalMargin } from '../chartCalculations.ts';
+import { AIMessage } from '../services/aiProviders.ts';
+import { AgentStep, runChartAgent } from '../services/chartAgent.ts';
+import { ChartAgentBridge } from '../services/chartAgentTools.ts';
+import { buildMouthContext } from '../services/mouthContext.ts';
+import { OverallScores } from '../services/hygieneIndices.ts';
+import { ClassificationInputs } from '../services/periodontalClassification.ts';
 
-interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
+// 'tooth' talks about the selected tooth, 'mouth' about the whole chart
+export type ChatMode = 'tooth' | 'mouth';
+
+// What the panel shows: the conversation plus the tool calls made along the way
+type ChatEntry =
+  | { role: 'user' | 'assistant'; content: string }
+  | { role: 'tool'; step: AgentStep };
+
+interface PendingConfirmation {
+  summary: string;
+  settle: (approved: boolean) => void;
 }
 
 interface ChatPanelProps {
   isOpen: boolean;
   onClose: () => void;
-  toothData: ToothData;
+  toothData: ToothData | null; // the selected tooth, if any
+  mode: ChatMode; // falls back to 'mouth' while no tooth is selected
+  onChangeMode: (mode: ChatMode) => void;
+  chartData: ToothData[];
+  overallScores: OverallScores;
+  classificationInputs?: ClassificationInputs;
+  notation?: ToothNotation;
+  agent: ChartAgentBridge;
 }
 
 const SYSTEM_PROMPT = `You are a dental AI focused on periodontics. Answer concisely and clinically.
 Use the provided tooth context. If data is missing, say so and ask for specifics.
 Prefer structured bullets for findings and recommendations.`;
 
+// Tooth citations in a reply, e.g. [[30]]
+const CITATION_PATTERN = /\[\[([^\]]+)\]\]/g;
+
+const STEP_STYLES: Record<AgentStep['status'], string> = {
+  done: 'border-green-500/40 text-green-300',
+  rejected: 'border-yellow-500/40 text-yellow-300',
+  failed: 'border-red-500/40 text-red-300',
+};
+
 function formatSurfaceTriplet(
   obj: Record<string, number | boolean | undefined>,
   surface: 'buccal' | 'lingual'
@@ -31,90 +65,129 @@ function buildToothContext(tooth: ToothData): string {
   const pd = tooth.measurements[MeasurementType.POCKET_DEPTH] || {};
   const rec = tooth.measurements[MeasurementType.RECESSION] || {};
   const bop = tooth.measurements[MeasurementType.BLEEDING] || {};
+  const sup = tooth.measurements[MeasurementType.SUPPURATION] || {};
   const plaque = tooth.measurements[MeasurementType.PLAQUE] || {};
-  const buccalCal = [pd[`disto_buccal`], pd[`mid_buccal`], pd[`mesio_buccal`]]
-    .map((v, i) => (typeof v === 'number' && typeof (rec as any)[['disto_buccal', 'mid_buccal', 'mesio_buccal'][i]] === 'number'
-      ? (v as number) + ((rec as any)[['disto_buccal', 'mid_buccal', 'mesio_buccal'][i]] as number)
-      : undefined));
-  const lingualCal = [pd[`disto_lingual`], pd[`mid_lingual`], pd[`mesio_lingual`]]
-    .map((v, i) => (typeof v === 'number' && typeof (rec as any)[['disto_lingual', 'mid_lingual', 'mesio_lingual'][i]] === 'number'
-      ? (v as number) + ((rec as any)[['disto_lingual', 'mid_lingual', 'mesio_lingual'][i]] as number)
-      : undefined));
+  const gm = Object.fromEntries(MEASUREMENT_LOCATIONS.map(loc => [loc, getGingivalMargin(tooth, loc)]));
+  const { cal, keratinizedTissue } = calculateData(tooth);
 
   return [
-    `Tooth ID: ${tooth.id}`,
+    `Tooth: ${describeToothForPrompt(tooth.id)}`,
     `Risk Score: ${tooth.riskScore ?? 0}`,
-    `Mobility: ${tooth.mobility ?? 0}`,
-    `Furcation: B=${tooth.furcation?.buccal ?? 0}, L=${tooth.furcation?.lingual ?? 0}`,
+    `Mobility: ${tooth.mobility ?? 0} (Miller), fremitus ${tooth.fremitus ?? 0}`,
+    `Furcation: ${describeFurcation(tooth)}`,
     `Buccal PD: ${formatSurfaceTriplet(pd as any, 'buccal')}`,
     `Buccal REC: ${formatSurfaceTriplet(rec as any, 'buccal')}`,
     `Lingual PD: ${formatSurfaceTriplet(pd as any, 'lingual')}`,
     `Lingual REC: ${formatSurfaceTriplet(rec as any, 'lingual')}`,
+    `Gingival margin (mm from CEJ, + coronal): Buccal ${formatSurfaceTriplet(gm, 'buccal')}; Lingual ${formatSurfaceTriplet(gm, 'lingual')}`,
     `BOP: Buccal ${formatSurfaceTriplet(bop as any, 'buccal')}; Lingual ${formatSurfaceTriplet(bop as any, 'lingual')}`,
+    `Suppuration: Buccal ${formatSurfaceTriplet(sup as any, 'buccal')}; Lingual ${formatSurfaceTriplet(sup as any, 'lingual')}`,
     `Plaque: Buccal ${formatSurfaceTriplet(plaque as any, 'buccal')}; Lingual ${formatSurfaceTriplet(plaque as any, 'lingual')}`,
-    `Estimated CAL (Buccal): ${buccalCal.map(v => (v ?? 'NA')).join(', ')}`,
-    `Estimated CAL (Lingual): ${lingualCal.map(v => (v ?? 'NA')).join(', ')}`,
+    `CAL (PD - gingival margin): Buccal ${formatSurfaceTriplet(cal, 'buccal')}; Lingual ${formatSurfaceTriplet(cal, 'lingual')}`,
+    `Keratinized tissue (mm): Buccal ${formatSurfaceTriplet(keratinizedTissue, 'buccal')}; Lingual ${formatSurfaceTriplet(keratinizedTissue, 'lingual')}`,
   ].join('\n');
 }
 
-export const ChatPanel: React.FC<ChatPanelProps> = ({ isOpen, onClose, toothData }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    { role: 'system', content: SYSTEM_PROMPT }
-  ]);
+export const ChatPanel: React.FC<ChatPanelProps> = ({ isOpen, onClose, toothData, mode, onChangeMode, chartData, overallScores, classificationInputs, notation = DEFAULT_TOOTH_NOTATION, agent }) => {
+  const [entries, setEntries] = useState<ChatEntry[]>([]);
   const [input, setInput] = useState('');
   const [isSending, setIsSending] = useState(false);
+  const [pending, setPending] = useState<PendingConfirmation | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const requestRef = useRef<AbortController | null>(null);
+  // What the model has seen, tool calls and results included
+  const transcriptRef = useRef<AIMessage[]>([]);
 
-  const endpoint = (process.env.LLM_ENDPOINT as string) || 'http://216.81.248.15:8000/generate';
-
+  // Closing the panel stops a reply still streaming
   useEffect(() => {
-    if (isOpen) {
-      // Seed context (replace previous context if reopened for a different tooth)
-      setMessages(prev => {
-        const withoutSystem = prev.filter(m => m.role !== 'system');
-        return [
-          { role: 'system', content: SYSTEM_PROMPT },
-          ...withoutSystem
-        ];
-      });
-    }
-  }, [isOpen, toothData.id]);
+    if (!isOpen) requestRef.current?.abort();
+  }, [isOpen]);
+  useEffect(() => () => requestRef.current?.abort(), []);
 
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [messages]);
+  }, [entries, pending]);
+
+  const activeMode: ChatMode = toothData ? mode : 'mouth';
+  const contextBlock = useMemo(
+    () => (activeMode === 'tooth' && toothData
+      ? buildToothContext(toothData)
+      : buildMouthContext(chartData, { notation, overallScores, classificationInputs })),
+    [activeMode, toothData, chartData, notation, overallScores, classificationInputs]
+  );
+  const contextTitle = activeMode === 'tooth' ? 'Tooth Context' : 'Mouth Context';
+
+  // Cited teeth become links that select the tooth and fly the camera to it
+  const renderReply = (content: string) =>
+    content.split(CITATION_PATTERN).map((part, i) => {
+      if (i % 2 === 0) return part;
+      const id = parseToothNumber(part, notation);
+      if (id === null || !chartData.some(t => t.id === id)) return part;
+      return (
+        <button key={i} onClick={() => agent.selectTooth(id, true)} className="text-cyan-300 underline hover:text-cyan-200" title={formatToothLabel(id, notation)}>
+          {formatToothNumber(id, notation)}
+        </button>
+      );
+    });
 
-  const contextBlock = useMemo(() => buildToothContext(toothData), [toothData]);
+  // Replace the content of the assistant reply being streamed (the last entry)
+  const setReply = (content: string) =>
+    setEntries(prev => [...prev.slice(0, -1), { role: 'assistant', content }]);
+
+  // Tool steps go above the reply still being written
+  const addStep = (step: AgentStep) =>
+    setEntries(prev => [...prev.slice(0, -1), { role: 'tool', step }, { role: 'assistant', content: '' }]);
+
+  // Writes wait for the clinician; stopping the reply counts as a rejection
+  const confirm = (summary: string, signal: AbortSignal) =>
+    new Promise<boolean>(resolve => {
+      const settle = (approved: boolean) => {
+        signal.removeEventListener('abort', onAbort);
+        setPending(null);
+        resolve(approved);
+      };
+      const onAbort = () => settle(false);
+      signal.addEventListener('abort', onAbort);
+      setPending({ summary, settle });
+    });
 
   const handleSend = async () => {
     const trimmed = input.trim();
     if (!trimmed || isSending) return;
-    const userMessage: ChatMessage = { role: 'user', content: trimmed };
-    setMessages(prev => [...prev, userMessage]);
+    setEntries(prev => [...prev, { role: 'user', content: trimmed }, { role: 'assistant', content: '' }]);
     setInput('');
     setIsSending(true);
+    const request = new AbortController();
+    requestRef.current = request;
+    let reply = '';
+    const conversation: AIMessage[] = [...transcriptRef.current, { role: 'user', content: trimmed }];
     try {
-      const history = messages
-        .filter(m => m.role !== 'system')
-        .concat(userMessage)
-        .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
-        .join('\n');
-
-      const prompt = `${SYSTEM_PROMPT}\n\nTooth Context:\n${contextBlock}\n\nConversation:\n${history}\n\nAssistant:`;
-
-      const res = await fetch(endpoint, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ prompt, max_new_tokens: 256, temperature: 0.2 })
+      const notationHint = `Refer to teeth in ${notation === 'fdi' ? 'FDI' : notation === 'palmer' ? 'Palmer' : 'Universal'} notation.`;
+      const citationHint = `When you name a specific tooth, write its number in double square brackets, e.g. [[${formatToothNumber(30, notation)}]], so the clinician can open it.`;
+      const result = await runChartAgent(conversation, agent, {
+        context: `${SYSTEM_PROMPT}\n${notationHint}\n${citationHint}\n\n${contextTitle}:\n${contextBlock}`,
+        signal: request.signal,
+        onToken: soFar => {
+          reply = soFar;
+          setReply(soFar);
+        },
+        onStep: addStep,
+        confirm: summary => confirm(summary, request.signal),
       });
-      const data = await res.json();
-      const text = typeof data?.text === 'string' ? data.text : JSON.stringify(data);
-      setMessages(prev => [...prev, { role: 'assistant', content: text }]);
+      transcriptRef.current = result.transcript;
+      setReply(result.reply);
     } catch (err: any) {
-      setMessages(prev => [...prev, { role: 'assistant', content: `Error calling model: ${err?.message || String(err)}` }]);
+      if (request.signal.aborted) {
+        setReply(reply ? `${reply}\n\n(stopped)` : '(stopped)');
+      } else {
+        setReply(`Error calling model: ${err?.message || String(err)}`);
+      }
+      // Keep the question so a follow-up still has it
+      transcriptRef.current = conversation;
     } finally {
+      requestRef.current = null;
       setIsSending(false);
     }
   };
@@ -122,44 +195,84 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({ isOpen, onClose, toothData
   if (!isOpen) return null;
 
   return (
-    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-      <div className="bg-[rgba(25,30,45,0.9)] border border-[rgba(255,255,255,0.1)] rounded-2xl shadow-2xl text-white w-full max-w-2xl max-h-[85vh] flex flex-col">
-        <header className="flex items-center justify-between p-4 border-b border-gray-700/50">
-          <h3 className="text-lg font-bold">Chat with Perio Assistant (Tooth {toothData.id})</h3>
+    <div className="fixed bottom-10 left-4 z-40 w-[30rem] max-w-[calc(100vw-2rem)] max-h-[70vh] bg-[rgba(25,30,45,0.9)] border border-[rgba(255,255,255,0.1)] rounded-2xl shadow-2xl text-white flex flex-col">
+      <header className="flex items-center justify-between p-4 border-b border-gray-700/50">
+        <h3 className="text-lg font-bold">Chat with Perio Assistant{activeMode === 'tooth' && toothData ? ` (${formatToothLabel(toothData.id, notation)})` : ' (whole mouth)'}</h3>
+        <div className="flex items-center gap-3">
+          <div className="flex text-xs rounded-md overflow-hidden border border-gray-600" role="group" aria-label="Chat scope">
+            <button
+              onClick={() => onChangeMode('tooth')}
+              disabled={!toothData}
+              className={`px-2 py-1 ${activeMode === 'tooth' ? 'bg-blue-600' : 'bg-gray-800 hover:bg-gray-700'} disabled:text-gray-500 disabled:cursor-not-allowed`}
+              title={toothData ? undefined : 'Select a tooth first'}
+              aria-pressed={activeMode === 'tooth'}
+            >
+              Tooth
+            </button>
+            <button
+              onClick={() => onChangeMode('mouth')}
+              className={`px-2 py-1 ${activeMode === 'mouth' ? 'bg-blue-600' : 'bg-gray-800 hover:bg-gray-700'}`}
+              aria-pressed={activeMode === 'mouth'}
+            >
+              Whole mouth
+            </button>
+          </div>
           <button onClick={onClose} className="text-2xl text-gray-400 hover:text-white">&times;</button>
-        </header>
-        <div className="px-4 py-2 text-xs text-gray-300 border-b border-gray-700/50 whitespace-pre-wrap">
-          {contextBlock}
         </div>
-        <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-3">
-          {messages.filter(m => m.role !== 'system').map((m, idx) => (
-            <div key={idx} className={`max-w-[85%] rounded-lg px-3 py-2 whitespace-pre-wrap ${m.role === 'user' ? 'bg-blue-600/80 ml-auto' : 'bg-gray-800/80 mr-auto'} `}>
-              {m.content}
+      </header>
+      <details className="px-4 py-2 text-xs text-gray-300 border-b border-gray-700/50">
+        <summary className="cursor-pointer">{contextTitle}</summary>
+        <div className="whitespace-pre-wrap mt-1">{contextBlock}</div>
+      </details>
+      <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-3">
+        {entries.map((entry, idx) => entry.role === 'tool' ? (
+          <div key={idx} className={`text-xs border rounded-md px-2 py-1 ${STEP_STYLES[entry.step.status]}`}>
+            {entry.step.status === 'done' ? '✓' : entry.step.status === 'rejected' ? '✗ Rejected:' : '⚠ Failed:'} {entry.step.summary}
+            {entry.step.detail && <div className="text-gray-400">{entry.step.detail}</div>}
+          </div>
+        ) : (
+          <div key={idx} className={`max-w-[85%] rounded-lg px-3 py-2 whitespace-pre-wrap ${entry.role === 'user' ? 'bg-blue-600/80 ml-auto' : 'bg-gray-800/80 mr-auto'} `}>
+            {entry.role === 'assistant' ? renderReply(entry.content || '...') : entry.content}
+          </div>
+        ))}
+        {pending && (
+          <div className="border border-yellow-500/60 bg-yellow-900/20 rounded-lg p-3 text-sm">
+            <div className="text-yellow-300 font-semibold mb-1">Apply this change?</div>
+            <div className="whitespace-pre-wrap mb-2">{pending.summary}</div>
+            <div className="flex justify-end gap-2">
+              <button onClick={() => pending.settle(false)} className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600">Reject</button>
+              <button onClick={() => pending.settle(true)} className="px-3 py-1 rounded-md bg-green-600/80 hover:bg-green-500">Apply</button>
             </div>
-          ))}
-        </div>
-        <footer className="p-3 border-t border-gray-700/50 flex gap-2">
-          <input
-            value={input}
-            onChange={e => setInput(e.target.value)}
-            onKeyDown={e => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSend(); } }}
-            className="flex-1 bg-gray-800 text-white rounded-lg px-3 py-2 outline-none border border-gray-700 focus:border-blue-500"
-            placeholder="Ask about this tooth, e.g., recommended therapy given PD/REC/BOP..."
-          />
+          </div>
+        )}
+      </div>
+      <footer className="p-3 border-t border-gray-700/50 flex gap-2">
+        <input
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSend(); } }}
+          className="flex-1 bg-gray-800 text-white rounded-lg px-3 py-2 outline-none border border-gray-700 focus:border-blue-500"
+          placeholder={activeMode === 'tooth' ? 'Ask or instruct, e.g., mark BOP on all lingual sites of this tooth...' : 'Ask about the whole mouth, e.g., which teeth need surgery?'}
+        />
+        {isSending ? (
+          <button
+            onClick={() => requestRef.current?.abort()}
+            className="px-4 py-2 rounded-lg bg-red-600/80 hover:bg-red-600"
+            title="Stop generating"
+          >
+            Stop
+          </button>
+        ) : (
           <button
             onClick={handleSend}
-            disabled={isSending}
-            className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed"
+            className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700"
           >
-            {isSending ? '...' : 'Send'}
+            Send
           </button>
-        </footer>
-      </div>
+        )}
+      </footer>
     </div>
   );
 };
 
 export default ChatPanel;
-
-
-
@@ -0,0 +1,249 @@
+import React, { useMemo } from 'react';
+import { ToothData, MeasurementType, MeasurementLocation, FurcationEntrance } from '../types.ts';
+import { TOOTH_POSITIONS } from '../constants.ts';
+import { isUpperArch, isRightSide, formatToothNumber, formatToothLabel, ToothNotation, DEFAULT_TOOTH_NOTATION } from '../toothNumbering.ts';
+import { getToothStatus, getToothStatusLabel, isProbeable } from '../toothStatus.ts';
+import { getGingivalMargin } from '../chartCalculations.ts';
+import { getFurcationEntrances, getFurcationSystem, toHampClass, formatFurcationClass } from '../furcation.ts';
+
+interface DentalChart2DProps {
+  chartData: ToothData[];
+  selectedToothId: number | null;
+  onToothSelect: (id: number) => void;
+  notation?: ToothNotation;
+}
+
+// Layout, in SVG units. Each arch is [row above][number strip][row below]; crowns
+// face the strip, so rows above it grow toward the apex upward and rows below downward.
+const COLUMN = 40;
+const LABEL = 56;
+const ROW = 84;
+const STRIP = 34;
+const CROWN_BAND = 28; // PD values and BOP/SUP/plaque dots between the CEJ and the strip
+const MM = 4;
+const ARCH_GAP = 24;
+const ARCH_HEIGHT = ROW * 2 + STRIP;
+
+const COLORS = {
+  gingivalMargin: '#60a5fa',
+  pocket: '#f87171',
+  pocketFill: 'rgba(248, 113, 113, 0.18)',
+  cej: '#475569',
+  bleeding: '#ef4444',
+  suppuration: '#facc15',
+  plaque: '#94a3b8',
+  furcation: '#fb923c',
+  text: '#cbd5e1',
+  deepPocket: '#f87171',
+  selected: 'rgba(59, 130, 246, 0.18)',
+};
+
+type Surface = 'buccal' | 'lingual';
+
+interface ChartRow {
+  surface: Surface;
+  top: number;
+  apexUp: boolean;
+}
+
+// Patient's right is on the viewer's left, as on a paper chart
+const archTeeth = (chartData: ToothData[], upper: boolean): ToothData[] => chartData
+  .filter(tooth => isUpperArch(tooth.id) === upper && TOOTH_POSITIONS[tooth.id])
+  .sort((a, b) => TOOTH_POSITIONS[a.id].x - TOOTH_POSITIONS[b.id].x);
+
+// Sites left to right in a tooth's column; mesial always faces the midline
+const columnSites = (toothId: number, surface: Surface): MeasurementLocation[] => {
+  const sites: MeasurementLocation[] = [`disto_${surface}`, `mid_${surface}`, `mesio_${surface}`] as MeasurementLocation[];
+  return isRightSide(toothId) ? sites : sites.reverse();
+};
+
+const siteX = (column: number, index: number) => LABEL + column * COLUMN + COLUMN * (0.2 + index * 0.3);
+
+const numberAt = (tooth: ToothData, type: MeasurementType, location: MeasurementLocation): number => {
+  const value = tooth.measurements[type]?.[location];
+  return typeof value === 'number' ? value : 0;
+};
+
+// Furcation symbol: outline for class I, half filled for II, filled for III
+const FurcationTriangle: React.FC<{ x: number; y: number; grade: number; apexUp: boolean }> = ({ x, y, grade, apexUp }) => {
+  const size = 7;
+  const tip = apexUp ? y - size : y + size;
+  const base = apexUp ? y + size * 0.6 : y - size * 0.6;
+  const outline = `${x},${tip} ${x - size},${base} ${x + size},${base}`;
+  const half = `${x},${tip} ${x - size},${base} ${x},${base}`;
+  return (
+    <g>
+      {grade >= 3 && <polygon points={outline} fill={COLORS.furcation} />}
+      {grade === 2 && <polygon points={half} fill={COLORS.furcation} />}
+      <polygon points={outline} fill="none" stroke={COLORS.furcation} strokeWidth={1.5} />
+      <title>Furcation class {formatFurcationClass(grade)}</title>
+    </g>
+  );
+};
+
+const SurfaceRow: React.FC<{ teeth: ToothData[]; row: ChartRow; upper: boolean }> = ({ teeth, row, upper }) => {
+  const direction = row.apexUp ? -1 : 1; // SVG y toward the apex
+  const cej = row.apexUp ? row.top + ROW - CROWN_BAND : row.top + CROWN_BAND;
+  const valueY = row.apexUp ? row.top + ROW - 4 : row.top + 11;
+  const dotY = row.apexUp ? row.top + ROW - 18 : row.top + 18;
+
+  // Lines break at teeth that cannot be probed
+  const runs: Array<Array<{ x: number; gm: number; pocket: number }>> = [[]];
+  teeth.forEach((tooth, column) => {
+    if (!isProbeable(tooth)) {
+      if (runs[runs.length - 1].length > 0) runs.push([]);
+      return;
+    }
+    columnSites(tooth.id, row.surface).forEach((location, index) => {
+      const gingivalMargin = getGingivalMargin(tooth, location) ?? 0;
+      const gm = cej - direction * gingivalMargin * MM;
+      const pocket = gm + direction * numberAt(tooth, MeasurementType.POCKET_DEPTH, location) * MM;
+      runs[runs.length - 1].push({ x: siteX(column, index), gm, pocket });
+    });
+  });
+  const toPoints = (points: Array<{ x: number; y: number }>) => points.map(p => `${p.x},${p.y}`).join(' ');
+
+  const surfaceLabel = row.surface === 'buccal' ? 'Buccal' : upper ? 'Palatal' : 'Lingual';
+
+  return (
+    <g>
+      <text x={4} y={row.top + ROW / 2} fill={COLORS.text} fontSize={10} dominantBaseline="middle">{surfaceLabel}</text>
+      <line x1={LABEL} x2={LABEL + teeth.length * COLUMN} y1={cej} y2={cej} stroke={COLORS.cej} strokeDasharray="3 3" />
+
+      {runs.filter(run => run.length > 0).map((run, i) => (
+        <g key={i}>
+          <polygon
+            points={toPoints([...run.map(p => ({ x: p.x, y: p.gm })), ...run.slice().reverse().map(p => ({ x: p.x, y: p.pocket }))])}
+            fill={COLORS.pocketFill}
+          />
+          <polyline points={toPoints(run.map(p => ({ x: p.x, y: p.gm })))} fill="none" stroke={COLORS.gingivalMargin} strokeWidth={1.5} />
+          <polyline points={toPoints(run.map(p => ({ x: p.x, y: p.pocket })))} fill="none" stroke={COLORS.pocket} strokeWidth={1.5} />
+        </g>
+      ))}
+
+      {teeth.map((tooth, column) => {
+        if (!isProbeable(tooth)) return null;
+        const sites = columnSites(tooth.id, row.surface);
+        const bop = tooth.measurements[MeasurementType.BLEEDING] || {};
+        const sup = tooth.measurements[MeasurementType.SUPPURATION] || {};
+        const plaque = tooth.measurements[MeasurementType.PLAQUE] || {};
+        const system = getFurcationSystem(tooth);
+        const furcationY = cej + direction * 5 * MM;
+        // Upper molar mesial and distal entrances are probed from the palate
+        const furcationMarks = getFurcationEntrances(tooth.id)
+          .filter(entrance => (entrance === 'mesial' || entrance === 'distal') ? row.surface === 'lingual' : entrance === row.surface)
+          .map(entrance => ({ entrance, grade: toHampClass(tooth.furcation?.[entrance] || 0, system) }))
+          .filter(mark => mark.grade > 0);
+        const entranceX = (entrance: FurcationEntrance) => {
+          if (entrance === 'buccal' || entrance === 'lingual') return siteX(column, 1);
+          return siteX(column, sites.indexOf(`${entrance === 'mesial' ? 'mesio' : 'disto'}_${row.surface}` as MeasurementLocation));
+        };
+
+        return (
+          <g key={tooth.id}>
+            {sites.map((location, index) => {
+              const pd = numberAt(tooth, MeasurementType.POCKET_DEPTH, location);
+              const x = siteX(column, index);
+              return (
+                <g key={location}>
+                  <text x={x} y={valueY} fontSize={9} textAnchor="middle" fill={pd >= 5 ? COLORS.deepPocket : COLORS.text} fontWeight={pd >= 5 ? 'bold' : 'normal'}>{pd || ''}</text>
+                  {bop[location] && <circle cx={x} cy={dotY} r={2.5} fill={COLORS.bleeding} />}
+                  {sup[location] && <circle cx={x} cy={dotY + (row.apexUp ? -6 : 6)} r={2.5} fill={COLORS.suppuration} />}
+                  {plaque[location] && <rect x={x - 2} y={dotY + (row.apexUp ? 4 : -8)} width={4} height={4} fill={COLORS.plaque} />}
+                </g>
+              );
+            })}
+            {furcationMarks.map(mark => (
+              <FurcationTriangle key={mark.entrance} x={entranceX(mark.entrance)} y={furcationY} grade={mark.grade} apexUp={row.apexUp} />
+            ))}
+          </g>
+        );
+      })}
+    </g>
+  );
+};
+
+const NumberStrip: React.FC<{ teeth: ToothData[]; top: number; notation: ToothNotation }> = ({ teeth, top, notation }) => (
+  <g>
+    {teeth.map((tooth, column) => {
+      const status = getToothStatus(tooth);
+      const x = LABEL + column * COLUMN + COLUMN / 2;
+      const mobility = tooth.mobility || 0;
+      return (
+        <g key={tooth.id}>
+          <rect x={LABEL + column * COLUMN + 1} y={top + 2} width={COLUMN - 2} height={STRIP - 4} rx={4} fill="rgba(30, 41, 59, 0.8)" />
+          <text x={x} y={top + 15} fontSize={11} textAnchor="middle" fill={status === 'missing' ? '#64748b' : '#f1f5f9'} fontWeight="bold" textDecoration={status === 'missing' ? 'line-through' : undefined}>
+            {formatToothNumber(tooth.id, notation)}
+          </text>
+          <text x={x} y={top + 27} fontSize={8} textAnchor="middle" fill={mobility > 0 ? '#fbbf24' : '#64748b'}>
+            {status !== 'present' ? getToothStatusLabel(status).slice(0, 6) : mobility > 0 ? `M${mobility}` : ''}
+          </text>
+        </g>
+      );
+    })}
+  </g>
+);
+
+const DentalChart2D: React.FC<DentalChart2DProps> = ({ chartData, selectedToothId, onToothSelect, notation = DEFAULT_TOOTH_NOTATION }) => {
+  const arches = useMemo(() => [
+    { upper: true, teeth: archTeeth(chartData, true), top: 0 },
+    { upper: false, teeth: archTeeth(chartData, false), top: ARCH_HEIGHT + ARCH_GAP },
+  ], [chartData]);
+  const columns = Math.max(...arches.map(arch => arch.teeth.length), 1);
+  const width = LABEL + columns * COLUMN + 8;
+  const height = ARCH_HEIGHT * 2 + ARCH_GAP + 24;
+
+  return (
+    <div className="w-full h-full flex items-start justify-center overflow-auto p-4">
+      <svg xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${width} ${height}`} className="w-full max-w-6xl h-auto bg-[rgba(25,30,45,0.6)] rounded-xl border border-[rgba(255,255,255,0.1)]" role="img" aria-label="Periodontal chart">
+        {arches.map(({ upper, teeth, top }) => {
+          // Upper: buccal, numbers, palatal; lower: lingual, numbers, buccal
+          const rows: ChartRow[] = [
+            { surface: upper ? 'buccal' : 'lingual', top, apexUp: true },
+            { surface: upper ? 'lingual' : 'buccal', top: top + ROW + STRIP, apexUp: false },
+          ];
+          return (
+            <g key={upper ? 'upper' : 'lower'}>
+              {teeth.map((tooth, column) => (
+                <rect
+                  key={tooth.id}
+                  x={LABEL + column * COLUMN}
+                  y={top}
+                  width={COLUMN}
+                  height={ARCH_HEIGHT}
+                  fill={tooth.id === selectedToothId ? COLORS.selected : 'transparent'}
+                  className="cursor-pointer"
+                  onClick={() => onToothSelect(tooth.id)}
+                >
+                  <title>{formatToothLabel(tooth.id, notation)}</title>
+                </rect>
+              ))}
+              <g pointerEvents="none">
+                {rows.map(row => <SurfaceRow key={row.surface} teeth={teeth} row={row} upper={upper} />)}
+                <NumberStrip teeth={teeth} top={top + ROW} notation={notation} />
+              </g>
+            </g>
+          );
+        })}
+
+        {/* Legend */}
+        <g transform={`translate(${LABEL}, ${height - 8})`} fontSize={9} fill={COLORS.text} pointerEvents="none">
+          <line x1={0} x2={14} y1={-3} y2={-3} stroke={COLORS.gingivalMargin} strokeWidth={1.5} />
+          <text x={18} y={0}>Gingival margin</text>
+          <line x1={100} x2={114} y1={-3} y2={-3} stroke={COLORS.pocket} strokeWidth={1.5} />
+          <text x={118} y={0}>Pocket depth</text>
+          <circle cx={190} cy={-3} r={2.5} fill={COLORS.bleeding} />
+          <text x={196} y={0}>BOP</text>
+          <circle cx={230} cy={-3} r={2.5} fill={COLORS.suppuration} />
+          <text x={236} y={0}>SUP</text>
+          <rect x={268} y={-5} width={4} height={4} fill={COLORS.plaque} />
+          <text x={276} y={0}>Plaque</text>
+          <polygon points="320,-8 314,0 326,0" fill="none" stroke={COLORS.furcation} />
+          <text x={330} y={0}>Furcation I / II / III</text>
+        </g>
+      </svg>
+    </div>
+  );
+};
+
+export default DentalChart2D;
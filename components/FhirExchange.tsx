@@ -0,0 +1,57 @@
+import React, { useRef, useState } from 'react';
+import { FhirBundle, FhirImportResult, importFhirBundle } from '../services/fhirBundle';
+
+interface FhirExchangeProps {
+  onExport: () => void;
+  onImport: (result: FhirImportResult) => string | null; // returns why the import was refused
+  readOnly?: boolean;
+}
+
+export const FhirExchange: React.FC<FhirExchangeProps> = ({ onExport, onImport, readOnly = false }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const handleFile = async (file: File) => {
+    try {
+      const result = importFhirBundle(JSON.parse(await file.text()) as FhirBundle);
+      const refusal = onImport(result);
+      setMessage(refusal
+        ? { text: refusal, isError: true }
+        : { text: `Imported ${result.imported} observations${result.skipped > 0 ? `, ${result.skipped} skipped` : ''}`, isError: false });
+    } catch (error) {
+      console.error('❌ FHIR import failed:', error);
+      setMessage({ text: error instanceof Error ? error.message : 'Import failed', isError: true });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-slate-300">
+      <span className="font-semibold text-blue-300">FHIR</span>
+      <button onClick={onExport} className="px-2 py-1 rounded-md bg-gray-800/80 border border-gray-600 hover:border-blue-500 text-slate-200">
+        Export
+      </button>
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={readOnly}
+        title={readOnly ? 'A past visit is shown; imports go into the open visit' : 'Import a FHIR R4 bundle into the open visit'}
+        className="px-2 py-1 rounded-md bg-gray-800/80 border border-gray-600 hover:border-blue-500 text-slate-200 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Import
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/fhir+json,application/json"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+          e.target.value = '';
+        }}
+      />
+      {message && <span className={message.isError ? 'text-red-400' : 'text-green-400'}>{message.text}</span>}
+    </div>
+  );
+};
+
+export default FhirExchange;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { ToothNotation, TOOTH_NOTATIONS } from '../toothNumbering';
+
+interface NotationSelectorProps {
+  notation: ToothNotation;
+  onChangeNotation: (notation: ToothNotation) => void;
+}
+
+export const NotationSelector: React.FC<NotationSelectorProps> = ({ notation, onChangeNotation }) => {
+  return (
+    <label className="flex items-center gap-2 text-xs text-slate-300">
+      <span className="font-semibold text-blue-300">Numbering</span>
+      <select
+        value={notation}
+        onChange={e => onChangeNotation(e.target.value as ToothNotation)}
+        className="bg-gray-800/80 border border-gray-600 rounded-md px-2 py-1 text-slate-200 outline-none focus:border-blue-500"
+      >
+        {TOOTH_NOTATIONS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default NotationSelector;
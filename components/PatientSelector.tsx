@@ -0,0 +1,189 @@
+import React, { useState, useMemo } from 'react';
+import { Patient, PatientSex, SmokingStatus, Dentition } from '../types.ts';
+import { DENTITIONS } from '../constants.ts';
+import { NewPatient, getPatientAge, patientStorage } from '../services/patientStorage';
+
+interface PatientSelectorProps {
+  patients: Patient[];
+  activePatient: Patient;
+  onSelectPatient: (patientId: string) => void;
+  onCreatePatient: (details: NewPatient) => void;
+  onUpdatePatient: (details: NewPatient) => void;
+}
+
+const EMPTY_PATIENT: NewPatient = {
+  name: '',
+  dateOfBirth: '',
+  sex: 'unknown',
+  smokingStatus: 'never',
+  hasDiabetes: false,
+  medications: [],
+};
+
+const toDetails = (patient: Patient): NewPatient => {
+  const { id, createdAt, ...details } = patient;
+  return details;
+};
+
+const inputClass = "bg-gray-800/80 border border-gray-600 rounded-md px-2 py-1 text-slate-200 outline-none focus:border-blue-500";
+
+const PatientForm: React.FC<{ initial: NewPatient; submitLabel: string; onSubmit: (details: NewPatient) => void; onCancel: () => void }> = ({ initial, submitLabel, onSubmit, onCancel }) => {
+  const [form, setForm] = useState<NewPatient>(initial);
+  const [medications, setMedications] = useState(initial.medications.join(', '));
+
+  const update = (patch: Partial<NewPatient>) => setForm(prev => ({ ...prev, ...patch }));
+  const parseNumber = (value: string) => (value === '' ? undefined : parseFloat(value));
+
+  const handleSubmit = () => {
+    if (!form.name.trim()) return;
+    onSubmit({
+      ...form,
+      name: form.name.trim(),
+      medications: medications.split(',').map(m => m.trim()).filter(Boolean),
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2 p-2 bg-gray-900/80 border border-gray-700 rounded-md w-80">
+      <input value={form.name} onChange={e => update({ name: e.target.value })} placeholder="Name" className={`${inputClass} col-span-2`} />
+      <input
+        value={form.recordNumber ?? ''}
+        onChange={e => update({ recordNumber: e.target.value.trim() || undefined })}
+        placeholder="Record number (e.g. PAT796)"
+        className={`${inputClass} col-span-2`}
+      />
+      <input type="date" value={form.dateOfBirth} onChange={e => update({ dateOfBirth: e.target.value })} className={inputClass} />
+      <select value={form.sex} onChange={e => update({ sex: e.target.value as PatientSex })} className={inputClass}>
+        <option value="unknown">Sex: unknown</option>
+        <option value="female">Female</option>
+        <option value="male">Male</option>
+        <option value="other">Other</option>
+      </select>
+      <select value={form.smokingStatus} onChange={e => update({ smokingStatus: e.target.value as SmokingStatus })} className={inputClass}>
+        <option value="never">Never smoked</option>
+        <option value="former">Former smoker</option>
+        <option value="current">Current smoker</option>
+      </select>
+      <input
+        type="number"
+        min={0}
+        disabled={form.smokingStatus !== 'current'}
+        value={form.cigarettesPerDay ?? ''}
+        onChange={e => update({ cigarettesPerDay: parseNumber(e.target.value) })}
+        placeholder="Cigarettes/day"
+        className={`${inputClass} disabled:opacity-50`}
+      />
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={form.hasDiabetes} onChange={e => update({ hasDiabetes: e.target.checked })} />
+        Diabetes
+      </label>
+      <input
+        type="number"
+        step={0.1}
+        min={0}
+        disabled={!form.hasDiabetes}
+        value={form.hba1c ?? ''}
+        onChange={e => update({ hba1c: parseNumber(e.target.value) })}
+        placeholder="HbA1c %"
+        className={`${inputClass} disabled:opacity-50`}
+      />
+      <input value={medications} onChange={e => setMedications(e.target.value)} placeholder="Medications (comma separated)" className={`${inputClass} col-span-2`} />
+      <select
+        value={form.dentition ?? ''}
+        onChange={e => update({ dentition: (e.target.value || undefined) as Dentition | undefined })}
+        className={`${inputClass} col-span-2`}
+        title="Teeth the chart shows; changing it keeps data of teeth in both dentitions"
+      >
+        <option value="">Dentition: from age</option>
+        {DENTITIONS.map(d => <option key={d.value} value={d.value}>{d.label} dentition</option>)}
+      </select>
+      <div className="col-span-2 flex justify-end gap-2">
+        <button onClick={onCancel} className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-white transition-colors">Cancel</button>
+        <button
+          onClick={handleSubmit}
+          disabled={!form.name.trim()}
+          className="px-2 py-1 rounded-md bg-green-600/80 hover:bg-green-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white transition-colors"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const PatientSelector: React.FC<PatientSelectorProps> = ({ patients, activePatient, onSelectPatient, onCreatePatient, onUpdatePatient }) => {
+  const [query, setQuery] = useState('');
+  const [isSearching, setIsSearching] = useState(false);
+  const [mode, setMode] = useState<'create' | 'edit' | null>(null);
+
+  // Re-run the search whenever the patient list changes
+  const results = useMemo(() => patientStorage.searchPatients(query), [patients, query]);
+
+  const age = getPatientAge(activePatient);
+
+  return (
+    <div className="flex flex-col gap-2 text-xs text-slate-300">
+      <div className="flex items-center gap-2">
+        <span className="font-semibold text-blue-300">Patient</span>
+        <button
+          onClick={() => setIsSearching(prev => !prev)}
+          className="bg-gray-800/80 border border-gray-600 rounded-md px-2 py-1 text-slate-200 hover:border-blue-500"
+        >
+          {activePatient.name}{age !== undefined ? ` · ${age} y` : ''}
+        </button>
+        <button onClick={() => setMode(mode === 'edit' ? null : 'edit')} className="underline hover:text-white">Edit</button>
+        <button
+          onClick={() => setMode(mode === 'create' ? null : 'create')}
+          className="px-2 py-1 rounded-md bg-blue-600/80 hover:bg-blue-500 text-white transition-colors"
+        >
+          New Patient
+        </button>
+      </div>
+
+      {isSearching && (
+        <div className="flex flex-col gap-1 w-80">
+          <input
+            autoFocus
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search name, record number or date of birth"
+            className={inputClass}
+          />
+          <ul className="max-h-48 overflow-y-auto custom-scrollbar bg-gray-900/80 border border-gray-700 rounded-md">
+            {results.map(patient => (
+              <li key={patient.id}>
+                <button
+                  onClick={() => { onSelectPatient(patient.id); setIsSearching(false); setQuery(''); }}
+                  className={`w-full text-left px-2 py-1 hover:bg-gray-700 ${patient.id === activePatient.id ? 'text-blue-300' : ''}`}
+                >
+                  {patient.name} <span className="text-slate-500">{patient.dateOfBirth || 'DOB unknown'}</span>
+                </button>
+              </li>
+            ))}
+            {results.length === 0 && <li className="px-2 py-1 text-slate-500">No patients found</li>}
+          </ul>
+        </div>
+      )}
+
+      {mode === 'create' && (
+        <PatientForm
+          initial={EMPTY_PATIENT}
+          submitLabel="Create"
+          onSubmit={details => { onCreatePatient(details); setMode(null); }}
+          onCancel={() => setMode(null)}
+        />
+      )}
+      {mode === 'edit' && (
+        <PatientForm
+          key={activePatient.id}
+          initial={toDetails(activePatient)}
+          submitLabel="Save"
+          onSubmit={details => { onUpdatePatient(details); setMode(null); }}
+          onCancel={() => setMode(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PatientSelector;
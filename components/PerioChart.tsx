@@ -4,14 +4,19 @@ import * as THREE from 'three';
 import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
 import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
 import { gsap } from 'gsap';
-import { ToothData, MeasurementType } from '../types.ts';
-import { TOOTH_POSITIONS, getToothType } from '../constants.ts';
+import { ToothData, ToothStatus, MeasurementType, MeasurementLocation, FurcationEntrance } from '../types.ts';
+import { TOOTH_POSITIONS } from '../constants.ts';
+import { getToothType, isUpperArch, formatToothNumber, getToothName, ToothNotation, DEFAULT_TOOTH_NOTATION } from '../toothNumbering.ts';
+import { getToothStatus, isNaturalTooth } from '../toothStatus.ts';
+import { getFurcationEntrances, getFurcationSystem, toHampClass } from '../furcation.ts';
+import { HygieneIndex, getNormalizedIndexScore } from '../services/hygieneIndices';
+import { ChartComparison } from '../services/visitComparison';
 import { ToothTransformControls } from './ToothTransformControls.tsx';
 // import { ToothModelGuide } from './ToothModelGuide.tsx';
 import { 
   getToothModelConfig, 
   ToothTransform, 
-  getDefaultTransform,
+  resolveToothTransform,
   loadToothTransforms,
   loadToothTransformsFromFile,
   saveToothTransforms
@@ -40,24 +45,21 @@ const toothFragmentShader = `
   uniform bool isSelected;
   uniform bool isHovered;
   uniform bool isDimmed;
-  uniform bool showPlaque;
+  uniform float heatMapScore; // 0-1 hygiene index score, < 0: heat map off or not scored
   uniform float activeSurfaceHighlight; // 0.0: none, 1.0: buccal, -1.0: lingual
   uniform float time; // For blink animation
   uniform bool isBlinking;
   uniform float bleedingFactor; // 0.0 to 1.0 based on number of bleeding sites
+  uniform vec3 baseTint; // enamel, crown, implant... see STATUS_APPEARANCE
+  uniform float opacity;
 
   varying vec3 vNormal;
   varying vec2 vUv;
   varying vec3 vWorldNormal;
   varying vec3 vWorldPosition;
 
-  // 2D Noise function
-  float noise(vec2 st) {
-    return fract(sin(dot(st.xy, vec2(12.9898, 78.233))) * 43758.5453123);
-  }
-
   void main() {
-    vec3 baseColor = vec3(0.98, 0.95, 0.88);
+    vec3 baseColor = baseTint;
     vec3 riskColor = vec3(1.0, 0.2, 0.2);
     vec3 bleedingColor = vec3(1.0, 0.0, 0.0); // Very deep red for bleeding
     
@@ -81,15 +83,17 @@ const toothFragmentShader = `
       finalColor = mix(finalColor, bleedingColor, bleedingIntensity);
     }
 
-    if (showPlaque && riskScore > 0.1) {
-       float plaqueNoise = noise(vUv * 20.0) * noise(vUv * 5.0);
-       float plaqueFactor = pow(plaqueNoise, 2.0) * riskFactor * 0.8;
-       finalColor = mix(finalColor, vec3(0.9, 0.9, 0.3), plaqueFactor);
+    // Heat map replaces risk and bleeding tints: green (0) through yellow to red (max)
+    if (heatMapScore >= 0.0) {
+       vec3 heatColor = heatMapScore < 0.5
+         ? mix(vec3(0.2, 0.8, 0.3), vec3(1.0, 0.85, 0.2), heatMapScore * 2.0)
+         : mix(vec3(1.0, 0.85, 0.2), vec3(0.9, 0.15, 0.1), (heatMapScore - 0.5) * 2.0);
+       finalColor = mix(baseColor, heatColor, 0.8);
     }
     
     vec3 light = normalize(vec3(0.5, 0.5, 1.0));
     float diffuse = max(dot(vNormal, light), 0.3) * 0.7 + 0.4;
-    gl_FragColor = vec4(finalColor * diffuse, 1.0);
+    gl_FragColor = vec4(finalColor * diffuse, opacity);
 
     if (isHovered && !isSelected) {
       gl_FragColor.rgb = mix(gl_FragColor.rgb, vec3(0.7, 0.85, 1.0), 0.3);
@@ -127,7 +131,7 @@ const toothFragmentShader = `
     }
     
     if (isDimmed) {
-      gl_FragColor.a = 0.95;
+      gl_FragColor.a = min(gl_FragColor.a, 0.95);
       gl_FragColor.rgb *= 0.95;
     }
   }
@@ -368,18 +372,103 @@ const createMolarGeometry = () => {
     return geometry;
 };
 
+// Implant fixture with threads, abutment and crown, crown up like the other geometries
+const createImplantGeometry = () => {
+    const profile: THREE.Vector2[] = [new THREE.Vector2(0, -0.55)];
+    // Threaded fixture
+    for (let i = 0; i <= 12; i++) {
+        const y = -0.5 + i * 0.045;
+        profile.push(new THREE.Vector2(i % 2 === 0 ? 0.14 : 0.18, y));
+    }
+    // Abutment
+    profile.push(new THREE.Vector2(0.11, 0.05), new THREE.Vector2(0.1, 0.2));
+    // Crown
+    profile.push(new THREE.Vector2(0.26, 0.25), new THREE.Vector2(0.28, 0.42), new THREE.Vector2(0.2, 0.53), new THREE.Vector2(0, 0.55));
+    const geometry = new THREE.LatheGeometry(profile, 16);
+    geometry.computeVertexNormals();
+    return geometry;
+};
+
+// How each tooth status is drawn; missing teeth are not drawn at all
+const STATUS_APPEARANCE: Record<ToothStatus, { tint: number; opacity: number; crownScaleY: number; scale: number; sink: number }> = {
+    present: { tint: 0xfaf2e0, opacity: 1.0, crownScaleY: 1.0, scale: 1.0, sink: 0 },
+    crown: { tint: 0xf2d27a, opacity: 1.0, crownScaleY: 1.0, scale: 1.0, sink: 0 },
+    root_remnant: { tint: 0xb89a72, opacity: 1.0, crownScaleY: 0.45, scale: 1.0, sink: 0.3 },
+    implant: { tint: 0xc0c6cf, opacity: 1.0, crownScaleY: 1.0, scale: 1.0, sink: 0 },
+    pontic: { tint: 0xdce9ff, opacity: 0.8, crownScaleY: 0.6, scale: 1.0, sink: -0.2 },
+    missing: { tint: 0xfaf2e0, opacity: 0.0, crownScaleY: 1.0, scale: 1.0, sink: 0 },
+    unerupted: { tint: 0xfaf2e0, opacity: 0.35, crownScaleY: 1.0, scale: 0.85, sink: 0.8 },
+};
+
+const statusUniforms = (status: ToothStatus) => ({
+    baseTint: { value: new THREE.Color(STATUS_APPEARANCE[status].tint) },
+    opacity: { value: STATUS_APPEARANCE[status].opacity },
+});
+
+// --- Site Marker Placement ---
+// Places a marker at one of the six probing sites around a tooth in the arch.
+// Buccal sites sit outside the arch, lingual inside; mesial is toward the midline.
+const getSiteMarkerPosition = (toothId: number, location: MeasurementLocation): THREE.Vector3 | null => {
+    const position = TOOTH_POSITIONS[toothId];
+    if (!position) return null;
+
+    const angle = position.rotationY;
+    const outward = new THREE.Vector3(Math.sin(angle), 0, -Math.cos(angle));
+    const distal = new THREE.Vector3(Math.cos(angle), 0, Math.sin(angle)).multiplyScalar(Math.sign(angle) || 1);
+
+    const [site, surface] = location.split('_');
+    const marker = new THREE.Vector3(position.x, position.y, position.z);
+    marker.add(outward.multiplyScalar(surface === 'buccal' ? 0.45 : -0.45));
+    if (site === 'disto') marker.add(distal.multiplyScalar(0.25));
+    if (site === 'mesio') marker.add(distal.multiplyScalar(-0.25));
+    return marker;
+};
+
+// Places a furcation marker at the root trunk below the crown. Upper molar
+// mesial and distal entrances are probed from the palate, so they sit
+// proximally and slightly palatal; primary teeth shrink with their model.
+const getFurcationMarkerPosition = (toothId: number, entrance: FurcationEntrance): THREE.Vector3 | null => {
+    const position = TOOTH_POSITIONS[toothId];
+    if (!position) return null;
+
+    const size = getToothModelConfig(toothId)?.scale ?? 1;
+    const angle = position.rotationY;
+    const outward = new THREE.Vector3(Math.sin(angle), 0, -Math.cos(angle));
+    const distal = new THREE.Vector3(Math.cos(angle), 0, Math.sin(angle)).multiplyScalar(Math.sign(angle) || 1);
+
+    const marker = new THREE.Vector3(position.x, position.y + (isUpperArch(toothId) ? 0.3 : -0.3) * size, position.z);
+    if (entrance === 'buccal') marker.add(outward.multiplyScalar(0.45 * size));
+    if (entrance === 'lingual') marker.add(outward.multiplyScalar(-0.45 * size));
+    if (entrance === 'mesial' || entrance === 'distal') {
+        marker.add(distal.multiplyScalar((entrance === 'distal' ? 0.4 : -0.4) * size));
+        marker.add(outward.multiplyScalar(-0.15 * size));
+    }
+    return marker;
+};
+
+// Heat map uniform: the tooth's 0-1 score, -1 when off or not scored
+const heatMapScore = (tooth: ToothData, heatMap: HygieneIndex | null): number =>
+    heatMap ? getNormalizedIndexScore(tooth, heatMap) ?? -1 : -1;
+
+// Hamp class I yellow outline, II orange, III red
+const FURCATION_MARKER_COLORS = [0, 0xfacc15, 0xf97316, 0xef4444];
+
 // --- Component ---
 interface DentalChart3DProps {
   chartData: ToothData[];
   selectedToothData: ToothData | null;
   onToothSelect: (id: number) => void;
-  showPlaque: boolean;
+  heatMap?: HygieneIndex | null; // index shown as a heat map over the teeth
   setCameraControls: (controls: OrbitControls) => void;
+  onSceneCapture?: (capture: (() => string) | null) => void; // hands out a JPEG snapshot of the scene, null on unmount
   activeSurface: 'buccal' | 'lingual' | null;
   blinkingTeeth: Set<number>;
+  comparison?: ChartComparison | null; // visit-to-visit diff shown as site markers
+  notation?: ToothNotation; // how tooth numbers are shown in tooltips
+  cameraFocus?: { toothId: number } | null; // each new request flies the camera to that tooth once it is selected
 }
 
-const DentalChart3D: React.FC<DentalChart3DProps> = ({ chartData, selectedToothData, onToothSelect, showPlaque, setCameraControls, activeSurface, blinkingTeeth }) => {
+const DentalChart3D: React.FC<DentalChart3DProps> = ({ chartData, selectedToothData, onToothSelect, heatMap = null, setCameraControls, onSceneCapture, activeSurface, blinkingTeeth, comparison = null, notation = DEFAULT_TOOTH_NOTATION, cameraFocus = null }) => {
   const mountRef = useRef<HTMLDivElement>(null);
   const toothMeshesRef = useRef<{ [id: number]: THREE.Group }>({});
   const gumMeshesRef = useRef<THREE.Mesh[]>([]);
@@ -394,6 +483,11 @@ const DentalChart3D: React.FC<DentalChart3DProps> = ({ chartData, selectedToothD
   const [showKeyboardHelp, setShowKeyboardHelp] = useState(false);
   const [hoveredTooth, setHoveredTooth] = useState<{ id: number; x: number; y: number } | null>(null);
   const cameraAnimationTriggeredRef = useRef<boolean>(false);
+  const comparisonMarkersRef = useRef<THREE.Group | null>(null);
+  const furcationMarkersRef = useRef<THREE.Group | null>(null);
+  // Models load after mount; they read the current heat map from here
+  const heatMapRef = useRef(heatMap);
+  heatMapRef.current = heatMap;
 
   useEffect(() => {
     if (!mountRef.current) return;
@@ -421,9 +515,17 @@ const DentalChart3D: React.FC<DentalChart3DProps> = ({ chartData, selectedToothD
     setCameraControls(controls);
     controlsRef.current = controls;
 
+    // The drawing buffer is cleared after every frame, so render right before reading it
+    onSceneCapture?.(() => {
+      renderer.render(scene, camera);
+      return renderer.domElement.toDataURL('image/jpeg', 0.92);
+    });
+
     // Function to load a tooth model from GLB
     const loadToothModel = (toothData: ToothData, transforms: { [toothId: number]: ToothTransform }) => {
-      if (toothData.isMissing) return;
+      const status = getToothStatus(toothData);
+      if (status === 'missing') return;
+      const appearance = STATUS_APPEARANCE[status];
       
       const modelConfig = getToothModelConfig(toothData.id);
       if (!modelConfig) {
@@ -433,121 +535,139 @@ const DentalChart3D: React.FC<DentalChart3DProps> = ({ chartData, selectedToothD
 
       const position = TOOTH_POSITIONS[toothData.id];
       const risk = (toothData.riskScore || 0) / 50;
-      const toothTransform = transforms[toothData.id] || getDefaultTransform();
+      const toothTransform = resolveToothTransform(toothData.id, transforms);
+      const modelScale = modelConfig.scale ?? 1;
 
       // Create a wrapper group for the tooth
       const toothGroup = new THREE.Group();
       toothGroup.userData = { id: toothData.id, type: 'tooth' };
+
+      const createToothMaterial = (meshStatus: ToothStatus = status) => new THREE.ShaderMaterial({
+        vertexShader: toothVertexShader,
+        fragmentShader: toothFragmentShader,
+        uniforms: {
+          riskScore: { value: risk },
+          isSelected: { value: false },
+          isHovered: { value: false },
+          isDimmed: { value: false },
+          heatMapScore: { value: heatMapScore(toothData, heatMapRef.current) },
+          activeSurfaceHighlight: { value: 0.0 },
+          time: { value: 0 },
+          isBlinking: { value: false },
+          bleedingFactor: { value: 0.0 },
+          ...statusUniforms(meshStatus),
+        },
+        transparent: true
+      });
       
-      // Load the GLB model
-      gltfLoaderRef.current.load(
-        modelConfig.modelFile,
-        (gltf) => {
-          const model = gltf.scene;
+      if (status === 'implant') {
+        // Implants are drawn procedurally, there is no tooth model to load
+        const implantMesh = new THREE.Mesh(createImplantGeometry(), createToothMaterial());
+        implantMesh.userData = { id: toothData.id, type: 'tooth' };
+        implantMesh.scale.setScalar(modelScale);
+        toothGroup.add(implantMesh);
+      } else {
+        // Load the GLB model
+        gltfLoaderRef.current.load(
+          modelConfig.modelFile,
+          (gltf) => {
+            const model = gltf.scene;
           
-          // Apply shader material to all meshes in the model
-          model.traverse((child) => {
-            if (child instanceof THREE.Mesh) {
-              const material = new THREE.ShaderMaterial({
-                vertexShader: toothVertexShader,
-                fragmentShader: toothFragmentShader,
-                uniforms: {
-                  riskScore: { value: risk },
-                  isSelected: { value: false },
-                  isHovered: { value: false },
-                  isDimmed: { value: false },
-                  showPlaque: { value: showPlaque },
-                  activeSurfaceHighlight: { value: 0.0 },
-                  time: { value: 0 },
-                  isBlinking: { value: false },
-                  bleedingFactor: { value: 0.0 },
-                },
-                transparent: true
-              });
-              child.material = material;
-              child.userData = { id: toothData.id, type: 'tooth' };
-            }
-          });
+            // Apply shader material to all meshes in the model
+            model.traverse((child) => {
+              if (child instanceof THREE.Mesh) {
+                child.material = createToothMaterial();
+                child.userData = { id: toothData.id, type: 'tooth' };
+              }
+            });
 
-          // Apply mirroring if needed (for right-side teeth)
-          if (modelConfig.shouldMirror) {
-            model.scale.x *= -1;
-          }
+            // Apply mirroring if needed (for right-side teeth)
+            if (modelConfig.shouldMirror) {
+              model.scale.x *= -1;
+            }
 
-          // Apply custom transformations
-          model.position.set(
-            toothTransform.position.x,
-            toothTransform.position.y,
-            toothTransform.position.z
-          );
-          model.rotation.set(
-            toothTransform.rotation.x,
-            toothTransform.rotation.y,
-            toothTransform.rotation.z
-          );
-          model.scale.set(
-            model.scale.x * toothTransform.scale.x,
-            model.scale.y * toothTransform.scale.y,
-            model.scale.z * toothTransform.scale.z
-          );
-
-          toothGroup.add(model);
-        },
-        undefined,
-        (error) => {
-          console.error(`Error loading model for tooth ${toothData.id}:`, error);
-          // Fallback to procedural geometry if GLB fails to load
-          const toothType = getToothType(toothData.id);
-          let geometry: THREE.BufferGeometry;
-          switch(toothType) {
-            case 'molar': geometry = createMolarGeometry(); break;
-            case 'premolar': geometry = createPremolarGeometry(); break;
-            case 'canine': geometry = createCanineGeometry(); break;
-            default: geometry = createIncisorGeometry();
-          }
+            // Apply custom transformations
+            model.position.set(
+              toothTransform.position.x,
+              toothTransform.position.y,
+              toothTransform.position.z
+            );
+            model.rotation.set(
+              toothTransform.rotation.x,
+              toothTransform.rotation.y,
+              toothTransform.rotation.z
+            );
+            model.scale.set(
+              model.scale.x * toothTransform.scale.x * modelScale * appearance.scale,
+              model.scale.y * toothTransform.scale.y * modelScale * appearance.scale * appearance.crownScaleY,
+              model.scale.z * toothTransform.scale.z * modelScale * appearance.scale
+            );
+
+            toothGroup.add(model);
+          },
+          undefined,
+          (error) => {
+            console.error(`Error loading model for tooth ${toothData.id}:`, error);
+            // Fallback to procedural geometry if GLB fails to load
+            const toothType = getToothType(toothData.id);
+            let geometry: THREE.BufferGeometry;
+            switch(toothType) {
+              case 'molar': geometry = createMolarGeometry(); break;
+              case 'premolar': geometry = createPremolarGeometry(); break;
+              case 'canine': geometry = createCanineGeometry(); break;
+              default: geometry = createIncisorGeometry();
+            }
           
-          const material = new THREE.ShaderMaterial({
-            vertexShader: toothVertexShader,
-            fragmentShader: toothFragmentShader,
-            uniforms: {
-              riskScore: { value: risk },
-              isSelected: { value: false },
-              isHovered: { value: false },
-              isDimmed: { value: false },
-              showPlaque: { value: showPlaque },
-              activeSurfaceHighlight: { value: 0.0 },
-              time: { value: 0 },
-              isBlinking: { value: false },
-              bleedingFactor: { value: 0.0 },
-            },
-            transparent: true
-          });
+            const fallbackMesh = new THREE.Mesh(geometry, createToothMaterial());
+            fallbackMesh.userData = { id: toothData.id, type: 'tooth' };
+            fallbackMesh.scale.set(1, appearance.crownScaleY, 1).multiplyScalar(modelScale * appearance.scale);
           
-          const fallbackMesh = new THREE.Mesh(geometry, material);
-          fallbackMesh.userData = { id: toothData.id, type: 'tooth' };
+            // Apply mirroring for right-side teeth
+            if (modelConfig.shouldMirror) {
+              fallbackMesh.scale.x *= -1;
+            }
           
-          // Apply mirroring for right-side teeth
-          if (modelConfig.shouldMirror) {
-            fallbackMesh.scale.x *= -1;
+            toothGroup.add(fallbackMesh);
           }
-          
-          toothGroup.add(fallbackMesh);
-        }
-      );
+        );
+      }
 
       // Position the group in the arch
       toothGroup.position.set(position.x, position.y, position.z);
       
-      // Flip upper arch teeth upside down (teeth 1-16)
-      if (toothData.id <= 16) {
+      // Flip upper arch teeth upside down (teeth 1-16, A-J)
+      if (isUpperArch(toothData.id)) {
         toothGroup.rotation.y = position.rotationY;
         toothGroup.rotation.x = Math.PI; // 180 degrees rotation around X-axis
       } else {
         toothGroup.rotation.y = position.rotationY;
       }
 
+      // Unerupted teeth and root remnants sit deeper in the bone, pontics above the ridge
+      if (appearance.sink) {
+        toothGroup.position.y += isUpperArch(toothData.id) ? appearance.sink : -appearance.sink;
+      }
+
       scene.add(toothGroup);
       toothMeshesRef.current[toothData.id] = toothGroup;
+
+      // Supernumerary teeth: small conical crowns on the lingual side of the position
+      const extraTeeth = toothData.supernumerary || 0;
+      if (extraTeeth > 0) {
+        toothGroup.updateMatrixWorld(true);
+        const inward = new THREE.Vector3(-Math.sin(position.rotationY), 0, Math.cos(position.rotationY));
+        const along = new THREE.Vector3(Math.cos(position.rotationY), 0, Math.sin(position.rotationY));
+        for (let i = 0; i < extraTeeth; i++) {
+          const worldPoint = new THREE.Vector3(position.x, position.y, position.z)
+            .add(inward.clone().multiplyScalar(0.55))
+            .add(along.clone().multiplyScalar((i - (extraTeeth - 1) / 2) * 0.3));
+          const extraMesh = new THREE.Mesh(createCanineGeometry(), createToothMaterial('present'));
+          extraMesh.userData = { id: toothData.id, type: 'tooth', supernumerary: true };
+          extraMesh.scale.setScalar(0.5);
+          extraMesh.position.copy(toothGroup.worldToLocal(worldPoint));
+          toothGroup.add(extraMesh);
+        }
+      }
     };
 
     // Load transforms and then load all teeth
@@ -579,7 +699,7 @@ const DentalChart3D: React.FC<DentalChart3DProps> = ({ chartData, selectedToothD
     ) => {
         const presentToothIds = orderedArchIds.filter(id => {
             const tooth = allToothData.find(t => t.id === id);
-            return tooth && !tooth.isMissing;
+            return tooth && getToothStatus(tooth) !== 'missing';
         });
     
         if (presentToothIds.length < 2) return null;
@@ -624,8 +744,14 @@ const DentalChart3D: React.FC<DentalChart3DProps> = ({ chartData, selectedToothD
         return gumMesh;
     };
 
-    const upperArchIdOrder = Array.from({length: 16}, (_, i) => 16 - i);
-    const lowerArchIdOrder = Array.from({length: 16}, (_, i) => 17 + i);
+    // Teeth of each arch from the viewer's right to left; primary and
+    // permanent teeth share positions, so a mixed chart orders the same way
+    const archIdOrder = (upper: boolean) => chartData
+      .map(t => t.id)
+      .filter(id => isUpperArch(id) === upper && TOOTH_POSITIONS[id])
+      .sort((a, b) => TOOTH_POSITIONS[b].x - TOOTH_POSITIONS[a].x);
+    const upperArchIdOrder = archIdOrder(true);
+    const lowerArchIdOrder = archIdOrder(false);
     
     const upperGum = createGumArchFromTeeth(chartData, upperArchIdOrder, 0.6, 4.1);
     if(upperGum) scene.add(upperGum);
@@ -740,9 +866,15 @@ const DentalChart3D: React.FC<DentalChart3DProps> = ({ chartData, selectedToothD
       currentMount.removeEventListener('click', handleClick);
       currentMount.removeEventListener('mousemove', handleMouseMove);
       currentMount.removeChild(renderer.domElement);
+      onSceneCapture?.(null);
     };
   }, []);
 
+  // Camera moves asked for from outside the scene, e.g. by the chat assistant
+  useEffect(() => {
+    if (cameraFocus) setShouldMoveCamera(true);
+  }, [cameraFocus]);
+
   useEffect(() => {
     const selectedId = selectedToothData?.id;
     const controls = controlsRef.current;
@@ -833,14 +965,14 @@ const DentalChart3D: React.FC<DentalChart3DProps> = ({ chartData, selectedToothD
               if (child instanceof THREE.Mesh && child.material instanceof THREE.ShaderMaterial) {
                 if(child.material.uniforms) {
                   child.material.uniforms.riskScore.value = (toothData.riskScore || 0) / 50;
-                  child.material.uniforms.showPlaque.value = showPlaque;
+                  child.material.uniforms.heatMapScore.value = heatMapScore(toothData, heatMap);
                   child.material.uniforms.bleedingFactor.value = bleedingFactor;
                 }
               }
             });
         }
     });
-  }, [chartData, showPlaque]);
+  }, [chartData, heatMap]);
 
   // Update blinking state for teeth that were updated from database
   useEffect(() => {
@@ -860,12 +992,97 @@ const DentalChart3D: React.FC<DentalChart3DProps> = ({ chartData, selectedToothD
     });
   }, [blinkingTeeth]);
 
+  // Render visit comparison as site markers: red for attachment loss, green for gain
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+
+    if (comparisonMarkersRef.current) {
+      comparisonMarkersRef.current.traverse((child) => {
+        if (child instanceof THREE.Mesh) {
+          child.geometry.dispose();
+          (child.material as THREE.Material).dispose();
+        }
+      });
+      scene.remove(comparisonMarkersRef.current);
+      comparisonMarkersRef.current = null;
+    }
+    if (!comparison) return;
+
+    const markers = new THREE.Group();
+    comparison.teeth.forEach(tooth => {
+      tooth.sites.forEach(site => {
+        if (site.status === 'stable') return;
+        const markerPosition = getSiteMarkerPosition(tooth.toothId, site.location);
+        if (!markerPosition) return;
+
+        const color = site.status === 'progressing' ? 0xef4444 : 0x22c55e;
+        const marker = new THREE.Mesh(
+          new THREE.SphereGeometry(0.06 + Math.min(Math.abs(site.cal.delta), 5) * 0.015, 12, 12),
+          new THREE.MeshBasicMaterial({ color })
+        );
+        marker.position.copy(markerPosition);
+        markers.add(marker);
+      });
+    });
+
+    scene.add(markers);
+    comparisonMarkersRef.current = markers;
+  }, [comparison]);
+
+  // Render furcation involvement as triangles pointing into each entrance
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+
+    if (furcationMarkersRef.current) {
+      furcationMarkersRef.current.traverse((child) => {
+        if (child instanceof THREE.Mesh) {
+          child.geometry.dispose();
+          (child.material as THREE.Material).dispose();
+        }
+      });
+      scene.remove(furcationMarkersRef.current);
+      furcationMarkersRef.current = null;
+    }
+
+    const markers = new THREE.Group();
+    chartData.forEach(tooth => {
+      if (!tooth.furcation || !isNaturalTooth(tooth)) return;
+      const system = getFurcationSystem(tooth);
+      getFurcationEntrances(tooth.id).forEach(entrance => {
+        const grade = toHampClass(tooth.furcation?.[entrance] || 0, system);
+        const markerPosition = grade > 0 ? getFurcationMarkerPosition(tooth.id, entrance) : null;
+        if (!markerPosition) return;
+
+        const position = TOOTH_POSITIONS[tooth.id];
+        const inward = new THREE.Vector3(position.x, markerPosition.y, position.z).sub(markerPosition).normalize();
+        const marker = new THREE.Mesh(
+          new THREE.ConeGeometry(0.08, 0.16, 3),
+          new THREE.MeshBasicMaterial({
+            color: FURCATION_MARKER_COLORS[Math.min(grade, 3)],
+            wireframe: grade === 1,
+            transparent: grade === 2,
+            opacity: grade === 2 ? 0.7 : 1,
+          })
+        );
+        marker.position.copy(markerPosition);
+        marker.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), inward);
+        marker.userData = { toothId: tooth.id, entrance, grade };
+        markers.add(marker);
+      });
+    });
+
+    scene.add(markers);
+    furcationMarkersRef.current = markers;
+  }, [chartData]);
+
   // Handle transform changes from the control panel
   const handleTransformChange = (toothId: number, transform: ToothTransform) => {
     const group = toothMeshesRef.current[toothId];
     if (group) {
-      // Find the model within the group (first child)
-      const model = group.children[0];
+      // Find the model within the group (skipping supernumerary teeth)
+      const model = group.children.find(child => !child.userData.supernumerary);
       if (model) {
         model.position.set(transform.position.x, transform.position.y, transform.position.z);
         model.rotation.set(transform.rotation.x, transform.rotation.y, transform.rotation.z);
@@ -873,11 +1090,12 @@ const DentalChart3D: React.FC<DentalChart3DProps> = ({ chartData, selectedToothD
         // Get the model config to check if mirroring is applied
         const modelConfig = getToothModelConfig(toothId);
         const mirrorMultiplier = modelConfig?.shouldMirror ? -1 : 1;
+        const modelScale = modelConfig?.scale ?? 1;
         
         model.scale.set(
-          transform.scale.x * mirrorMultiplier,
-          transform.scale.y,
-          transform.scale.z
+          transform.scale.x * mirrorMultiplier * modelScale,
+          transform.scale.y * modelScale,
+          transform.scale.z * modelScale
         );
       }
     }
@@ -904,7 +1122,7 @@ const DentalChart3D: React.FC<DentalChart3DProps> = ({ chartData, selectedToothD
         return;
       }
 
-      const currentTransform = toothTransforms[selectedId] || getDefaultTransform();
+      const currentTransform = resolveToothTransform(selectedId, toothTransforms);
       let newTransform = { ...currentTransform };
       let changed = false;
 
@@ -1038,22 +1256,9 @@ const DentalChart3D: React.FC<DentalChart3DProps> = ({ chartData, selectedToothD
           }}
         >
           <div className="font-semibold text-blue-400">
-            {(() => {
-              const id = hoveredTooth.id;
-              if (id >= 1 && id <= 8) return `Q1-${9 - id} (Universal #${id})`;
-              if (id >= 9 && id <= 16) return `Q2-${id - 8} (Universal #${id})`;
-              if (id >= 17 && id <= 24) return `Q3-${25 - id} (Universal #${id})`;
-              if (id >= 25 && id <= 32) return `Q4-${id - 24} (Universal #${id})`;
-              return `Tooth #${id}`;
-            })()}
+            Tooth {formatToothNumber(hoveredTooth.id, notation)}
           </div>
-          <div className="text-sm text-gray-300">{
-            hoveredTooth.id >= 1 && hoveredTooth.id <= 8 ? 'Upper Right' :
-            hoveredTooth.id >= 9 && hoveredTooth.id <= 16 ? 'Upper Left' :
-            hoveredTooth.id >= 17 && hoveredTooth.id <= 24 ? 'Lower Left' :
-            hoveredTooth.id >= 25 && hoveredTooth.id <= 32 ? 'Lower Right' :
-            'Unknown'
-          }</div>
+          <div className="text-sm text-gray-300">{getToothName(hoveredTooth.id)}</div>
         </div>
       )}
       
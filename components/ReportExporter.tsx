@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { ClinicDetails, reportGenerator } from '../services/reportGenerator';
+
+interface ReportExporterProps {
+  onExport: (clinic: ClinicDetails) => Promise<void>;
+}
+
+const inputClass = "bg-gray-800/80 border border-gray-600 rounded-md px-2 py-1 text-slate-200 outline-none focus:border-blue-500";
+
+export const ReportExporter: React.FC<ReportExporterProps> = ({ onExport }) => {
+  const [clinic, setClinic] = useState<ClinicDetails>(() => reportGenerator.getClinicDetails());
+  const [isEditing, setIsEditing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (patch: Partial<ClinicDetails>) => setClinic(prev => ({ ...prev, ...patch }));
+
+  const handleExport = async () => {
+    reportGenerator.setClinicDetails(clinic);
+    setIsExporting(true);
+    setError(null);
+    try {
+      await onExport(clinic);
+    } catch (err) {
+      console.error('❌ Failed to generate report:', err);
+      setError('Report could not be generated');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-xs text-slate-300">
+      <div className="flex items-center gap-2">
+        <span className="font-semibold text-blue-300">Report</span>
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="px-2 py-1 rounded-md bg-blue-600/80 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-wait text-white transition-colors"
+        >
+          {isExporting ? 'Generating...' : 'Export PDF'}
+        </button>
+        <button onClick={() => setIsEditing(prev => !prev)} className="underline hover:text-white">Clinic details</button>
+        {error && <span className="text-red-400">{error}</span>}
+      </div>
+
+      {isEditing && (
+        <div className="grid grid-cols-2 gap-2 p-2 bg-gray-900/80 border border-gray-700 rounded-md w-80">
+          <input value={clinic.name} onChange={e => update({ name: e.target.value })} placeholder="Clinic name" className={`${inputClass} col-span-2`} />
+          <input value={clinic.address} onChange={e => update({ address: e.target.value })} placeholder="Address" className={`${inputClass} col-span-2`} />
+          <input value={clinic.phone} onChange={e => update({ phone: e.target.value })} placeholder="Phone" className={inputClass} />
+          <input value={clinic.clinician} onChange={e => update({ clinician: e.target.value })} placeholder="Signing clinician" className={inputClass} />
+          <div className="col-span-2 flex justify-end">
+            <button
+              onClick={() => { reportGenerator.setClinicDetails(clinic); setIsEditing(false); }}
+              className="px-2 py-1 rounded-md bg-green-600/80 hover:bg-green-500 text-white transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportExporter;
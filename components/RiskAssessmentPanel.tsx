@@ -0,0 +1,152 @@
+import React, { useState, useMemo } from 'react';
+import { ToothData, Patient } from '../types.ts';
+import { riskAssessment, StoredRiskInputs, RiskLevel, RiskVector } from '../services/riskAssessment';
+import { getPatientAge } from '../services/patientStorage';
+
+interface RiskAssessmentPanelProps {
+  isVisible: boolean;
+  onClose: () => void;
+  chartData: ToothData[];
+  patient: Patient;
+  overallScores: { bopPercentage: number; plaquePercentage: number };
+}
+
+const LEVEL_COLORS: Record<RiskLevel, string> = {
+  low: '#22c55e',
+  moderate: '#eab308',
+  high: '#ef4444',
+};
+
+const SIZE = 240;
+const CENTER = SIZE / 2;
+const RADIUS = 85;
+
+// Point on the i-th axis (first axis points up, clockwise)
+const axisPoint = (index: number, fraction: number) => {
+  const angle = (Math.PI / 3) * index - Math.PI / 2;
+  return {
+    x: CENTER + Math.cos(angle) * RADIUS * fraction,
+    y: CENTER + Math.sin(angle) * RADIUS * fraction,
+  };
+};
+
+const ringPoints = (fraction: number) =>
+  Array.from({ length: 6 }, (_, i) => axisPoint(i, fraction)).map(p => `${p.x},${p.y}`).join(' ');
+
+const RiskHexagon: React.FC<{ vectors: RiskVector[]; level: RiskLevel }> = ({ vectors, level }) => {
+  const patientPolygon = vectors
+    .map((v, i) => axisPoint(i, Math.max(v.normalized, 0.03)))
+    .map(p => `${p.x},${p.y}`)
+    .join(' ');
+
+  return (
+    <svg width={SIZE} height={SIZE} viewBox={`0 0 ${SIZE} ${SIZE}`} className="mx-auto">
+      {/* Risk zones: inner third low, middle moderate, outer high */}
+      <polygon points={ringPoints(1)} fill="rgba(239,68,68,0.15)" stroke="rgba(255,255,255,0.2)" />
+      <polygon points={ringPoints(2 / 3)} fill="rgba(234,179,8,0.15)" stroke="rgba(255,255,255,0.2)" />
+      <polygon points={ringPoints(1 / 3)} fill="rgba(34,197,94,0.2)" stroke="rgba(255,255,255,0.2)" />
+
+      {vectors.map((v, i) => {
+        const end = axisPoint(i, 1);
+        const label = axisPoint(i, 1.2);
+        return (
+          <g key={v.key}>
+            <line x1={CENTER} y1={CENTER} x2={end.x} y2={end.y} stroke="rgba(255,255,255,0.25)" />
+            <text x={label.x} y={label.y} fill="#cbd5e1" fontSize="10" textAnchor="middle" dominantBaseline="middle">
+              {v.label}
+            </text>
+          </g>
+        );
+      })}
+
+      <polygon points={patientPolygon} fill={LEVEL_COLORS[level]} fillOpacity={0.35} stroke={LEVEL_COLORS[level]} strokeWidth={2} />
+    </svg>
+  );
+};
+
+export const RiskAssessmentPanel: React.FC<RiskAssessmentPanelProps> = ({ isVisible, onClose, chartData, patient, overallScores }) => {
+  const [inputs, setInputs] = useState<StoredRiskInputs>(() => riskAssessment.loadInputs());
+
+  const assessment = useMemo(
+    () => riskAssessment.assess(chartData, overallScores, riskAssessment.buildInputs(patient, inputs)),
+    [chartData, overallScores, patient, inputs]
+  );
+
+  const updateInputs = (patch: Partial<StoredRiskInputs>) => {
+    setInputs(prev => {
+      const next = { ...prev, ...patch };
+      riskAssessment.saveInputs(next);
+      return next;
+    });
+  };
+
+  const parseNumber = (value: string) => (value === '' ? undefined : parseFloat(value));
+
+  if (!isVisible) return null;
+
+  const inputClass = "w-full bg-gray-800/80 border border-gray-600 rounded-md px-2 py-1 text-slate-200 outline-none focus:border-blue-500";
+
+  return (
+    <div className="fixed top-32 right-4 bg-[rgba(25,30,45,0.8)] border border-[rgba(255,255,255,0.1)] rounded-2xl shadow-2xl p-4 text-white w-80 max-h-[75vh] overflow-y-auto custom-scrollbar z-40">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-white font-bold text-lg">Periodontal Risk Assessment</h3>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-white text-xl leading-none"
+        >
+          ×
+        </button>
+      </div>
+
+      <RiskHexagon vectors={assessment.vectors} level={assessment.level} />
+
+      <div className="text-center my-3">
+        <span className="text-lg font-bold capitalize" style={{ color: LEVEL_COLORS[assessment.level] }}>
+          {assessment.level} risk
+        </span>
+        <p className="text-sm text-slate-300">Recall every {assessment.recallMonths} months</p>
+      </div>
+
+      <ul className="space-y-1 text-xs text-slate-300 mb-4">
+        {assessment.vectors.map(v => (
+          <li key={v.key} className="flex justify-between">
+            <span>{v.label}</span>
+            <span>
+              {v.display}{' '}
+              <span className="font-semibold capitalize" style={{ color: LEVEL_COLORS[v.level] }}>{v.level}</span>
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      <h4 className="text-white font-semibold mb-2 text-sm">Patient factors</h4>
+      <p className="text-xs text-slate-400 mb-2">
+        Age {getPatientAge(patient) ?? 'unknown'} · {patient.smokingStatus} smoker
+        {patient.hasDiabetes ? ' · diabetes' : ''} (from patient record)
+      </p>
+      <div className="grid grid-cols-2 gap-2 text-xs text-slate-300">
+        <label className="col-span-2 flex flex-col gap-1">
+          Bone loss (%)
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={inputs.boneLossPercent ?? ''}
+            onChange={e => updateInputs({ boneLossPercent: parseNumber(e.target.value) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="col-span-2 flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={inputs.hasOtherSystemicCondition}
+            onChange={e => updateInputs({ hasOtherSystemicCondition: e.target.checked })}
+          />
+          Other systemic / genetic condition
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default RiskAssessmentPanel;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { ObservationSession } from '../dbDataSync';
+import { ConflictPolicy, CONFLICT_POLICIES } from '../services/observationWriteBack';
+
+interface SessionPickerProps {
+  sessions: ObservationSession[];
+  selectedSessionId: string | null;
+  onSelectSession: (sessionId: string | null) => void;
+  conflictPolicy: ConflictPolicy;
+  onChangeConflictPolicy: (policy: ConflictPolicy) => void;
+}
+
+const formatSessionLabel = (session: ObservationSession) => {
+  const started = new Date(session.startedAt);
+  const date = isNaN(started.getTime()) ? session.startedAt : started.toLocaleString();
+  return `${date} · ${session.observationCount} obs`;
+};
+
+export const SessionPicker: React.FC<SessionPickerProps> = ({ sessions, selectedSessionId, onSelectSession, conflictPolicy, onChangeConflictPolicy }) => {
+  return (
+    <div className="flex items-center gap-2 text-xs text-slate-300">
+      <span className="font-semibold text-blue-300">Sync</span>
+      <select
+        value={selectedSessionId || ''}
+        onChange={e => onSelectSession(e.target.value || null)}
+        className="bg-gray-800/80 border border-gray-600 rounded-md px-2 py-1 text-slate-200 outline-none focus:border-blue-500"
+      >
+        <option value="">All sessions</option>
+        {sessions.map(session => (
+          <option key={session.sessionId} value={session.sessionId} title={`${session.sessionId} (${session.visitId})`}>
+            {formatSessionLabel(session)}
+          </option>
+        ))}
+      </select>
+      {sessions.length === 0 && <span className="text-slate-500">No recordings for this patient</span>}
+      <select
+        value={conflictPolicy}
+        onChange={e => onChangeConflictPolicy(e.target.value as ConflictPolicy)}
+        className="bg-gray-800/80 border border-gray-600 rounded-md px-2 py-1 text-slate-200 outline-none focus:border-blue-500"
+        title="When a synced value and your edit of the same site disagree"
+      >
+        {CONFLICT_POLICIES.map(policy => (
+          <option key={policy.value} value={policy.value}>Conflicts: {policy.label}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default SessionPicker;
@@ -0,0 +1,175 @@
+import React, { useMemo, useState } from 'react';
+import { ToothData } from '../types';
+import { ToothNotation, TOOTH_NOTATIONS } from '../toothNumbering';
+import { SPREADSHEET_FIELDS, ColumnMapping, ImportPreview, SpreadsheetField, guessColumnMapping, previewChartImport } from '../services/chartSpreadsheet';
+import { readSpreadsheetFile, SpreadsheetFormat } from '../services/spreadsheetFile';
+
+interface SpreadsheetExchangeProps {
+  chartData: ToothData[];
+  notation: ToothNotation;
+  readOnly?: boolean;
+  onExport: (format: SpreadsheetFormat) => void;
+  onApply: (preview: ImportPreview) => void;
+}
+
+interface LoadedSheet {
+  fileName: string;
+  rows: string[][];
+}
+
+// Rows listed in the report; the counts above it cover every row
+const MAX_REPORTED_ROWS = 200;
+
+const inputClass = "bg-gray-800/80 border border-gray-600 rounded-md px-2 py-1 text-slate-200 outline-none focus:border-blue-500";
+const buttonClass = "px-2 py-1 rounded-md bg-gray-800/80 border border-gray-600 hover:border-blue-500 text-slate-200 disabled:opacity-50 disabled:cursor-not-allowed";
+
+export const SpreadsheetExchange: React.FC<SpreadsheetExchangeProps> = ({ chartData, notation, readOnly = false, onExport, onApply }) => {
+  const [isImporting, setIsImporting] = useState(false);
+  const [sheet, setSheet] = useState<LoadedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [defaultNotation, setDefaultNotation] = useState<ToothNotation>(notation);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const columns = useMemo(() => {
+    if (!sheet) return [];
+    const width = Math.max(0, ...sheet.rows.map(r => r.length));
+    return Array.from({ length: width }, (_, i) => (hasHeader && sheet.rows[0]?.[i]?.trim()) || `Column ${i + 1}`);
+  }, [sheet, hasHeader]);
+
+  const missingRequired = SPREADSHEET_FIELDS.filter(f => f.required && mapping?.[f.value] === null);
+
+  // The dry run: recomputed on every mapping change, nothing is written until Apply
+  const preview = useMemo(() => {
+    if (!sheet || !mapping || missingRequired.length > 0) return null;
+    return previewChartImport(sheet.rows, mapping, { chart: chartData, notation: defaultNotation, hasHeader });
+  }, [sheet, mapping, hasHeader, defaultNotation, chartData, missingRequired.length]);
+
+  const reportedRows = preview?.rows.filter(r => r.errors.length > 0 || r.warnings.length > 0) || [];
+
+  const handleFile = async (file: File) => {
+    try {
+      const rows = await readSpreadsheetFile(file);
+      setSheet({ fileName: file.name, rows });
+      setMapping(guessColumnMapping(rows[0] || []));
+      setMessage(null);
+    } catch (error) {
+      console.error('❌ Failed to read spreadsheet:', error);
+      setMessage({ text: `${file.name} could not be read`, isError: true });
+    }
+  };
+
+  const handleApply = () => {
+    if (!preview) return;
+    onApply(preview);
+    setMessage({ text: `Imported ${preview.validRows} sites${preview.invalidRows > 0 ? `, ${preview.invalidRows} rows skipped` : ''}`, isError: false });
+    setSheet(null);
+    setIsImporting(false);
+  };
+
+  const updateMapping = (field: SpreadsheetField, value: string) =>
+    setMapping(prev => prev && { ...prev, [field]: value === '' ? null : parseInt(value) });
+
+  return (
+    <div className="flex flex-col gap-2 text-xs text-slate-300">
+      <div className="flex items-center gap-2">
+        <span className="font-semibold text-blue-300">Spreadsheet</span>
+        <button onClick={() => onExport('csv')} className={buttonClass}>CSV</button>
+        <button onClick={() => onExport('xlsx')} className={buttonClass}>XLSX</button>
+        <button
+          onClick={() => setIsImporting(prev => !prev)}
+          disabled={readOnly}
+          title={readOnly ? 'A past visit is shown; imports go into the open visit' : 'Import sites from a CSV or XLSX file'}
+          className={buttonClass}
+        >
+          Import...
+        </button>
+        {message && <span className={message.isError ? 'text-red-400' : 'text-green-400'}>{message.text}</span>}
+      </div>
+
+      {isImporting && (
+        <div className="flex flex-col gap-2 p-2 bg-gray-900/80 border border-gray-700 rounded-md w-[28rem]">
+          <input
+            type="file"
+            accept=".csv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+            className="text-slate-300"
+          />
+
+          {sheet && mapping && (
+            <>
+              <div className="flex items-center gap-3">
+                <span className="text-slate-400">{sheet.fileName} · {sheet.rows.length} rows</span>
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={hasHeader} onChange={e => setHasHeader(e.target.checked)} />
+                  First row is a header
+                </label>
+                <select value={defaultNotation} onChange={e => setDefaultNotation(e.target.value as ToothNotation)} className={inputClass} title="Numbering for rows without a notation column">
+                  {TOOTH_NOTATIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-3 gap-1">
+                {SPREADSHEET_FIELDS.map(field => (
+                  <label key={field.value} className="flex flex-col">
+                    <span className={field.required && mapping[field.value] === null ? 'text-red-400' : 'text-slate-400'}>
+                      {field.label}{field.required ? ' *' : ''}
+                    </span>
+                    <select value={mapping[field.value] ?? ''} onChange={e => updateMapping(field.value, e.target.value)} className={inputClass}>
+                      <option value="">Not imported</option>
+                      {columns.map((name, i) => <option key={i} value={i}>{name}</option>)}
+                    </select>
+                  </label>
+                ))}
+              </div>
+
+              {missingRequired.length > 0 && (
+                <p className="text-red-400">Map {missingRequired.map(f => f.label).join(' and ')} to preview the import.</p>
+              )}
+
+              {preview && (
+                <>
+                  <p>
+                    Dry run: <span className="text-green-400">{preview.validRows} rows ready</span>
+                    {preview.invalidRows > 0 && <>, <span className="text-red-400">{preview.invalidRows} rows with errors are skipped</span></>}
+                  </p>
+                  {reportedRows.length > 0 && (
+                    <ul className="max-h-40 overflow-y-auto custom-scrollbar bg-gray-800/60 rounded-md p-1 space-y-0.5">
+                      {reportedRows.slice(0, MAX_REPORTED_ROWS).map(result => (
+                        <li key={result.row}>
+                          <span className="text-slate-500">Row {result.row}:</span>{' '}
+                          {result.errors.map(e => <span key={e} className="text-red-400">{e}. </span>)}
+                          {result.warnings.map(w => <span key={w} className="text-amber-300">{w}. </span>)}
+                        </li>
+                      ))}
+                      {reportedRows.length > MAX_REPORTED_ROWS && (
+                        <li className="text-slate-500">{reportedRows.length - MAX_REPORTED_ROWS} more rows not shown</li>
+                      )}
+                    </ul>
+                  )}
+                </>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <button onClick={() => { setSheet(null); setIsImporting(false); }} className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-white transition-colors">Cancel</button>
+                <button
+                  onClick={handleApply}
+                  disabled={!preview || preview.validRows === 0}
+                  className="px-2 py-1 rounded-md bg-green-600/80 hover:bg-green-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white transition-colors"
+                >
+                  Apply {preview?.validRows ?? 0} rows
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpreadsheetExchange;
@@ -0,0 +1,49 @@
+import React, { useState, useEffect } from 'react';
+import { SyncDiagnostic } from '../dbDataSync';
+import { syncDiagnostics } from '../services/syncDiagnostics';
+
+interface SyncDiagnosticsPanelProps {
+  className?: string;
+}
+
+export const SyncDiagnosticsPanel: React.FC<SyncDiagnosticsPanelProps> = ({ className = '' }) => {
+  const [entries, setEntries] = useState<SyncDiagnostic[]>(syncDiagnostics.list());
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => syncDiagnostics.subscribe(setEntries), []);
+
+  if (entries.length === 0) return null;
+
+  const warnings = entries.filter(e => e.level === 'warning').length;
+
+  return (
+    <div className={`relative pointer-events-auto ${className}`}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`text-xs font-medium ${warnings > 0 ? 'text-amber-300 hover:text-amber-200' : 'text-slate-400 hover:text-slate-200'}`}
+        title="Rows that could not be charted, and notes from the voice agent"
+      >
+        📋 {warnings > 0 ? `${warnings} skipped` : `${entries.length} notes`}
+      </button>
+      {isOpen && (
+        <div className="absolute left-0 top-6 z-30 w-96 max-h-72 overflow-y-auto bg-gray-900/95 border border-gray-600 rounded-lg p-2 shadow-xl">
+          <div className="flex justify-between items-center mb-1">
+            <span className="text-xs font-semibold text-slate-200">Sync diagnostics</span>
+            <button onClick={() => syncDiagnostics.clear()} className="text-xs text-slate-400 hover:text-white">Clear</button>
+          </div>
+          <ul className="space-y-1">
+            {[...entries].reverse().map((entry, index) => (
+              <li key={`${entry.rowId}-${index}`} className="text-xs text-slate-300" title={`Row ${entry.rowId}`}>
+                <span className="mr-1">{entry.level === 'warning' ? '⚠️' : 'ℹ️'}</span>
+                {entry.message}
+                <span className="ml-1 text-slate-500">{entry.createdAt}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncDiagnosticsPanel;
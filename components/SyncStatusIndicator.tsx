@@ -0,0 +1,76 @@
+import React from 'react';
+import { SyncConnectionState } from '../services/syncTransport';
+import { SiteConflict } from '../services/observationWriteBack';
+import { formatToothNumber } from '../toothNumbering';
+
+interface SyncStatusIndicatorProps {
+  state: SyncConnectionState;
+  pendingWrites?: number;
+  conflicts?: SiteConflict[];
+  onResolveConflict?: (conflict: SiteConflict, choice: 'manual' | 'incoming') => void;
+  onDismissConflict?: (conflict: SiteConflict) => void;
+  className?: string;
+}
+
+const STATUS: Record<SyncConnectionState, { icon: string; text: string; color: string }> = {
+  connecting: { icon: '⏳', text: 'Connecting...', color: 'text-yellow-500' },
+  live: { icon: '🟢', text: 'Live Sync', color: 'text-green-500' },
+  polling: { icon: '🔄', text: 'Polling', color: 'text-blue-400' },
+  reconnecting: { icon: '🟠', text: 'Reconnecting (polling)', color: 'text-orange-400' },
+  offline: { icon: '📴', text: 'Offline', color: 'text-red-400' },
+};
+
+const describeSite = (conflict: SiteConflict) => `${formatToothNumber(conflict.toothId, 'universal')} ${conflict.location.replace('_', '-')} ${conflict.type}`;
+
+const sourceLabel = (conflict: SiteConflict) => conflict.source === 'voice' ? 'voice agent' : 'another device';
+
+export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
+  state,
+  pendingWrites = 0,
+  conflicts = [],
+  onResolveConflict,
+  onDismissConflict,
+  className = '',
+}) => {
+  const status = STATUS[state];
+  const conflict = conflicts[0];
+
+  return (
+    <div className={`flex flex-col ${className}`}>
+      <div className="flex items-center space-x-1" title="Database sync connection">
+        <span className="text-sm">{status.icon}</span>
+        <span className={`text-xs font-medium ${status.color}`}>{status.text}</span>
+        {pendingWrites > 0 && (
+          <span className="ml-2 text-xs text-slate-400" title="Edits are kept on this device and sent when the database is reachable">
+            · {pendingWrites} edit{pendingWrites === 1 ? '' : 's'} queued
+          </span>
+        )}
+      </div>
+      {conflict && (
+        <div className="pointer-events-auto mt-1 flex items-center gap-2 text-xs text-amber-300">
+          <span>
+            ⚠️ {describeSite(conflict)}: yours {String(conflict.manualValue)} vs {sourceLabel(conflict)} {String(conflict.incomingValue)}
+            {conflict.winner && `, kept ${String(conflict.winner === 'manual' ? conflict.manualValue : conflict.incomingValue)}`}
+            {conflicts.length > 1 && ` (+${conflicts.length - 1} more)`}
+          </span>
+          {conflict.winner === null ? (
+            <>
+              <button onClick={() => onResolveConflict?.(conflict, 'manual')} className="px-2 py-0.5 rounded bg-amber-600/40 hover:bg-amber-600/60">
+                Keep mine
+              </button>
+              <button onClick={() => onResolveConflict?.(conflict, 'incoming')} className="px-2 py-0.5 rounded bg-amber-600/40 hover:bg-amber-600/60">
+                Use {sourceLabel(conflict)}
+              </button>
+            </>
+          ) : (
+            <button onClick={() => onDismissConflict?.(conflict)} className="text-amber-400 hover:text-amber-200" title="Dismiss">
+              ✕
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatusIndicator;
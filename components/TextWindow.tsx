@@ -1,5 +1,8 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { treatmentAnalysisService, TreatmentAnalysisData, PredictionData } from '../services/treatmentAnalysisService';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { treatmentAnalysisService, TreatmentAnalysisData, PredictionData, StreamedAnalysis } from '../services/treatmentAnalysisService';
+import { PeriodontalClassifier, ClassificationInputs } from '../services/periodontalClassification';
+import { AnalysisError } from '../services/analysisSchema';
+import { formatToothLabel, ToothNotation, DEFAULT_TOOTH_NOTATION } from '../toothNumbering';
 
 interface TextWindowProps {
   isVisible: boolean;
@@ -7,9 +10,11 @@ interface TextWindowProps {
   selectedToothId?: number | null;
   chartData?: any[];
   onTextUpdate?: (text: string) => void;
+  classificationInputs?: ClassificationInputs;
+  notation?: ToothNotation;
 }
 
-const TextWindow: React.FC<TextWindowProps> = ({ isVisible, onClose, selectedToothId, chartData, onTextUpdate }) => {
+const TextWindow: React.FC<TextWindowProps> = ({ isVisible, onClose, selectedToothId, chartData, onTextUpdate, classificationInputs, notation = DEFAULT_TOOTH_NOTATION }) => {
   console.log('🪟 TextWindow rendered with:', { isVisible, selectedToothId, chartDataLength: chartData?.length });
   const [position, setPosition] = useState({ x: 20, y: 20 });
   const [size, setSize] = useState({ width: 450, height: window.innerHeight - 20 });
@@ -24,13 +29,24 @@ const TextWindow: React.FC<TextWindowProps> = ({ isVisible, onClose, selectedToo
   const [isLoading, setIsLoading] = useState(false);
   const [analysisData, setAnalysisData] = useState<TreatmentAnalysisData | null>(null);
   const [predictions, setPredictions] = useState<PredictionData[]>([]);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [attempt, setAttempt] = useState(0); // bumped by Retry to run the request again
+  const [streamed, setStreamed] = useState<StreamedAnalysis | null>(null);
+  const [isStopped, setIsStopped] = useState(false);
   
   // Cache for loaded data
   const [loadedToothId, setLoadedToothId] = useState<number | null>(null);
   const [analysisType, setAnalysisType] = useState<'tooth' | 'overall' | null>(null);
   
   const windowRef = useRef<HTMLDivElement>(null);
+  // The request in flight; replies from superseded or stopped requests are ignored
+  const requestRef = useRef<AbortController | null>(null);
+
+  // Deterministic AAP/EFP classification shown alongside the overall AI analysis
+  const classification = useMemo(() => {
+    if (selectedToothId || !chartData || chartData.length === 0) return null;
+    return PeriodontalClassifier.classify(chartData, classificationInputs);
+  }, [selectedToothId, chartData, classificationInputs]);
 
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
     if (e.target instanceof HTMLElement) {
@@ -96,6 +112,28 @@ const TextWindow: React.FC<TextWindowProps> = ({ isVisible, onClose, selectedToo
     }
   }, [isDragging, isResizing, handleMouseMove, handleMouseUp]);
 
+  // Begin a new analysis request, superseding the one in flight
+  const startRequest = () => {
+    requestRef.current?.abort();
+    const request = new AbortController();
+    requestRef.current = request;
+    setIsLoading(true);
+    setError(null);
+    setStreamed(null);
+    setIsStopped(false);
+    return request;
+  };
+
+  // Stop the request in flight and keep whatever it streamed so far
+  const handleStop = () => {
+    requestRef.current?.abort();
+    requestRef.current = null;
+    setIsLoading(false);
+    setIsStopped(true);
+  };
+
+  useEffect(() => () => requestRef.current?.abort(), []);
+
   // Fetch data when tooth is selected or overall analysis is triggered
   useEffect(() => {
     console.log('🔄 TextWindow useEffect triggered:', { selectedToothId, loadedToothId, chartDataLength: chartData?.length });
@@ -103,8 +141,7 @@ const TextWindow: React.FC<TextWindowProps> = ({ isVisible, onClose, selectedToo
     if (selectedToothId && selectedToothId !== loadedToothId) {
       // Tooth-specific analysis
       console.log('🦷 Starting tooth analysis for:', selectedToothId);
-      setIsLoading(true);
-      setError(null);
+      const request = startRequest();
       setAnalysisType('tooth');
       
       // Get current tooth data for analysis
@@ -115,8 +152,12 @@ const TextWindow: React.FC<TextWindowProps> = ({ isVisible, onClose, selectedToo
       console.log('📊 TextWindow - Current tooth data:', currentTooth);
       console.log('📊 TextWindow - Tooth measurements:', toothMeasurements);
       
-      treatmentAnalysisService.generateAnalysis(selectedToothId, toothMeasurements)
+      treatmentAnalysisService.generateAnalysis(selectedToothId, toothMeasurements, {
+        signal: request.signal,
+        onPartial: partial => requestRef.current === request && setStreamed(partial)
+      })
         .then(data => {
+          if (requestRef.current !== request) return;
           // Store original measurements for comparison
           data.originalMeasurements = toothMeasurements;
           setAnalysisData(data);
@@ -127,19 +168,25 @@ const TextWindow: React.FC<TextWindowProps> = ({ isVisible, onClose, selectedToo
           onTextUpdate?.(fullText);
         })
         .catch(err => {
-          setError(err.message);
+          if (requestRef.current === request) setError(err);
         })
         .finally(() => {
+          if (requestRef.current !== request) return;
+          requestRef.current = null;
           setIsLoading(false);
+          setStreamed(null);
         });
     } else if (selectedToothId === null && chartData && chartData.length > 0 && analysisType !== 'overall') {
       // Overall analysis (when selectedToothId is explicitly null)
-      setIsLoading(true);
-      setError(null);
+      const request = startRequest();
       setAnalysisType('overall');
       
-      treatmentAnalysisService.generateOverallAnalysis(chartData)
+      treatmentAnalysisService.generateOverallAnalysis(chartData, classificationInputs, {
+        signal: request.signal,
+        onPartial: partial => requestRef.current === request && setStreamed(partial)
+      })
         .then(data => {
+          if (requestRef.current !== request) return;
           setAnalysisData(data);
           setLoadedToothId(0); // 0 indicates overall analysis
           
@@ -148,13 +195,22 @@ const TextWindow: React.FC<TextWindowProps> = ({ isVisible, onClose, selectedToo
           onTextUpdate?.(fullText);
         })
         .catch(err => {
-          setError(err.message);
+          if (requestRef.current === request) setError(err);
         })
         .finally(() => {
+          if (requestRef.current !== request) return;
+          requestRef.current = null;
           setIsLoading(false);
+          setStreamed(null);
         });
     }
-  }, [selectedToothId, chartData, loadedToothId, analysisType, onTextUpdate]);
+  }, [selectedToothId, chartData, loadedToothId, analysisType, onTextUpdate, classificationInputs, attempt]);
+
+  const handleRetry = () => {
+    setLoadedToothId(null);
+    setAnalysisType(null);
+    setAttempt(prev => prev + 1);
+  };
 
   // Auto-refresh analysis when chart data changes (after updates)
   useEffect(() => {
@@ -194,6 +250,9 @@ const TextWindow: React.FC<TextWindowProps> = ({ isVisible, onClose, selectedToo
 
   if (!isVisible) return null;
 
+  // While streaming, and after a stop, the reply so far stands in for the analysis
+  const partial = isLoading || isStopped ? streamed : null;
+
   return (
     <div
       ref={windowRef}
@@ -211,10 +270,19 @@ const TextWindow: React.FC<TextWindowProps> = ({ isVisible, onClose, selectedToo
       <div className="drag-handle flex items-center justify-between p-2 border-b border-[rgba(255,255,255,0.1)] cursor-grab active:cursor-grabbing bg-[rgba(0,0,0,0.2)]">
         <div className="flex items-center space-x-2">
           <h1 className="text-white font-semibold text-lg">
-            {selectedToothId ? 'Tooth Analysis' : 'Overall Oral Health Analysis'}
+            {selectedToothId ? `Tooth Analysis · ${formatToothLabel(selectedToothId, notation)}` : 'Overall Oral Health Analysis'}
           </h1>
         </div>
         <div className="flex items-center space-x-1">
+          {isLoading && (
+            <button
+              onClick={handleStop}
+              className="text-red-300 hover:text-white transition-colors duration-200 px-2 py-0.5 text-xs rounded border border-red-400/50 hover:bg-red-500/30"
+              title="Stop generating"
+            >
+              Stop
+            </button>
+          )}
           <button
             onClick={handleToggleCursorLogo}
             className="text-slate-400 hover:text-white transition-colors duration-200 p-1 text-xs rounded hover:bg-[rgba(255,255,255,0.1)]"
@@ -248,7 +316,7 @@ const TextWindow: React.FC<TextWindowProps> = ({ isVisible, onClose, selectedToo
       {/* Content area */}
       <div className="p-4 h-full overflow-hidden flex flex-col">
         <div className="flex-1 overflow-y-auto custom-scrollbar smooth-scroll pr-2 max-w-full">
-          {isLoading ? (
+          {isLoading && !partial?.analysis ? (
             <div className="flex items-center justify-center h-full">
               <div className="text-center">
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mx-auto mb-4"></div>
@@ -261,11 +329,82 @@ const TextWindow: React.FC<TextWindowProps> = ({ isVisible, onClose, selectedToo
               </div>
             </div>
           ) : error ? (
+            <div className="p-4 bg-[rgba(255,255,255,0.05)] rounded-lg border border-red-400/30 text-sm space-y-2">
+              <h4 className="text-red-400 font-semibold text-base">
+                {error instanceof AnalysisError
+                  ? (error.kind === 'provider' ? 'AI provider unavailable' : 'Unusable reply from the model')
+                  : 'Analysis failed'}
+              </h4>
+              <p className="text-slate-300">{error.message}</p>
+              {error instanceof AnalysisError && error.issues.length > 0 && (
+                <ul className="list-disc list-inside text-xs text-slate-400 space-y-0.5">
+                  {error.issues.map(issue => <li key={issue}>{issue}</li>)}
+                </ul>
+              )}
+              <button onClick={handleRetry} className="px-3 py-1 rounded-md bg-blue-600/80 hover:bg-blue-500 text-white text-xs transition-colors">
+                Retry
+              </button>
+            </div>
+          ) : isStopped && !partial?.analysis ? (
             <div className="text-center py-8">
-              <p className="text-red-400 text-sm">{error}</p>
+              <p className="text-slate-400 text-sm">Analysis stopped</p>
+            </div>
+          ) : partial ? (
+            <div className="text-slate-300 text-sm space-y-2 max-w-full">
+              <p className="text-xs text-slate-400">{isStopped ? 'Stopped: partial reply, not saved' : 'Receiving analysis...'}</p>
+
+              <div className="p-4 bg-[rgba(255,255,255,0.05)] rounded-lg border border-[rgba(255,255,255,0.1)] break-words max-w-full overflow-hidden">
+                <h4 className="text-white font-semibold mb-3 text-xl">Analysis</h4>
+                <p className="text-slate-300 text-base leading-relaxed break-words hyphens-auto max-w-full text-justify">{partial.analysis}</p>
+              </div>
+
+              {partial.prediction && (
+                <div className="p-4 bg-[rgba(255,255,255,0.05)] rounded-lg border border-[rgba(255,255,255,0.1)] break-words max-w-full overflow-hidden">
+                  <h4 className="text-white font-semibold mb-3 text-xl">Diagnosis</h4>
+                  <p className="text-slate-300 text-base leading-relaxed break-words hyphens-auto max-w-full text-justify">{partial.prediction}</p>
+                  {typeof partial.confidence === 'number' && (
+                    <div className="mt-3">
+                      <span className="text-base text-blue-400 font-medium">Confidence: {(partial.confidence * 100).toFixed(0)}%</span>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           ) : analysisData ? (
             <div className="text-slate-300 text-sm space-y-2 max-w-full">
+              {/* AAP/EFP Classification */}
+              {classification && (
+                <div className="p-4 bg-[rgba(255,255,255,0.05)] rounded-lg border border-[rgba(255,255,255,0.1)] break-words max-w-full overflow-hidden">
+                  <h4 className="text-white font-semibold mb-3 text-xl">AAP/EFP Classification</h4>
+                  {classification.hasPeriodontitis ? (
+                    <div className="grid grid-cols-3 gap-2 mb-3 text-center">
+                      <div>
+                        <span className="block text-xs text-slate-400">Stage</span>
+                        <span className="text-2xl font-bold text-blue-400">{classification.stage}</span>
+                      </div>
+                      <div>
+                        <span className="block text-xs text-slate-400">Extent</span>
+                        <span className="text-base font-semibold text-blue-400 capitalize">{classification.extent}</span>
+                      </div>
+                      <div>
+                        <span className="block text-xs text-slate-400">Grade</span>
+                        <span className="text-2xl font-bold text-blue-400">{classification.grade}</span>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-green-400 text-base font-semibold mb-3">{classification.summary}</p>
+                  )}
+                  <ul className="space-y-1 text-xs text-slate-400">
+                    {classification.rules.map((rule, index) => (
+                      <li key={index}>
+                        <span className="uppercase text-slate-500 mr-1">{rule.dimension}</span>
+                        {rule.rule} → <span className="text-slate-200">{rule.result}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Analysis Text */}
               <div className="p-4 bg-[rgba(255,255,255,0.05)] rounded-lg border border-[rgba(255,255,255,0.1)] break-words max-w-full overflow-hidden">
                 <h4 className="text-white font-semibold mb-3 text-xl">Analysis</h4>
@@ -1,16 +1,21 @@
 import React from 'react';
+import { HygieneIndex, HYGIENE_INDICES } from '../services/hygieneIndices';
 
 interface ToolbarProps {
   onResetCamera: () => void;
-  onTogglePlaque: () => void;
-  isPlaqueVisible: boolean;
+  heatMap: HygieneIndex | null;
+  onChangeHeatMap: (index: HygieneIndex) => void;
   onToggleTextWindow: () => void;
   isTextWindowVisible: boolean;
   onOverallAnalysis: () => void;
+  onToggleRiskAssessment: () => void;
+  isRiskAssessmentVisible: boolean;
+  onToggleChat: () => void;
+  isChatVisible: boolean;
   onHelp: () => void;
 }
 
-const Toolbar: React.FC<ToolbarProps> = ({ onResetCamera, onTogglePlaque, isPlaqueVisible, onToggleTextWindow, isTextWindowVisible, onOverallAnalysis, onHelp }) => {
+const Toolbar: React.FC<ToolbarProps> = ({ onResetCamera, heatMap, onChangeHeatMap, onToggleTextWindow, isTextWindowVisible, onOverallAnalysis, onToggleRiskAssessment, isRiskAssessmentVisible, onToggleChat, isChatVisible, onHelp }) => {
   const baseButtonClass = "px-4 py-2 text-sm font-semibold rounded-md transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 shadow-lg";
 
   return (
@@ -133,6 +138,108 @@ const Toolbar: React.FC<ToolbarProps> = ({ onResetCamera, onTogglePlaque, isPlaq
               {/* Reflection effect - more visible from behind */}
               <div className="absolute top-full left-0 right-0 h-8 bg-gradient-to-b from-lime-400/5 to-transparent opacity-10 group-hover/btn:opacity-100 transition-all duration-300 transform scale-y-[-1] blur-sm"></div>
             </div>
+      
+            {/* Risk Assessment Button with corner frames and reflection - always visible but subtle */}
+            <div className="relative group/btn">
+              {/* Corner L-frames - stronger LED effect */}
+              <div className="absolute -top-2 -left-2 w-6 h-6 border-l-2 border-t-2 border-amber-400/40 opacity-40 group-hover/btn:opacity-100 transition-all duration-300 group-hover/btn:scale-110"></div>
+              <div className="absolute -top-2 -right-2 w-6 h-6 border-r-2 border-t-2 border-amber-400/40 opacity-40 group-hover/btn:opacity-100 transition-all duration-300 group-hover/btn:scale-110"></div>
+              <div className="absolute -bottom-2 -left-2 w-6 h-6 border-l-2 border-b-2 border-amber-400/40 opacity-40 group-hover/btn:opacity-100 transition-all duration-300 group-hover/btn:scale-110"></div>
+              <div className="absolute -bottom-2 -right-2 w-6 h-6 border-r-2 border-b-2 border-amber-400/40 opacity-40 group-hover/btn:opacity-100 transition-all duration-300 group-hover/btn:scale-110"></div>
+              
+              {/* Glow effect - stronger spread on hover */}
+              <div className="absolute -inset-1 bg-gradient-to-r from-amber-400/20 to-orange-500/20 rounded-lg blur opacity-25 group-hover/btn:opacity-80 group-hover/btn:scale-110 transition-all duration-300"></div>
+              
+              <button
+                onClick={onToggleRiskAssessment}
+                className={`relative px-4 py-2.5 text-base font-normal rounded-lg shadow-lg hover:shadow-xl transition-all duration-300 border ${
+                  isRiskAssessmentVisible
+                    ? 'bg-gray-800/60 text-amber-300/50 hover:text-amber-200 border-amber-400'
+                    : 'bg-gray-800/60 text-amber-300/50 hover:text-amber-200 border-gray-600/30 hover:border-amber-400'
+                }`}
+                aria-pressed={isRiskAssessmentVisible}
+              >
+                <div className="flex items-center space-x-2">
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 2l8.66 5v10L12 22l-8.66-5V7L12 2z" />
+                  </svg>
+                  <span>Risk Assessment</span>
+                </div>
+              </button>
+              
+              {/* Reflection effect - very subtle */}
+              <div className="absolute top-full left-0 right-0 h-8 bg-gradient-to-b from-amber-400/5 to-transparent opacity-10 group-hover/btn:opacity-100 transition-all duration-300 transform scale-y-[-1] blur-sm"></div>
+            </div>
+
+            {/* Chat Button with corner frames and reflection - opens the assistant on the whole mouth */}
+            <div className="relative group/btn">
+              {/* Corner L-frames - stronger LED effect */}
+              <div className="absolute -top-2 -left-2 w-6 h-6 border-l-2 border-t-2 border-sky-400/40 opacity-40 group-hover/btn:opacity-100 transition-all duration-300 group-hover/btn:scale-110"></div>
+              <div className="absolute -top-2 -right-2 w-6 h-6 border-r-2 border-t-2 border-sky-400/40 opacity-40 group-hover/btn:opacity-100 transition-all duration-300 group-hover/btn:scale-110"></div>
+              <div className="absolute -bottom-2 -left-2 w-6 h-6 border-l-2 border-b-2 border-sky-400/40 opacity-40 group-hover/btn:opacity-100 transition-all duration-300 group-hover/btn:scale-110"></div>
+              <div className="absolute -bottom-2 -right-2 w-6 h-6 border-r-2 border-b-2 border-sky-400/40 opacity-40 group-hover/btn:opacity-100 transition-all duration-300 group-hover/btn:scale-110"></div>
+              
+              {/* Glow effect - stronger spread on hover */}
+              <div className="absolute -inset-1 bg-gradient-to-r from-sky-400/20 to-indigo-500/20 rounded-lg blur opacity-25 group-hover/btn:opacity-80 group-hover/btn:scale-110 transition-all duration-300"></div>
+              
+              <button
+                onClick={onToggleChat}
+                className={`relative px-4 py-2.5 text-base font-normal rounded-lg shadow-lg hover:shadow-xl transition-all duration-300 border ${
+                  isChatVisible
+                    ? 'bg-gray-800/60 text-sky-300/50 hover:text-sky-200 border-sky-400'
+                    : 'bg-gray-800/60 text-sky-300/50 hover:text-sky-200 border-gray-600/30 hover:border-sky-400'
+                }`}
+                aria-pressed={isChatVisible}
+              >
+                <div className="flex items-center space-x-2">
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+                  </svg>
+                  <span>Chat</span>
+                </div>
+              </button>
+              
+              {/* Reflection effect - very subtle */}
+              <div className="absolute top-full left-0 right-0 h-8 bg-gradient-to-b from-sky-400/5 to-transparent opacity-10 group-hover/btn:opacity-100 transition-all duration-300 transform scale-y-[-1] blur-sm"></div>
+            </div>
+
+            {/* Heat Map selector with corner frames and reflection - one hygiene index at a time */}
+            <div className="relative group/btn">
+              {/* Corner L-frames - stronger LED effect */}
+              <div className="absolute -top-2 -left-2 w-6 h-6 border-l-2 border-t-2 border-yellow-400/40 opacity-40 group-hover/btn:opacity-100 transition-all duration-300 group-hover/btn:scale-110"></div>
+              <div className="absolute -top-2 -right-2 w-6 h-6 border-r-2 border-t-2 border-yellow-400/40 opacity-40 group-hover/btn:opacity-100 transition-all duration-300 group-hover/btn:scale-110"></div>
+              <div className="absolute -bottom-2 -left-2 w-6 h-6 border-l-2 border-b-2 border-yellow-400/40 opacity-40 group-hover/btn:opacity-100 transition-all duration-300 group-hover/btn:scale-110"></div>
+              <div className="absolute -bottom-2 -right-2 w-6 h-6 border-r-2 border-b-2 border-yellow-400/40 opacity-40 group-hover/btn:opacity-100 transition-all duration-300 group-hover/btn:scale-110"></div>
+              
+              {/* Glow effect - stronger spread on hover */}
+              <div className="absolute -inset-1 bg-gradient-to-r from-yellow-400/20 to-orange-500/20 rounded-lg blur opacity-25 group-hover/btn:opacity-80 group-hover/btn:scale-110 transition-all duration-300"></div>
+              
+              <div
+                className={`relative flex items-center space-x-1 px-2 py-1.5 rounded-lg bg-gray-800/60 shadow-lg transition-all duration-300 border ${
+                  heatMap ? 'border-yellow-400' : 'border-gray-600/30 hover:border-yellow-400'
+                }`}
+                role="group"
+                aria-label="Heat map"
+              >
+                <span className="px-2 text-base text-yellow-300/50">Heat Map</span>
+                {HYGIENE_INDICES.map(index => (
+                  <button
+                    key={index.value}
+                    onClick={() => onChangeHeatMap(index.value)}
+                    className={`px-2 py-1 text-sm rounded-md transition-colors ${
+                      heatMap === index.value ? 'bg-yellow-500/30 text-yellow-200' : 'text-yellow-300/50 hover:text-yellow-200'
+                    }`}
+                    title={index.label}
+                    aria-pressed={heatMap === index.value}
+                  >
+                    {index.short}
+                  </button>
+                ))}
+              </div>
+              
+              {/* Reflection effect - very subtle */}
+              <div className="absolute top-full left-0 right-0 h-8 bg-gradient-to-b from-yellow-400/5 to-transparent opacity-10 group-hover/btn:opacity-100 transition-all duration-300 transform scale-y-[-1] blur-sm"></div>
+            </div>
       </div>
     </div>
   );
@@ -1,9 +1,15 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import ChatPanel from './ChatPanel.tsx';
-import { GoogleGenAI } from "@google/genai";
-import { ToothData, MeasurementType, MeasurementLocation, MeasurementSiteValue, NonSiteLocation } from '../types.ts';
-import { getUniversalToothId, getPalmerNotation } from '../constants.ts';
+import { ToothData, MeasurementType, MeasurementLocation, MeasurementSiteValue, NonSiteLocation, Visit, FurcationSystem } from '../types.ts';
+import { quadrantToUniversal, isUpperArch, formatToothLabel, describeToothForPrompt, ToothNotation, DEFAULT_TOOTH_NOTATION } from '../toothNumbering.ts';
+import { ToothComparison, SiteDelta } from '../services/visitComparison';
+import { TOOTH_STATUSES, MISSING_REASONS, ToothStatusUpdate, getToothStatus, getToothStatusLabel, hasMissingReason, isProbeable, describeToothStatus } from '../toothStatus.ts';
+import { assessPeriImplant, PERI_IMPLANT_THRESHOLDS, PeriImplantDiagnosis } from '../services/periImplantAssessment';
+import { aiSettings } from '../services/aiSettings';
+import { MEASUREMENT_LOCATIONS } from '../constants.ts';
+import { OverallScores, HYGIENE_INDICES, getToothIndexScore, formatIndexScore, describeIndexScore } from '../services/hygieneIndices';
+import { getGingivalMargin, MIN_KERATINIZED_TISSUE_MM } from '../chartCalculations.ts';
+import { FURCATION_SYSTEMS, DEFAULT_FURCATION_SYSTEM, getFurcationEntrances, getFurcationEntranceLabel, getFurcationSystem, getMaxFurcationClassFor, convertFurcation, formatFurcationClass, describeFurcation } from '../furcation.ts';
 
 
 // --- Custom Hooks ---
@@ -77,13 +83,13 @@ const parseCommand = (
     const parts = commandString.split(' ');
     
     // --- Pass 1: Navigation commands (highest priority) ---
-    // e.g., "buccal 1 7", "2 5"
+    // FDI quadrant and tooth, e.g., "buccal 1 7", "2 5"
     const navRegex = /(?:(buccal|lingual)\s+)?([1-4])\s+([1-8])\b/;
     const navMatch = commandString.match(navRegex);
     if (navMatch) {
       const quadrant = parseInt(navMatch[2]);
       const toothInQuad = parseInt(navMatch[3]);
-      const toothId = getUniversalToothId(quadrant, toothInQuad);
+      const toothId = quadrantToUniversal(quadrant, toothInQuad);
       if (toothId) {
           action = { type: 'SELECT_TOOTH', payload: toothId };
           if (navMatch[1]) {
@@ -140,11 +146,14 @@ const parseCommand = (
 
 
 // --- Sub-components ---
-const Stepper: React.FC<{ value: number, onChange: (val: number) => void, severity?: 'pd' }> = ({ value, onChange, severity }) => {
+const Stepper: React.FC<{ value: number, onChange: (val: number) => void, severity?: 'pd' | 'implant', min?: number, max?: number }> = ({ value, onChange, severity, min = 0, max = Infinity }) => {
   let severityClass = 'bg-gray-700 border-gray-600';
   if (severity === 'pd') {
     if (value >= 5) severityClass = 'bg-red-700 border-red-500';
     else if (value === 4) severityClass = 'bg-yellow-700 border-yellow-500';
+  } else if (severity === 'implant') {
+    if (value >= PERI_IMPLANT_THRESHOLDS.pocketDepth) severityClass = 'bg-red-700 border-red-500';
+    else if (value >= PERI_IMPLANT_THRESHOLDS.pocketDepthWatch) severityClass = 'bg-yellow-700 border-yellow-500';
   }
   
   const handleChange = (newValue: number) => {
@@ -154,20 +163,20 @@ const Stepper: React.FC<{ value: number, onChange: (val: number) => void, severi
   
   return (
   <div className={`flex items-center justify-center rounded-md border transition-colors ${severityClass}`}>
-    <button onClick={() => handleChange(Math.max(0, value - 1))} className="px-2 py-1 text-lg hover:bg-gray-600 rounded-l-md">-</button>
-    <span className="w-8 text-center font-mono text-lg">{value}</span>
-    <button onClick={() => handleChange(value + 1)} className="px-2 py-1 text-lg hover:bg-gray-600 rounded-r-md">+</button>
+    <button onClick={() => handleChange(Math.max(min, value - 1))} className="px-2 py-1 text-lg hover:bg-gray-600 rounded-l-md">-</button>
+    <span className="w-8 text-center font-mono text-lg">{min < 0 && value > 0 ? `+${value}` : value}</span>
+    <button onClick={() => handleChange(Math.min(max, value + 1))} className="px-2 py-1 text-lg hover:bg-gray-600 rounded-r-md">+</button>
   </div>
 )};
 
-const SegmentedControl: React.FC<{ options: (string|number)[], value: number, onChange: (val: number) => void }> = ({ options, value, onChange }) => (
+const SegmentedControl: React.FC<{ options: (string|number)[], value: number, onChange: (val: number) => void, format?: (val: number) => string }> = ({ options, value, onChange, format }) => (
     <div className="flex bg-gray-900 rounded-md p-0.5 border border-gray-700">
         {options.map(opt => {
             const numOpt = Number(opt);
             return (
             <button key={opt} onClick={() => onChange(numOpt)}
                 className={`flex-1 p-1 rounded transition-colors text-sm ${value === numOpt ? 'bg-blue-600 shadow' : 'hover:bg-gray-700'}`}>
-                {opt}
+                {format ? format(numOpt) : opt}
             </button>
         )})}
     </div>
@@ -187,16 +196,90 @@ const CalDisplayBox: React.FC<{ value: MeasurementSiteValue | undefined }> = ({
     );
 };
 
+const KeratinizedTissueBox: React.FC<{ value: MeasurementSiteValue | undefined }> = ({ value }) => {
+    const deficient = typeof value === 'number' && value < MIN_KERATINIZED_TISSUE_MM;
+    return (
+        <div className={`p-1 rounded-md border text-center ${deficient ? 'bg-yellow-500 border-yellow-400 text-black font-semibold' : 'bg-gray-900 border-gray-700 text-slate-100'}`}>
+            {typeof value === 'number' ? value : '-'}
+        </div>
+    );
+};
+
+const SiteDeltaBox: React.FC<{ site: SiteDelta | undefined }> = ({ site }) => {
+    if (!site) return <div className="p-1 rounded-md border bg-gray-900 border-gray-700 text-center">-</div>;
+    let severityClass = 'bg-gray-900 border-gray-700 text-slate-100';
+    if (site.status === 'progressing') severityClass = 'bg-red-600 border-red-400 text-white font-bold';
+    else if (site.status === 'improved') severityClass = 'bg-green-600 border-green-400 text-white font-bold';
+    const formatDelta = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+    return (
+        <div className={`p-1 rounded-md border text-center ${severityClass}`} title={`PD ${formatDelta(site.pocketDepth.delta)} · REC ${site.recession ? formatDelta(site.recession.delta) : 'not charted'}`}>
+            {formatDelta(site.cal.delta)}
+        </div>
+    );
+};
+
+const DIAGNOSIS_CLASSES: Record<PeriImplantDiagnosis, string> = {
+  health: 'bg-green-500',
+  mucositis: 'bg-yellow-500',
+  'peri-implantitis': 'bg-red-500',
+};
+
+// Status, reason for loss and supernumerary teeth of one position
+const ToothStatusEditor: React.FC<{
+  toothData: ToothData;
+  onChange: (update: ToothStatusUpdate) => void;
+}> = ({ toothData, onChange }) => {
+  const status = getToothStatus(toothData);
+  const selectClass = 'bg-gray-800/80 border border-gray-600 rounded-md px-2 py-1 text-sm text-slate-200 outline-none focus:border-blue-500';
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <select value={status} onChange={e => onChange({ status: e.target.value as ToothStatusUpdate['status'] })} className={selectClass}>
+        {TOOTH_STATUSES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+      </select>
+      {hasMissingReason(status) && (
+        <select
+          value={toothData.missingReason ?? ''}
+          onChange={e => onChange({ missingReason: (e.target.value || null) as ToothStatusUpdate['missingReason'] })}
+          className={selectClass}
+          title="Only teeth lost to periodontitis count toward staging"
+        >
+          <option value="">Reason not recorded</option>
+          {MISSING_REASONS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+        </select>
+      )}
+      <label className="flex items-center gap-1 text-xs text-gray-400" title="Extra teeth beside this position">
+        Supernumerary
+        <input
+          type="number"
+          min={0}
+          max={4}
+          value={toothData.supernumerary ?? 0}
+          onChange={e => onChange({ supernumerary: Math.max(0, parseInt(e.target.value) || 0) })}
+          className={`${selectClass} w-14`}
+        />
+      </label>
+    </div>
+  );
+};
+
 const SurfaceDataEntry: React.FC<{
   surface: 'buccal' | 'lingual';
   toothData: ToothData;
   onUpdate: (type: MeasurementType, location: MeasurementLocation, value: MeasurementSiteValue) => void;
-}> = ({ surface, toothData, onUpdate }) => {
+  showIndices?: boolean; // Silness-Löe plaque and Löe-Silness gingival index rows
+}> = ({ surface, toothData, onUpdate, showIndices = false }) => {
   const { measurements } = toothData;
+  const pdSeverity = getToothStatus(toothData) === 'implant' ? 'implant' : 'pd';
   const pdData = measurements[MeasurementType.POCKET_DEPTH] || {};
-  const recData = measurements[MeasurementType.RECESSION] || {};
+  const mgjData = measurements[MeasurementType.MUCOGINGIVAL_JUNCTION] || {};
   const bopData = measurements[MeasurementType.BLEEDING] || {};
+  const supData = measurements[MeasurementType.SUPPURATION] || {};
   const plaqueData = measurements[MeasurementType.PLAQUE] || {};
+  const pliData = measurements[MeasurementType.PLAQUE_INDEX] || {};
+  const giData = measurements[MeasurementType.GINGIVAL_INDEX] || {};
+  // The palate is keratinized throughout, so it has no mucogingival junction
+  const hasMucogingivalJunction = surface === 'buccal' || !isUpperArch(toothData.id);
 
   const toLoc = (
     s: 'buccal' | 'lingual',
@@ -224,19 +307,37 @@ const SurfaceDataEntry: React.FC<{
           
           {/* Pocket Depth Row */}
           <div className="font-semibold text-blue-300 text-right pr-2">PD</div>
-          {locations.map(loc => <Stepper key={`${loc}-pd`} value={(pdData[loc] as number) || 0} onChange={val => handleUpdate(MeasurementType.POCKET_DEPTH, loc, val)} severity="pd" />)}
+          {locations.map(loc => <Stepper key={`${loc}-pd`} value={(pdData[loc] as number) || 0} onChange={val => handleUpdate(MeasurementType.POCKET_DEPTH, loc, val)} severity={pdSeverity} />)}
 
           {/* Recession Row */}
-          <div className="font-semibold text-blue-300 text-right pr-2">REC</div>
-          {locations.map(loc => <Stepper key={`${loc}-rec`} value={(recData[loc] as number) || 0} onChange={val => handleUpdate(MeasurementType.RECESSION, loc, val)} />)}
+          <div className="font-semibold text-blue-300 text-right pr-2" title="Gingival margin to CEJ: + coronal (overgrowth), - apical (recession)">GM</div>
+          {locations.map(loc => <Stepper key={`${loc}-gm`} value={getGingivalMargin(toothData, loc) ?? 0} min={-15} onChange={val => handleUpdate(MeasurementType.GINGIVAL_MARGIN, loc, val)} />)}
+
+          {/* Mucogingival Junction Row */}
+          {hasMucogingivalJunction && <>
+            <div className="font-semibold text-blue-300 text-right pr-2" title="Mucogingival junction, mm apical to the CEJ">MGJ</div>
+            {locations.map(loc => <Stepper key={`${loc}-mgj`} value={(mgjData[loc] as number) || 0} onChange={val => handleUpdate(MeasurementType.MUCOGINGIVAL_JUNCTION, loc, val)} />)}
+          </>}
           
           {/* BOP Row */}
           <div className="font-semibold text-blue-300 text-right pr-2">BOP</div>
           {locations.map(loc => <button key={loc} onClick={() => handleUpdate(MeasurementType.BLEEDING, loc, !bopData[loc])} className={`h-8 w-full rounded-md transition-colors ${bopData[loc] ? 'bg-red-500/80' : 'bg-gray-700 hover:bg-gray-600'}`}></button>)}
+
+          {/* Suppuration Row */}
+          <div className="font-semibold text-blue-300 text-right pr-2">SUP</div>
+          {locations.map(loc => <button key={`${loc}-sup`} onClick={() => handleUpdate(MeasurementType.SUPPURATION, loc, !supData[loc])} className={`h-8 w-full rounded-md transition-colors ${supData[loc] ? 'bg-amber-200/80' : 'bg-gray-700 hover:bg-gray-600'}`}></button>)}
           
           {/* Plaque Row */}
           <div className="font-semibold text-blue-300 text-right pr-2">Plaque</div>
           {locations.map(loc => <button key={loc} onClick={() => handleUpdate(MeasurementType.PLAQUE, loc, !plaqueData[loc])} className={`h-8 w-full rounded-md transition-colors ${plaqueData[loc] ? 'bg-yellow-400/80' : 'bg-gray-700 hover:bg-gray-600'}`}></button>)}
+
+          {/* Scored Index Rows */}
+          {showIndices && <>
+            <div className="font-semibold text-blue-300 text-right pr-2" title="Silness-Löe plaque index 0-3">PlI</div>
+            {locations.map(loc => <Stepper key={`${loc}-pli`} value={(pliData[loc] as number) || 0} max={3} onChange={val => handleUpdate(MeasurementType.PLAQUE_INDEX, loc, val)} />)}
+            <div className="font-semibold text-blue-300 text-right pr-2" title="Löe-Silness gingival index 0-3">GI</div>
+            {locations.map(loc => <Stepper key={`${loc}-gi`} value={(giData[loc] as number) || 0} max={3} onChange={val => handleUpdate(MeasurementType.GINGIVAL_INDEX, loc, val)} />)}
+          </>}
         </div>
     </div>
   );
@@ -247,22 +348,41 @@ const SurfaceDataEntry: React.FC<{
 interface InfoPanelProps {
   toothData: ToothData;
   onUpdate: (toothId: number, location: MeasurementLocation | NonSiteLocation, type: MeasurementType, value: MeasurementSiteValue) => void;
+  onUpdateStatus?: (toothId: number, update: ToothStatusUpdate) => void;
+  readOnly?: boolean; // viewing a closed visit
   onClose: () => void;
   onSelectTooth: (id: number) => void;
   activeSurface: 'buccal' | 'lingual' | null;
   onSetSurface: (surface: 'buccal' | 'lingual' | null) => void;
-  overallScores: { bopPercentage: number, plaquePercentage: number };
+  overallScores: OverallScores;
+  comparison?: ToothComparison | null;
+  comparisonVisit?: Visit | null;
+  notation?: ToothNotation;
+  furcationSystem?: FurcationSystem; // system new furcation classes are entered in
+  onChangeFurcationSystem?: (system: FurcationSystem) => void;
+  onOpenChat?: () => void; // the chat lives in the app so it survives selecting another tooth
 }
 
-export const InfoPanel: React.FC<InfoPanelProps> = ({ toothData, onUpdate, onClose, onSelectTooth, activeSurface, onSetSurface, overallScores }) => {
-  const { id, measurements, mobility, furcation, cal, riskScore, isMissing } = toothData;
+export const InfoPanel: React.FC<InfoPanelProps> = ({ toothData, onUpdate, onUpdateStatus, readOnly = false, onClose, onSelectTooth, activeSurface, onSetSurface, overallScores, comparison = null, comparisonVisit = null, notation = DEFAULT_TOOTH_NOTATION, furcationSystem = DEFAULT_FURCATION_SYSTEM, onChangeFurcationSystem, onOpenChat }) => {
+  const { id, measurements, mobility, fremitus, cal, keratinizedTissue, riskScore } = toothData;
+  const furcationEntrances = getFurcationEntrances(id);
+  // Classes recorded in the other system are shown as read in the selected one
+  const furcation = convertFurcation(toothData.furcation, getFurcationSystem(toothData), furcationSystem);
+  const furcationOptions = Array.from({ length: getMaxFurcationClassFor(furcationSystem) + 1 }, (_, i) => i);
+  const status = getToothStatus(toothData);
+  const isImplant = status === 'implant';
+  const periImplant = useMemo(() => (isImplant ? assessPeriImplant(toothData) : null), [isImplant, toothData]);
   const [command, setCommand] = useState('');
   const debouncedCommand = useDebounce(command, 500);
   const [highlightedResult, setHighlightedResult] = useState<ParsedResult | null>(null);
   const [aiReport, setAiReport] = useState('');
   const [isGeneratingReport, setIsGeneratingReport] = useState(false);
   const [isReportModalOpen, setIsReportModalOpen] = useState(false);
-  const [isChatOpen, setIsChatOpen] = useState(false);
+  const hasScoredIndices = !!(measurements[MeasurementType.PLAQUE_INDEX] || measurements[MeasurementType.GINGIVAL_INDEX]);
+  const [showIndices, setShowIndices] = useState(hasScoredIndices);
+  const toothIndexScores = HYGIENE_INDICES
+    .map(index => ({ index, score: getToothIndexScore(toothData, index.value) }))
+    .filter((entry): entry is { index: typeof entry.index; score: number } => entry.score !== null);
   
   const isListening = useMemo(() => !!command, [command]);
 
@@ -278,7 +398,9 @@ export const InfoPanel: React.FC<InfoPanelProps> = ({ toothData, onUpdate, onClo
         if(contextUpdate) {
             onSetSurface(contextUpdate.surface);
         }
-        updates.forEach(upd => onUpdate(id, upd.location, upd.type, upd.value));
+        if (!readOnly) {
+          updates.forEach(upd => onUpdate(id, upd.location, upd.type, upd.value));
+        }
 
         // Clear command input on successful action
         if (success) {
@@ -290,7 +412,7 @@ export const InfoPanel: React.FC<InfoPanelProps> = ({ toothData, onUpdate, onClo
     } else {
         setHighlightedResult(null);
     }
-  }, [debouncedCommand, id, onUpdate, onSelectTooth, onSetSurface, activeSurface]);
+  }, [debouncedCommand, id, onUpdate, onSelectTooth, onSetSurface, activeSurface, readOnly]);
   
   useEffect(() => {
     // Reset AI report when tooth changes
@@ -304,8 +426,6 @@ export const InfoPanel: React.FC<InfoPanelProps> = ({ toothData, onUpdate, onClo
       setIsReportModalOpen(true);
       setAiReport('');
       try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-        
         const formatMeasurements = (type: MeasurementType, surface: 'buccal' | 'lingual') => {
             const m = measurements[type] || {};
             const d = m[`disto_${surface}`];
@@ -324,27 +444,30 @@ export const InfoPanel: React.FC<InfoPanelProps> = ({ toothData, onUpdate, onClo
         }
 
         const prompt = `Please generate a clinical summary for the following tooth data:
-Tooth ID: ${id}
+Tooth: ${describeToothForPrompt(id)}
+Status: ${describeToothStatus(toothData)}${periImplant ? `\nPeri-implant assessment: ${periImplant.summary}` : ''}
 Risk Score: ${riskScore?.toFixed(0)}
-Mobility: Grade ${mobility ?? 0}
-Furcation: Buccal Grade ${furcation?.buccal ?? 0}, Lingual/Palatal Grade ${furcation?.lingual ?? 0}
+Mobility: Miller Grade ${mobility ?? 0}, Fremitus ${formatFurcationClass(fremitus ?? 0)}
+Furcation: ${describeFurcation(toothData)}
 Measurements:
 - Buccal PD: ${formatMeasurements(MeasurementType.POCKET_DEPTH, 'buccal')}
 - Buccal Recession: ${formatMeasurements(MeasurementType.RECESSION, 'buccal')}
+- Buccal Gingival Margin (mm from CEJ, + coronal): ${formatMeasurements(MeasurementType.GINGIVAL_MARGIN, 'buccal')}
 - Lingual/Palatal PD: ${formatMeasurements(MeasurementType.POCKET_DEPTH, 'lingual')}
 - Lingual/Palatal Recession: ${formatMeasurements(MeasurementType.RECESSION, 'lingual')}
+- Lingual/Palatal Gingival Margin (mm from CEJ, + coronal): ${formatMeasurements(MeasurementType.GINGIVAL_MARGIN, 'lingual')}
+- CAL (PD - gingival margin): ${MEASUREMENT_LOCATIONS.map(loc => `${loc}=${cal?.[loc] ?? 'N/A'}`).join(', ')}
+- Keratinized Tissue Width: ${MEASUREMENT_LOCATIONS.filter(loc => typeof keratinizedTissue?.[loc] === 'number').map(loc => `${loc}=${keratinizedTissue![loc]}`).join(', ') || 'Not recorded'}
 - Bleeding on Probing (BOP): Buccal: ${formatBoolean(MeasurementType.BLEEDING, 'buccal')}; Lingual/Palatal: ${formatBoolean(MeasurementType.BLEEDING, 'lingual')}
+- Suppuration: Buccal: ${formatBoolean(MeasurementType.SUPPURATION, 'buccal')}; Lingual/Palatal: ${formatBoolean(MeasurementType.SUPPURATION, 'lingual')}
 - Plaque: Buccal: ${formatBoolean(MeasurementType.PLAQUE, 'buccal')}; Lingual/Palatal: ${formatBoolean(MeasurementType.PLAQUE, 'lingual')}`;
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                systemInstruction: "You are a dental AI assistant specializing in periodontics. Your role is to generate a concise clinical summary for a single tooth based on provided data. The summary should be written in a professional tone, suitable for patient records. Structure the summary clearly. Start with the tooth identification. Detail the 6-point pocket depths (PD) and recession (REC) for both buccal and palatal/lingual surfaces. Calculate and state the Clinical Attachment Loss (CAL) for any site with measurements. Note any bleeding on probing (BOP), plaque, furcation involvement, and mobility. Conclude with a one-sentence assessment based on the overall findings and the provided risk score. Do not add any conversational text or greetings."
-            }
-        });
+        const text = await aiSettings.providerFor('toothSummary').generate([
+            { role: 'system', content: "You are a dental AI assistant specializing in periodontics. Your role is to generate a concise clinical summary for a single tooth based on provided data. The summary should be written in a professional tone, suitable for patient records. Structure the summary clearly. Start with the tooth identification. Detail the 6-point pocket depths (PD) and recession (REC) for both buccal and palatal/lingual surfaces. Calculate and state the Clinical Attachment Loss (CAL) for any site with measurements. Note any bleeding on probing (BOP), plaque, furcation involvement, and mobility. Conclude with a one-sentence assessment based on the overall findings and the provided risk score. Do not add any conversational text or greetings." },
+            { role: 'user', content: prompt }
+        ], { maxTokens: 2048, temperature: 0.2 });
 
-        setAiReport(response.text);
+        setAiReport(text);
 
       } catch (error) {
         console.error("Error generating AI report:", error);
@@ -354,14 +477,17 @@ Measurements:
       }
   };
 
-  const palmerNotation = useMemo(() => getPalmerNotation(id), [id]);
-  const toothDisplayName = palmerNotation 
-    ? `Q${palmerNotation.quadrant}-${palmerNotation.toothInQuad} (Universal #${id})`
-    : `Tooth ${id}`;
+  const toothDisplayName = formatToothLabel(id, notation);
+
+  const handleStatusChange = (update: ToothStatusUpdate) => onUpdateStatus?.(id, update);
 
-  if (isMissing) {
+  // Nothing to probe: missing, pontic or unerupted
+  if (!isProbeable(toothData)) {
     return ( <aside className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-[rgba(25,30,45,0.6)] backdrop-blur-xl border border-[rgba(255,255,255,0.1)] rounded-2xl shadow-2xl p-6 text-white w-96 z-30">
-        <h2 className="text-2xl font-bold">{toothDisplayName}</h2> <p className="text-lg text-red-400 mt-2">This tooth is marked as missing.</p>
+        <h2 className="text-2xl font-bold">{toothDisplayName}</h2> <p className="text-lg text-red-400 mt-2">This tooth is marked as {describeToothStatus(toothData)}.</p>
+        <fieldset disabled={readOnly || !onUpdateStatus} className={`mt-4 ${readOnly ? 'opacity-60' : ''}`}>
+          <ToothStatusEditor toothData={toothData} onChange={handleStatusChange} />
+        </fieldset>
         <button onClick={onClose} className="absolute top-3 right-3 text-gray-400 hover:text-white text-2xl leading-none">&times;</button>
     </aside> );
   }
@@ -374,7 +500,7 @@ Measurements:
     console.log('🦷 InfoPanel - handleNonSiteUpdate called:', { id, location, type, value });
     onUpdate(id, location, type, value);
   };
-  const lingualSurfaceTitle = id <= 16 ? 'Palatal' : 'Lingual';
+  const lingualSurfaceTitle = isUpperArch(id) ? 'Palatal' : 'Lingual';
 
   return (
     <>
@@ -424,21 +550,42 @@ Measurements:
         <header className="flex justify-between items-start drag-handle cursor-move">
           <div className="flex-1">
             <h2 className="text-2xl font-bold">{toothDisplayName}</h2>
+            {readOnly && <span className="inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-semibold bg-amber-500/80 text-gray-900">Past visit · read-only</span>}
+            {status !== 'present' && <span className="inline-block mt-1 ml-1 px-2 py-0.5 rounded-full text-xs font-semibold bg-slate-500/80 text-white">{getToothStatusLabel(status)}</span>}
             <div className="flex items-center gap-4 mt-2">
               <div className="flex items-center gap-2">
                   <span className="text-sm">Risk:</span>
                   <span className={`px-2 py-0.5 rounded-full text-xs font-semibold text-gray-900 ${getRiskColor(riskScore || 0)}`}>{riskScore?.toFixed(0) || 0}</span>
               </div>
-               <div className="text-sm font-semibold">
+               <div className="text-sm font-semibold" title="Full mouth">
                   <span className="text-red-300">BOP: {overallScores.bopPercentage.toFixed(0)}%</span>
-                  <span className="text-yellow-300 ml-3">Plaque: {overallScores.plaquePercentage.toFixed(0)}%</span>
+                  <span className="text-yellow-300 ml-3">PCR: {overallScores.plaquePercentage.toFixed(0)}%</span>
+                  {overallScores.plaqueIndex !== null && <span className="text-yellow-300 ml-3">PlI: {formatIndexScore('plaqueIndex', overallScores.plaqueIndex)}</span>}
+                  {overallScores.gingivalIndex !== null && <span className="text-rose-300 ml-3">GI: {formatIndexScore('gingivalIndex', overallScores.gingivalIndex)}</span>}
                </div>
             </div>
+            {toothIndexScores.length > 0 && (
+              <div className="mt-1 text-xs text-gray-400">
+                This tooth: {toothIndexScores.map(({ index, score }) => `${index.short} ${formatIndexScore(index.value, score)}${index.value === 'pcr' ? '' : ` (${describeIndexScore(score)})`}`).join(' · ')}
+              </div>
+            )}
           </div>
           <button onClick={onClose} className="text-2xl text-gray-400 hover:text-white leading-none flex-shrink-0">&times;</button>
         </header>
 
         
+        <fieldset disabled={readOnly || !onUpdateStatus} className={readOnly ? 'opacity-60' : ''}>
+          <ToothStatusEditor toothData={toothData} onChange={handleStatusChange} />
+        </fieldset>
+
+        {periImplant && (
+          <div className="flex items-center gap-2 text-sm" title={periImplant.summary}>
+            <span className="font-semibold text-blue-300">Peri-implant:</span>
+            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold text-gray-900 ${DIAGNOSIS_CLASSES[periImplant.diagnosis]}`}>{periImplant.diagnosis}</span>
+            <span className="text-xs text-gray-400">PD ≥{PERI_IMPLANT_THRESHOLDS.pocketDepth} mm with BOP/SUP</span>
+          </div>
+        )}
+
         {/* Tabbed Data Entry Section */}
         <section>
           <div className="flex border-b border-gray-700/50">
@@ -456,9 +603,15 @@ Measurements:
               </button>
             ))}
           </div>
-          <div className="pt-4">
-            {activeSurface && <SurfaceDataEntry surface={activeSurface} toothData={toothData} onUpdate={handleUpdate} />}
-          </div>
+          <fieldset disabled={readOnly} className={`pt-4 ${readOnly ? 'opacity-60' : ''}`}>
+            {activeSurface && <SurfaceDataEntry surface={activeSurface} toothData={toothData} onUpdate={handleUpdate} showIndices={showIndices || hasScoredIndices} />}
+          </fieldset>
+          {!hasScoredIndices && (
+            <label className="flex items-center gap-2 mt-2 text-xs text-gray-400">
+              <input type="checkbox" checked={showIndices} onChange={e => setShowIndices(e.target.checked)} />
+              Score plaque and gingival indices (PlI / GI)
+            </label>
+          )}
         </section>
         
         <hr className="border-gray-700/50"/>
@@ -472,20 +625,63 @@ Measurements:
                   .map(loc => <CalDisplayBox key={loc} value={cal?.[loc]} />)}
               </div>
             </div>
+
+            {keratinizedTissue && Object.keys(keratinizedTissue).length > 0 && (
+              <div>
+                <h4 className="font-semibold text-blue-300" title={`Gingival margin to MGJ; under ${MIN_KERATINIZED_TISSUE_MM} mm is highlighted`}>Keratinized Tissue (KT)</h4>
+                <div className="grid grid-cols-6 gap-2 mt-1 text-center font-mono">
+                    {(['disto_buccal', 'mid_buccal', 'mesio_buccal', 'mesio_lingual', 'mid_lingual', 'disto_lingual'] as const)
+                    .map(loc => <KeratinizedTissueBox key={loc} value={keratinizedTissue[loc]} />)}
+                </div>
+              </div>
+            )}
+
+            {comparison && comparisonVisit && (
+              <div>
+                <h4 className="font-semibold text-blue-300">
+                  CAL change since {new Date(comparisonVisit.date).toLocaleDateString()}
+                  {comparison.isProgressing && <span className="ml-2 text-xs text-red-400">Progressing</span>}
+                </h4>
+                <div className="grid grid-cols-6 gap-2 mt-1 text-center font-mono">
+                    {(['disto_buccal', 'mid_buccal', 'mesio_buccal', 'mesio_lingual', 'mid_lingual', 'disto_lingual'] as const)
+                    .map(loc => <SiteDeltaBox key={loc} site={comparison.sites.find(s => s.location === loc)} />)}
+                </div>
+              </div>
+            )}
             
-            <div className="grid grid-cols-2 gap-4">
+            <fieldset disabled={readOnly} className={`grid grid-cols-2 gap-4 ${readOnly ? 'opacity-60' : ''}`}>
                 <div>
-                    <h4 className="font-semibold text-blue-300 mb-1">Mobility</h4>
+                    <h4 className="font-semibold text-blue-300 mb-1">Mobility (Miller)</h4>
                     <SegmentedControl options={[0,1,2,3]} value={mobility ?? 0} onChange={val => handleNonSiteUpdate(MeasurementType.MOBILITY, 'mobility', val)} />
                 </div>
+                {!isImplant && (
                 <div>
-                    <h4 className="font-semibold text-blue-300 mb-1">Furcation (B/L)</h4>
-                    <div className="flex gap-2">
-                        <SegmentedControl options={[0,1,2,3]} value={furcation?.buccal ?? 0} onChange={val => handleNonSiteUpdate(MeasurementType.FURCATION, 'furcation_buccal', val)} />
-                        <SegmentedControl options={[0,1,2,3]} value={furcation?.lingual ?? 0} onChange={val => handleNonSiteUpdate(MeasurementType.FURCATION, 'furcation_lingual', val)} />
+                    <h4 className="font-semibold text-blue-300 mb-1" title="Functional mobility felt or seen in occlusion">Fremitus</h4>
+                    <SegmentedControl options={[0,1,2,3]} value={fremitus ?? 0} format={formatFurcationClass} onChange={val => handleNonSiteUpdate(MeasurementType.FREMITUS, 'fremitus', val)} />
+                </div>
+                )}
+                {!isImplant && furcationEntrances.length > 0 && (
+                <div className="col-span-2 space-y-1">
+                    <div className="flex items-center justify-between">
+                        <h4 className="font-semibold text-blue-300">Furcation</h4>
+                        <select
+                          value={furcationSystem}
+                          onChange={e => onChangeFurcationSystem?.(e.target.value as FurcationSystem)}
+                          className="bg-gray-900 border border-gray-700 rounded-md px-2 py-0.5 text-xs"
+                          title="Classification used for furcation entries"
+                        >
+                          {FURCATION_SYSTEMS.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                        </select>
                     </div>
+                    {furcationEntrances.map(entrance => (
+                      <div key={entrance} className="grid grid-cols-[7rem_1fr] items-center gap-2">
+                        <span className="text-sm text-gray-300">{getFurcationEntranceLabel(id, entrance)}</span>
+                        <SegmentedControl options={furcationOptions} value={furcation?.[entrance] ?? 0} format={formatFurcationClass} onChange={val => handleNonSiteUpdate(MeasurementType.FURCATION, `furcation_${entrance}`, val)} />
+                      </div>
+                    ))}
                 </div>
-            </div>
+                )}
+            </fieldset>
         </section>
         
         <div className="flex gap-2 sticky bottom-0 pt-2">
@@ -497,7 +693,7 @@ Measurements:
             {isGeneratingReport ? '...' : 'AI Summary'}
           </button>
           <button
-            onClick={() => setIsChatOpen(true)}
+            onClick={onOpenChat}
             className="px-3 py-2 text-xs bg-blue-600 rounded-md hover:bg-blue-500 transition-colors"
           >
             Chat
@@ -545,8 +741,6 @@ Measurements:
         </div>
       </aside>
 
-      <ChatPanel isOpen={isChatOpen} onClose={() => setIsChatOpen(false)} toothData={toothData} />
-
       {isReportModalOpen && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
           <div className="bg-[rgba(25,30,45,0.8)] border border-[rgba(255,255,255,0.1)] rounded-2xl shadow-2xl p-6 text-white w-full max-w-xl max-h-[80vh] flex flex-col">
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { ToothTransform, getDefaultTransform, saveToothTransforms, loadToothTransforms } from '../toothModelMapping';
+import { ToothTransform, getDefaultTransform, resolveToothTransform, saveToothTransforms, loadToothTransforms } from '../toothModelMapping';
 
 interface ToothTransformControlsProps {
   toothId: number | null;
@@ -78,7 +78,7 @@ export const ToothTransformControls: React.FC<ToothTransformControlsProps> = ({
     setSavedTransforms(loaded);
     
     if (toothId !== null) {
-      setTransform(loaded[toothId] || getDefaultTransform());
+      setTransform(resolveToothTransform(toothId, loaded));
     }
   }, [toothId]);
 
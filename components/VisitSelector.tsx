@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Visit } from '../types.ts';
+import { ChartComparison } from '../services/visitComparison';
+
+interface VisitSelectorProps {
+  visits: Visit[];
+  activeVisit: Visit;
+  viewedVisit: Visit | null;
+  comparisonVisit: Visit | null;
+  comparison: ChartComparison | null;
+  onViewVisit: (visitId: string | null) => void;
+  onCompareVisit: (visitId: string | null) => void;
+  onStartNewVisit: (examiner: string) => void;
+}
+
+const formatVisitLabel = (visit: Visit) => {
+  const date = new Date(visit.date).toLocaleDateString();
+  return `${date} · ${visit.examiner}${visit.status === 'open' ? ' (current)' : ''}`;
+};
+
+export const VisitSelector: React.FC<VisitSelectorProps> = ({ visits, activeVisit, viewedVisit, comparisonVisit, comparison, onViewVisit, onCompareVisit, onStartNewVisit }) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [examiner, setExaminer] = useState('');
+
+  const handleStart = () => {
+    const name = examiner.trim();
+    if (!name) return;
+    onStartNewVisit(name);
+    setExaminer('');
+    setIsCreating(false);
+  };
+
+  const displayedVisitId = viewedVisit?.id || activeVisit.id;
+  const baselineOptions = visits.filter(v => v.id !== displayedVisitId);
+
+  return (
+    <div className="flex flex-col gap-2 text-xs text-slate-300">
+      <div className="flex items-center gap-2">
+        <span className="font-semibold text-blue-300">Visit</span>
+        <select
+          value={displayedVisitId}
+          onChange={e => onViewVisit(e.target.value)}
+          className="bg-gray-800/80 border border-gray-600 rounded-md px-2 py-1 text-slate-200 outline-none focus:border-blue-500"
+        >
+          {visits.map(visit => (
+            <option key={visit.id} value={visit.id}>{formatVisitLabel(visit)}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => setIsCreating(prev => !prev)}
+          className="px-2 py-1 rounded-md bg-blue-600/80 hover:bg-blue-500 text-white transition-colors"
+        >
+          New Visit
+        </button>
+      </div>
+
+      {baselineOptions.length > 0 && (
+        <div className="flex items-center gap-2">
+          <span className="font-semibold text-blue-300">Compare</span>
+          <select
+            value={comparisonVisit?.id || ''}
+            onChange={e => onCompareVisit(e.target.value || null)}
+            className="bg-gray-800/80 border border-gray-600 rounded-md px-2 py-1 text-slate-200 outline-none focus:border-blue-500"
+          >
+            <option value="">None</option>
+            {baselineOptions.map(visit => (
+              <option key={visit.id} value={visit.id}>{formatVisitLabel(visit)}</option>
+            ))}
+          </select>
+          {comparison && (
+            <span>
+              <span className="text-red-400 font-semibold">{comparison.progressingSites} progressing</span>
+              {' · '}
+              <span className="text-green-400 font-semibold">{comparison.improvedSites} improved</span>
+            </span>
+          )}
+        </div>
+      )}
+
+      {viewedVisit && (
+        <div className="flex items-center gap-2">
+          <span className="px-2 py-0.5 rounded-full bg-amber-500/80 text-gray-900 font-semibold">Read-only</span>
+          <button onClick={() => onViewVisit(null)} className="underline hover:text-white">Back to current visit</button>
+        </div>
+      )}
+
+      {isCreating && (
+        <div className="flex items-center gap-2">
+          <input
+            value={examiner}
+            onChange={e => setExaminer(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') handleStart(); }}
+            placeholder="Examiner"
+            className="bg-gray-800/80 border border-gray-600 rounded-md px-2 py-1 text-slate-200 outline-none focus:border-blue-500"
+          />
+          <button
+            onClick={handleStart}
+            disabled={!examiner.trim()}
+            className="px-2 py-1 rounded-md bg-green-600/80 hover:bg-green-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white transition-colors"
+          >
+            Start (seeded from last)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VisitSelector;
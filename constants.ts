@@ -1,5 +1,9 @@
 
-import { ToothData, MeasurementType } from './types.ts';
+import { ToothData, MeasurementType, MeasurementLocation, Dentition } from './types.ts';
+import { quadrantToUniversal, PERMANENT_TOOTH_IDS, PRIMARY_TOOTH_IDS } from './toothNumbering.ts';
+
+// The six probing sites, in chart order
+export const MEASUREMENT_LOCATIONS: MeasurementLocation[] = ['disto_buccal', 'mid_buccal', 'mesio_buccal', 'disto_lingual', 'mid_lingual', 'mesio_lingual'];
 
 // --- New Position Generation Logic ---
 const ARCH_RADIUS_UPPER = 5.0;
@@ -63,122 +67,101 @@ for (let i = 0; i < 8; i++) {
     };
 }
 
+// Primary teeth (33-52) stand where their successors erupt, so primary and
+// permanent teeth line up in a mixed dentition
+for (let quadrant = 5; quadrant <= 8; quadrant++) {
+    for (let toothInQuadrant = 1; toothInQuadrant <= 5; toothInQuadrant++) {
+        positions[quadrantToUniversal(quadrant, toothInQuadrant)!] = positions[quadrantToUniversal(quadrant - 4, toothInQuadrant)!];
+    }
+}
+
 export const TOOTH_POSITIONS = positions;
 
+// Primary crowns are roughly three quarters the size of permanent ones
+export const PRIMARY_TOOTH_SCALE = 0.75;
 
-// More detailed sample data for the Digital Twin
-export const INITIAL_CHART_DATA: ToothData[] = Array.from({ length: 32 }, (_, i) => {
-    const id = i + 1;
-    const tooth: ToothData = {
-        id: id,
-        measurements: {
-            [MeasurementType.POCKET_DEPTH]: {
-                disto_buccal: 0,
-                mid_buccal: 0,
-                mesio_buccal: 0,
-                disto_lingual: 0,
-                mid_lingual: 0,
-                mesio_lingual: 0
-            },
-            [MeasurementType.RECESSION]: {
-                disto_buccal: 0,
-                mid_buccal: 0,
-                mesio_buccal: 0,
-                disto_lingual: 0,
-                mid_lingual: 0,
-                mesio_lingual: 0
-            },
-            [MeasurementType.BLEEDING]: {
-                disto_buccal: false,
-                mid_buccal: false,
-                mesio_buccal: false,
-                disto_lingual: false,
-                mid_lingual: false,
-                mesio_lingual: false
-            },
-            [MeasurementType.PLAQUE]: {
-                disto_buccal: false,
-                mid_buccal: false,
-                mesio_buccal: false,
-                disto_lingual: false,
-                mid_lingual: false,
-                mesio_lingual: false
-            },
+// Early mixed dentition: permanent incisors and first molars, primary canines and molars
+const MIXED_TOOTH_IDS = [
+    ...[1, 2, 3, 4].flatMap(quadrant => [1, 2, 6].map(tooth => quadrantToUniversal(quadrant, tooth)!)),
+    ...[5, 6, 7, 8].flatMap(quadrant => [3, 4, 5].map(tooth => quadrantToUniversal(quadrant, tooth)!)),
+].sort((a, b) => a - b);
+
+export const DENTITION_TOOTH_IDS: Record<Dentition, number[]> = {
+    permanent: PERMANENT_TOOTH_IDS,
+    mixed: MIXED_TOOTH_IDS,
+    primary: PRIMARY_TOOTH_IDS,
+};
+
+export const DENTITIONS: Array<{ value: Dentition; label: string }> = [
+    { value: 'permanent', label: 'Permanent' },
+    { value: 'mixed', label: 'Mixed' },
+    { value: 'primary', label: 'Primary' },
+];
+
+
+// A tooth with every site zeroed
+export const createEmptyTooth = (id: number): ToothData => ({
+    id: id,
+    measurements: {
+        [MeasurementType.POCKET_DEPTH]: {
+            disto_buccal: 0,
+            mid_buccal: 0,
+            mesio_buccal: 0,
+            disto_lingual: 0,
+            mid_lingual: 0,
+            mesio_lingual: 0
         },
-    };
+        [MeasurementType.RECESSION]: {
+            disto_buccal: 0,
+            mid_buccal: 0,
+            mesio_buccal: 0,
+            disto_lingual: 0,
+            mid_lingual: 0,
+            mesio_lingual: 0
+        },
+        [MeasurementType.BLEEDING]: {
+            disto_buccal: false,
+            mid_buccal: false,
+            mesio_buccal: false,
+            disto_lingual: false,
+            mid_lingual: false,
+            mesio_lingual: false
+        },
+        [MeasurementType.PLAQUE]: {
+            disto_buccal: false,
+            mid_buccal: false,
+            mesio_buccal: false,
+            disto_lingual: false,
+            mid_lingual: false,
+            mesio_lingual: false
+        },
+    },
+});
+
+// More detailed sample data for the Digital Twin
+export const INITIAL_CHART_DATA: ToothData[] = PERMANENT_TOOTH_IDS.map(id => {
+    const tooth = createEmptyTooth(id);
 
     // All teeth start with zero measurements (0 0 0 for PD and Recession)
     // Data will be populated from the database sync after 2 seconds
     
     // Mark some teeth as missing
     if (id === 1 || id === 16 || id === 17 || id === 32) {
-        tooth.isMissing = true;
+        tooth.status = 'missing';
     }
     
     return tooth;
 });
 
-export const getToothType = (id: number): 'molar' | 'premolar' | 'canine' | 'incisor' => {
-  const toothNumInQuad = (id - 1) % 8; // 0 to 7
-  const toothPos = (id <= 16) ? toothNumInQuad : 7 - toothNumInQuad; // 0=molar, 7=incisor for upper; reverse for lower
-  if (id > 8 && id < 17) { // Q2
-      if ([0,1,2].includes(toothNumInQuad)) return 'molar';
-      if ([3,4].includes(toothNumInQuad)) return 'premolar';
-      if ([5].includes(toothNumInQuad)) return 'canine';
-      return 'incisor';
-  }
-   if (id > 24 && id <= 32) { // Q3
-      if ([0,1,2].includes(toothNumInQuad)) return 'molar';
-      if ([3,4].includes(toothNumInQuad)) return 'premolar';
-      if ([5].includes(toothNumInQuad)) return 'canine';
-      return 'incisor';
-  }
-
-  // Q1 and Q4 are reversed
-  if ([0, 1, 2].includes(toothPos)) return 'incisor';
-  if (toothPos === 3) return 'canine';
-  if ([4, 5].includes(toothPos)) return 'premolar';
-  return 'molar';
-};
-
 /**
- * Converts quadrant-based notation to the Universal Numbering System (1-32).
- * Follows the user-specified quadrant system (from viewer's perspective):
- * Q1: Top-Left (Patient's UR)
- * Q2: Top-Right (Patient's UL)
- * Q3: Bottom-Left (Patient's LR)
- * Q4: Bottom-Right (Patient's LL)
- * In all quadrants, tooth 1 is the central incisor, 8 is the 3rd molar.
+ * Starting chart for a dentition
  */
-export const getUniversalToothId = (quadrant: number, toothInQuad: number): number | null => {
-    if (quadrant < 1 || quadrant > 4 || toothInQuad < 1 || toothInQuad > 8) return null;
-    switch (quadrant) {
-        case 1: return 9 - toothInQuad;   // Q1 (Top-Left): T1=8, T2=7... T8=1
-        case 2: return 8 + toothInQuad;   // Q2 (Top-Right): T1=9, T2=10... T8=16
-        case 3: return 24 + toothInQuad;  // Q3 (Bottom-Left): T1=25, T2=26... T8=32
-        case 4: return 25 - toothInQuad;  // Q4 (Bottom-Right): T1=24, T2=23... T8=17
-        default: return null;
-    }
-};
+export const createChartData = (dentition: Dentition): ToothData[] =>
+    dentition === 'permanent' ? INITIAL_CHART_DATA : DENTITION_TOOTH_IDS[dentition].map(createEmptyTooth);
 
 /**
- * Converts a Universal Tooth ID (1-32) to its Palmer Quadrant notation.
- * Returns the quadrant (1-4, viewer's perspective) and tooth number (1-8 from midline).
+ * Re-shape a chart to a dentition: teeth in both keep their data, teeth that
+ * erupt start empty, the rest are dropped
  */
-export const getPalmerNotation = (universalId: number): { quadrant: number; toothInQuad: number } | null => {
-    if (universalId < 1 || universalId > 32) return null;
-
-    if (universalId >= 1 && universalId <= 8) { // Quadrant 1 (UR)
-        return { quadrant: 1, toothInQuad: 9 - universalId };
-    }
-    if (universalId >= 9 && universalId <= 16) { // Quadrant 2 (UL)
-        return { quadrant: 2, toothInQuad: universalId - 8 };
-    }
-    if (universalId >= 17 && universalId <= 24) { // Quadrant 4 (LL)
-        return { quadrant: 4, toothInQuad: 25 - universalId };
-    }
-    if (universalId >= 25 && universalId <= 32) { // Quadrant 3 (LR)
-        return { quadrant: 3, toothInQuad: universalId - 24 };
-    }
-    return null; // Should be unreachable
-};
+export const applyDentition = (teeth: ToothData[], dentition: Dentition): ToothData[] =>
+    DENTITION_TOOTH_IDS[dentition].map(id => teeth.find(t => t.id === id) || createEmptyTooth(id));
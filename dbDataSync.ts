@@ -1,4 +1,5 @@
-import { MeasurementType, MeasurementLocation, MeasurementSiteValue } from './types';
+import { MeasurementType, MeasurementLocation, MeasurementSiteValue, NonSiteLocation, FurcationEntrance } from './types';
+import { quadrantToUniversal, universalToQuadrant } from './toothNumbering';
 
 export interface DbMeasurement {
   id: string;
@@ -7,31 +8,70 @@ export interface DbMeasurement {
   session_id: string;
   type: string;
   quadrant: number;
-  surface: string;
+  surface: string | null;
   tooth_in_quadrant: number;
   distal: number | null;
   middle: number | null;
   mesial: number | null;
-  value?: boolean | null;  // For bleeding/plaque
+  site?: string | null;    // Single-site rows: "=mesial", "=distobuccal"; furcation entrance
+  grade?: number | string | null; // Mobility, fremitus and furcation grade
+  present?: boolean | null; // Yes/no findings (bleeding, plaque, suppuration)
+  value?: number | boolean | null; // Single-site value
+  details?: string | null; // Free-text note from the voice agent
   created_at: string;
 }
 
+// Which rows of clinical_observations belong on the chart
+export interface ObservationQuery {
+  patientId: string;
+  visitId?: string | null; // the visit whose snapshot the rows are saved into; null or omitted: every visit
+  sessionId?: string | null; // null or omitted: every session of the patient
+  since?: string; // only rows created after this timestamp
+  sinceId?: string; // with since: also rows at that timestamp whose id sorts after this one
+}
+
+// One recording session of the voice agent
+export interface ObservationSession {
+  sessionId: string;
+  visitId: string;
+  startedAt: string;
+  observationCount: number;
+}
+
 /**
- * Convert quadrant (1-4) and tooth_in_quadrant (1-8) to universal tooth number (1-32)
+ * Strip the '=' prefix the voice agent writes in front of text columns
  */
-export const getUniversalToothNumber = (quadrant: number, toothInQuadrant: number): number => {
-  // Quadrant 1 (upper right): teeth 1-8
-  // Quadrant 2 (upper left): teeth 9-16
-  // Quadrant 3 (lower left): teeth 17-24
-  // Quadrant 4 (lower right): teeth 25-32
-  
-  switch (quadrant) {
-    case 1: return 9 - toothInQuadrant;        // Q1: tooth 1 → #8, tooth 8 → #1
-    case 2: return 8 + toothInQuadrant;        // Q2: tooth 1 → #9, tooth 8 → #16
-    case 3: return 25 - toothInQuadrant;       // Q3: tooth 1 → #24, tooth 8 → #17
-    case 4: return 24 + toothInQuadrant;       // Q4: tooth 1 → #25, tooth 8 → #32
-    default: return -1;
-  }
+export const cleanDbValue = (value: string | null | undefined): string => (value || '').replace(/^=/, '');
+
+/**
+ * Check whether a row falls inside the query scope. Used for the local JSON
+ * source and as a guard on rows returned by the API.
+ */
+export const matchesObservationQuery = (row: DbMeasurement, query: ObservationQuery): boolean => {
+  if (cleanDbValue(row.patient_id) !== cleanDbValue(query.patientId)) return false;
+  if (query.visitId && cleanDbValue(row.visit_id) !== cleanDbValue(query.visitId)) return false;
+  if (query.sessionId && cleanDbValue(row.session_id) !== cleanDbValue(query.sessionId)) return false;
+  if (query.since && !(row.created_at > query.since || (query.sinceId !== undefined && row.created_at === query.since && row.id > query.sinceId))) return false;
+  return true;
+};
+
+/**
+ * Group rows by session, newest session first
+ */
+export const summarizeSessions = (rows: Array<Pick<DbMeasurement, 'session_id' | 'visit_id' | 'created_at'>>): ObservationSession[] => {
+  const sessions = new Map<string, ObservationSession>();
+  rows.forEach(row => {
+    const sessionId = cleanDbValue(row.session_id);
+    if (!sessionId) return;
+    const existing = sessions.get(sessionId);
+    if (existing) {
+      existing.observationCount++;
+      if (row.created_at < existing.startedAt) existing.startedAt = row.created_at;
+    } else {
+      sessions.set(sessionId, { sessionId, visitId: cleanDbValue(row.visit_id), startedAt: row.created_at, observationCount: 1 });
+    }
+  });
+  return Array.from(sessions.values()).sort((a, b) => b.startedAt.localeCompare(a.startedAt));
 };
 
 /**
@@ -51,6 +91,30 @@ export const mapDbTypeToMeasurementType = (dbType: string): MeasurementType | nu
       return MeasurementType.BLEEDING;
     case 'plaque':
       return MeasurementType.PLAQUE;
+    case 'mobility':
+      return MeasurementType.MOBILITY;
+    case 'fremitus':
+      return MeasurementType.FREMITUS;
+    case 'gingivalmargin':
+    case 'gingival_margin':
+      return MeasurementType.GINGIVAL_MARGIN;
+    case 'plaqueindex':
+    case 'plaque_index':
+    case 'pli':
+      return MeasurementType.PLAQUE_INDEX;
+    case 'gingivalindex':
+    case 'gingival_index':
+    case 'gi':
+      return MeasurementType.GINGIVAL_INDEX;
+    case 'mgj':
+    case 'mucogingivaljunction':
+    case 'mucogingival_junction':
+      return MeasurementType.MUCOGINGIVAL_JUNCTION;
+    case 'furcation':
+      return MeasurementType.FURCATION;
+    case 'suppuration':
+    case 'pus':
+      return MeasurementType.SUPPURATION;
     default:
       return null;
   }
@@ -68,88 +132,324 @@ export const mapDbSurfaceToLocation = (surface: string, site: 'distal' | 'middle
   return `${prefix}_${suffix}` as MeasurementLocation;
 };
 
+export type DbSite = 'distal' | 'middle' | 'mesial';
+
 /**
- * Process database measurements and return structured updates
+ * Parse the `site` column of a single-site row. Accepts a bare site
+ * ("mesial", "mid") or a combined site that also names the surface
+ * ("distobuccal", "mesio_palatal"); palatal is charted as lingual.
  */
-export const processDbMeasurements = (measurements: DbMeasurement[]) => {
-  const updates: Array<{
-    toothId: number;
-    location: MeasurementLocation;
-    type: MeasurementType;
-    value: MeasurementSiteValue;
-  }> = [];
-  
+export const parseDbSite = (site: string): { site: DbSite; surface?: 'buccal' | 'lingual' } | null => {
+  const clean = cleanDbValue(site).toLowerCase().replace(/[^a-z]/g, '');
+  const match = /^(distal|disto|middle|mid|central|mesial|mesio)(buccal|facial|lingual|palatal)?$/.exec(clean);
+  if (!match) return null;
+  const parsedSite: DbSite = match[1].startsWith('dist') ? 'distal' : match[1].startsWith('mes') ? 'mesial' : 'middle';
+  const surface = !match[2] ? undefined : match[2] === 'buccal' || match[2] === 'facial' ? 'buccal' : 'lingual';
+  return { site: parsedSite, surface };
+};
+
+/**
+ * Parse the `grade` column: a number, "2", "F2", "II", "Class III" or Glickman "IV"
+ */
+export const parseDbGrade = (grade: number | string | null | undefined): number | null => {
+  if (grade === null || grade === undefined) return null;
+  if (typeof grade === 'number') return Number.isFinite(grade) ? grade : null;
+  const clean = cleanDbValue(grade).trim().toUpperCase().replace(/^(GRADE|CLASS|F|M)\s*/, '');
+  const roman: Record<string, number> = { '0': 0, I: 1, II: 2, III: 3, IV: 4 };
+  if (clean in roman) return roman[clean];
+  const parsed = parseFloat(clean);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Map the furcation entrance named by `site` (or `surface`) to a FurcationEntrance
+ */
+export const parseFurcationEntrance = (site: string | null | undefined, surface: string | null | undefined): FurcationEntrance | null => {
+  const clean = cleanDbValue(site || surface).toLowerCase().replace(/[^a-z]/g, '');
+  if (clean.startsWith('buccal') || clean.startsWith('facial')) return 'buccal';
+  if (clean.startsWith('lingual') || clean.startsWith('palatal')) return 'lingual';
+  if (clean.startsWith('mesi')) return 'mesial';
+  if (clean.startsWith('dist')) return 'distal';
+  return null;
+};
+
+// Who is editing the chart; written into the row's scoping columns
+export interface ObservationWriteContext {
+  patientId: string;
+  visitId: string;
+  sessionId: string;
+}
+
+/**
+ * Map MeasurementType to the database type string (the voice agent's '=' format)
+ */
+export const mapMeasurementTypeToDbType = (type: MeasurementType): string => {
+  switch (type) {
+    case MeasurementType.POCKET_DEPTH: return '=pocketDepth';
+    case MeasurementType.RECESSION: return '=recession';
+    case MeasurementType.BLEEDING: return '=bleeding';
+    case MeasurementType.PLAQUE: return '=plaque';
+    case MeasurementType.MOBILITY: return '=mobility';
+    case MeasurementType.FURCATION: return '=furcation';
+    case MeasurementType.FREMITUS: return '=fremitus';
+    case MeasurementType.GINGIVAL_MARGIN: return '=gingivalMargin';
+    case MeasurementType.MUCOGINGIVAL_JUNCTION: return '=mucogingivalJunction';
+    case MeasurementType.PLAQUE_INDEX: return '=plaqueIndex';
+    case MeasurementType.GINGIVAL_INDEX: return '=gingivalIndex';
+    case MeasurementType.SUPPURATION: return '=suppuration';
+  }
+};
+
+/**
+ * Map a MeasurementLocation back to database surface and site
+ */
+export const mapLocationToDbSurface = (location: string): { surface: string; site: DbSite } | null => {
+  const match = /^(disto|mid|mesio)_(buccal|lingual)$/.exec(location);
+  if (!match) return null;
+  const site: DbSite = match[1] === 'disto' ? 'distal' : match[1] === 'mid' ? 'middle' : 'mesial';
+  return { surface: `=${match[2]}`, site };
+};
+
+/**
+ * Inverse of processDbMeasurements for a single update. Site measurements
+ * fill in only the edited site, so the row never restates sibling sites the
+ * clinician did not touch; mobility and furcation are written as a `grade`
+ * (furcation with the entrance in `site`). Returns null for updates that
+ * have no database representation.
+ */
+export const buildDbMeasurement = (
+  update: { toothId: number; location: string; type: MeasurementType; value: MeasurementSiteValue },
+  context: ObservationWriteContext,
+  id: string,
+  createdAt: string
+): DbMeasurement | null => {
+  const position = universalToQuadrant(update.toothId);
+  if (!position) return null;
+
+  const row: DbMeasurement = {
+    id,
+    patient_id: `=${cleanDbValue(context.patientId)}`,
+    visit_id: `=${cleanDbValue(context.visitId)}`,
+    session_id: `=${cleanDbValue(context.sessionId)}`,
+    type: mapMeasurementTypeToDbType(update.type),
+    quadrant: position.quadrant,
+    tooth_in_quadrant: position.toothInQuadrant,
+    surface: null,
+    distal: null,
+    middle: null,
+    mesial: null,
+    created_at: createdAt,
+  };
+
+  if (update.type === MeasurementType.MOBILITY || update.type === MeasurementType.FREMITUS) {
+    return { ...row, grade: Number(update.value) };
+  }
+  if (update.type === MeasurementType.FURCATION) {
+    const entrance = update.location.replace(/^furcation_/, '');
+    return { ...row, site: `=${entrance}`, grade: Number(update.value) };
+  }
+
+  const placement = mapLocationToDbSurface(update.location);
+  if (!placement) return null;
+  const siteValue = typeof update.value === 'boolean' ? (update.value ? 1 : 0) : update.value;
+  return { ...row, surface: placement.surface, [placement.site]: siteValue };
+};
+
+export interface DbMeasurementUpdate {
+  toothId: number;
+  location: MeasurementLocation | NonSiteLocation;
+  type: MeasurementType;
+  value: MeasurementSiteValue;
+  rowId: string;
+  sessionId: string;
+  createdAt: string;
+}
+
+// A row, or part of one, that could not be charted
+export interface SyncDiagnostic {
+  rowId: string;
+  createdAt: string;
+  level: 'warning' | 'info';
+  message: string;
+}
+
+const BOOLEAN_TYPES = new Set([MeasurementType.BLEEDING, MeasurementType.PLAQUE, MeasurementType.SUPPURATION]);
+
+/**
+ * Value of a single-site row: `value` first, then `present` for yes/no
+ * findings, then `grade`
+ */
+const singleSiteValue = (measurement: DbMeasurement, isBoolean: boolean): MeasurementSiteValue | null => {
+  const { value, present, grade } = measurement;
+  if (isBoolean) {
+    if (typeof present === 'boolean') return present;
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'number') return value > 0;
+    return null;
+  }
+  if (typeof value === 'number') return value;
+  return parseDbGrade(grade);
+};
+
+/**
+ * Process database measurements and return structured updates.
+ * Rows outside the optional query scope are skipped; rows that are in scope
+ * but cannot be charted are reported in `diagnostics` instead of dropped
+ * silently.
+ */
+export const processDbMeasurements = (measurements: DbMeasurement[], scope?: ObservationQuery) => {
+  const updates: DbMeasurementUpdate[] = [];
+  const diagnostics: SyncDiagnostic[] = [];
   const updatedTeethIds = new Set<number>();
   
   measurements.forEach(measurement => {
-    const { quadrant, tooth_in_quadrant, surface, type, distal, middle, mesial, value } = measurement;
-    
-    // Get universal tooth number
-    const toothId = getUniversalToothNumber(quadrant, tooth_in_quadrant);
-    if (toothId === -1) return;
+    if (scope && !matchesObservationQuery(measurement, scope)) return;
+
+    const { quadrant, tooth_in_quadrant, surface, type, distal, middle, mesial, site, details } = measurement;
+    const report = (level: SyncDiagnostic['level'], message: string) => {
+      diagnostics.push({ rowId: measurement.id, createdAt: measurement.created_at, level, message });
+    };
+    const push = (toothId: number, location: MeasurementLocation | NonSiteLocation, measurementType: MeasurementType, value: MeasurementSiteValue) => {
+      updates.push({
+        toothId,
+        location,
+        type: measurementType,
+        value,
+        rowId: measurement.id,
+        sessionId: cleanDbValue(measurement.session_id),
+        createdAt: measurement.created_at,
+      });
+      updatedTeethIds.add(toothId);
+    };
+
+    // quadrant / tooth_in_quadrant are FDI; the chart is keyed by Universal number
+    const toothId = quadrantToUniversal(quadrant, tooth_in_quadrant);
+    if (toothId === null) {
+      report('warning', `Invalid tooth position Q${quadrant} T${tooth_in_quadrant} (${cleanDbValue(type) || 'no type'})`);
+      return;
+    }
     
     // Map measurement type
-    const measurementType = mapDbTypeToMeasurementType(type);
-    if (!measurementType) return;
-    
-    // Track which teeth are being updated
-    updatedTeethIds.add(toothId);
-    
-    // For bleeding/plaque, if there's a boolean value field, use it
-    // Otherwise use the numeric values
-    const isBoolean = measurementType === MeasurementType.BLEEDING || measurementType === MeasurementType.PLAQUE;
+    const measurementType = mapDbTypeToMeasurementType(type || '');
+    if (!measurementType) {
+      report('warning', `Unknown observation type "${cleanDbValue(type)}" on #${toothId}`);
+      return;
+    }
+
+    if (details) report('info', `#${toothId} ${measurementType}: ${cleanDbValue(details)}`);
+
+    // Tooth-level findings carry a grade
+    if (measurementType === MeasurementType.MOBILITY || measurementType === MeasurementType.FREMITUS) {
+      const grade = parseDbGrade(measurement.grade ?? (typeof measurement.value === 'number' ? measurement.value : null));
+      if (grade === null || grade < 0 || grade > 3) {
+        report('warning', `${measurementType} on #${toothId} needs a grade 0-3 (got ${measurement.grade ?? measurement.value ?? 'none'})`);
+        return;
+      }
+      push(toothId, measurementType === MeasurementType.MOBILITY ? 'mobility' : 'fremitus', measurementType, grade);
+      return;
+    }
+    if (measurementType === MeasurementType.FURCATION) {
+      const entrance = parseFurcationEntrance(site, surface);
+      const grade = parseDbGrade(measurement.grade ?? (typeof measurement.value === 'number' ? measurement.value : null));
+      if (!entrance) {
+        report('warning', `Furcation on #${toothId} has no entrance (site "${cleanDbValue(site)}", surface "${cleanDbValue(surface)}")`);
+        return;
+      }
+      // Class IV is Glickman's through-and-through furcation
+      if (grade === null || grade < 0 || grade > 4) {
+        report('warning', `Furcation ${entrance} on #${toothId} needs a grade 0-4 (got ${measurement.grade ?? measurement.value ?? 'none'})`);
+        return;
+      }
+      push(toothId, `furcation_${entrance}`, measurementType, grade);
+      return;
+    }
     
+    // For bleeding/plaque/suppuration, values > 0 mean present
+    const isBoolean = BOOLEAN_TYPES.has(measurementType);
+    const toSiteValue = (siteValue: number | boolean): MeasurementSiteValue =>
+      isBoolean ? (typeof siteValue === 'boolean' ? siteValue : siteValue > 0) : Number(siteValue);
+
+    // Single-site observation: `site` names the site, `value`/`present`/`grade` the finding
+    if (site) {
+      const parsed = parseDbSite(site);
+      if (!parsed) {
+        report('warning', `Unknown site "${cleanDbValue(site)}" for ${measurementType} on #${toothId}`);
+        return;
+      }
+      const siteValue = singleSiteValue(measurement, isBoolean);
+      if (siteValue === null) {
+        report('warning', `No value for ${measurementType} at #${toothId} ${parsed.site}`);
+        return;
+      }
+      push(toothId, mapDbSurfaceToLocation(parsed.surface || surface || '', parsed.site), measurementType, toSiteValue(siteValue));
+      return;
+    }
+
     // Process distal, middle, mesial sites
-    const sites: Array<{ site: 'distal' | 'middle' | 'mesial'; value: number | null }> = [
+    const sites: Array<{ site: DbSite; value: number | null }> = [
       { site: 'distal', value: distal },
       { site: 'middle', value: middle },
       { site: 'mesial', value: mesial },
     ];
+    const filled = sites.filter(s => s.value !== null && s.value !== undefined);
+
+    // Whole-surface yes/no row without per-site values, e.g. present=true for the buccal surface
+    if (filled.length === 0) {
+      const surfaceValue = isBoolean ? singleSiteValue(measurement, true) : null;
+      if (surfaceValue === null) {
+        report('warning', `No values for ${measurementType} on #${toothId}`);
+        return;
+      }
+      sites.forEach(({ site: dbSite }) => push(toothId, mapDbSurfaceToLocation(surface || '', dbSite), measurementType, surfaceValue));
+      return;
+    }
     
-    sites.forEach(({ site, value: siteValue }) => {
-      if (siteValue === null) return;
-      
-      const location = mapDbSurfaceToLocation(surface, site);
-      
-      // For bleeding/plaque, convert to boolean (value > 0 means true)
-      const finalValue: MeasurementSiteValue = isBoolean ? siteValue > 0 : siteValue;
-      
-      updates.push({
-        toothId,
-        location,
-        type: measurementType,
-        value: finalValue,
-      });
+    filled.forEach(({ site: dbSite, value: siteValue }) => {
+      push(toothId, mapDbSurfaceToLocation(surface || '', dbSite), measurementType, toSiteValue(siteValue as number));
     });
   });
   
-  return { updates, updatedTeethIds: Array.from(updatedTeethIds) };
+  return { updates, updatedTeethIds: Array.from(updatedTeethIds), diagnostics };
 };
 
 /**
- * Fetch measurements from the database
+ * Fetch measurements in the query scope, oldest first
  * Can use either Supabase API or local JSON file for testing
+ * Resolves to null when the source could not be reached (offline)
  */
-export const fetchDbMeasurements = async (source: 'supabase' | 'local' = 'supabase', filename: string = '/test.json'): Promise<DbMeasurement[]> => {
+export const fetchDbMeasurements = async (query: ObservationQuery, source: 'supabase' | 'local' = 'supabase', filename: string = '/test.json'): Promise<DbMeasurement[] | null> => {
   try {
     if (source === 'supabase') {
       // Import dynamically to avoid circular dependencies
       const { fetchClinicalObservations } = await import('./supabaseConfig');
-      const data = await fetchClinicalObservations();
+      const data = await fetchClinicalObservations(query);
       return data;
     } else {
       // Fallback to local JSON file for testing
       const response = await fetch(filename);
       if (!response.ok) {
         console.warn(`Failed to fetch ${filename}:`, response.statusText);
-        return [];
+        return null;
       }
-      const data = await response.json();
-      return Array.isArray(data) ? data : [];
+      const data: DbMeasurement[] = await response.json();
+      return Array.isArray(data)
+        ? data.filter(row => matchesObservationQuery(row, query)).sort((a, b) => a.created_at.localeCompare(b.created_at))
+        : [];
     }
   } catch (error) {
     console.error('Error fetching database measurements:', error);
-    return [];
+    return null;
+  }
+};
+
+/**
+ * List the recording sessions stored for a patient
+ */
+export const fetchDbSessions = async (patientId: string, source: 'supabase' | 'local' = 'supabase', filename: string = '/test.json'): Promise<ObservationSession[]> => {
+  if (source === 'supabase') {
+    const { fetchObservationSessions } = await import('./supabaseConfig');
+    return summarizeSessions(await fetchObservationSessions(patientId) || []);
   }
+  return summarizeSessions(await fetchDbMeasurements({ patientId }, 'local', filename) || []);
 };
 
@@ -0,0 +1,93 @@
+/**
+ * Furcation anatomy and classes - which entrances a tooth has and how the
+ * classes recorded there are read.
+ *   maxillary molars     buccal, mesial and distal (probed from the palate)
+ *   mandibular molars    buccal and lingual
+ *   maxillary first premolars  mesial and distal (buccal and palatal root)
+ * Classes are recorded in Hamp (I-III, horizontal loss) or Glickman (I-IV);
+ * staging and risk read them on the Hamp scale.
+ */
+
+import { ToothData, FurcationEntrance, FurcationSystem } from './types';
+import { getToothType, isUpperArch, isPrimaryTooth, universalToQuadrant } from './toothNumbering';
+
+export const FURCATION_SYSTEMS: Array<{ value: FurcationSystem; label: string; maxClass: number }> = [
+  { value: 'hamp', label: 'Hamp (I-III)', maxClass: 3 },
+  { value: 'glickman', label: 'Glickman (I-IV)', maxClass: 4 },
+];
+
+export const DEFAULT_FURCATION_SYSTEM: FurcationSystem = 'hamp';
+
+const ROMAN = ['0', 'I', 'II', 'III', 'IV'];
+
+/**
+ * Furcation entrances of a tooth, in chart order; empty for single-rooted teeth
+ */
+export const getFurcationEntrances = (toothId: number): FurcationEntrance[] => {
+  const upper = isUpperArch(toothId);
+  if (getToothType(toothId) === 'molar') return upper ? ['buccal', 'mesial', 'distal'] : ['buccal', 'lingual'];
+  if (upper && !isPrimaryTooth(toothId) && universalToQuadrant(toothId)?.toothInQuadrant === 4) return ['mesial', 'distal'];
+  return [];
+};
+
+/**
+ * Entrance name as charted, e.g. "Mesio-palatal" on an upper molar
+ */
+export const getFurcationEntranceLabel = (toothId: number, entrance: FurcationEntrance): string => {
+  if (entrance === 'buccal') return 'Buccal';
+  if (entrance === 'lingual') return 'Lingual';
+  const palatal = isUpperArch(toothId) && getToothType(toothId) === 'molar';
+  if (entrance === 'mesial') return palatal ? 'Mesio-palatal' : 'Mesial';
+  return palatal ? 'Disto-palatal' : 'Distal';
+};
+
+export const getFurcationSystem = (tooth: ToothData): FurcationSystem =>
+  tooth.furcationSystem ?? DEFAULT_FURCATION_SYSTEM;
+
+export const getMaxFurcationClassFor = (system: FurcationSystem): number =>
+  FURCATION_SYSTEMS.find(s => s.value === system)?.maxClass ?? 3;
+
+/**
+ * Class on the Hamp scale; Glickman IV (through-and-through, exposed) reads as Hamp III
+ */
+export const toHampClass = (grade: number, system: FurcationSystem): number =>
+  system === 'glickman' ? Math.min(grade, 3) : grade;
+
+/**
+ * Re-read recorded classes in another system; only Glickman IV has no Hamp equivalent
+ */
+export const convertFurcation = (
+  furcation: ToothData['furcation'],
+  from: FurcationSystem,
+  to: FurcationSystem
+): ToothData['furcation'] => {
+  if (!furcation || from === to) return furcation;
+  const converted: NonNullable<ToothData['furcation']> = {};
+  (Object.keys(furcation) as FurcationEntrance[]).forEach(entrance => {
+    const grade = furcation[entrance];
+    if (grade !== undefined) converted[entrance] = to === 'hamp' ? toHampClass(grade, from) : grade;
+  });
+  return converted;
+};
+
+/**
+ * Worst furcation class of a tooth on the Hamp scale
+ */
+export const getMaxFurcationClass = (tooth: ToothData): number => {
+  const system = getFurcationSystem(tooth);
+  return Math.max(0, ...Object.values(tooth.furcation || {}).map(grade => toHampClass(grade || 0, system)));
+};
+
+export const formatFurcationClass = (grade: number): string => ROMAN[grade] ?? String(grade);
+
+/**
+ * Summary for prompts and reports, e.g. "Buccal II, Mesio-palatal I (Hamp)"
+ */
+export const describeFurcation = (tooth: ToothData): string => {
+  const involved = (Object.keys(tooth.furcation || {}) as FurcationEntrance[])
+    .filter(entrance => (tooth.furcation?.[entrance] || 0) > 0)
+    .map(entrance => `${getFurcationEntranceLabel(tooth.id, entrance)} ${formatFurcationClass(tooth.furcation![entrance]!)}`);
+  if (involved.length === 0) return 'none';
+  const system = FURCATION_SYSTEMS.find(s => s.value === getFurcationSystem(tooth))!;
+  return `${involved.join(', ')} (${system.label.split(' ')[0]})`;
+};
@@ -0,0 +1,332 @@
+/**
+ * Local stand-in for Supabase (REST + Realtime) so database sync can be tested offline.
+ *
+ *   npm run realtime:standin            # listen on http://localhost:4000
+ *   PORT=5000 npm run realtime:standin
+ *   npm run realtime:standin -- --replay public/test.json --interval 1500
+ *
+ * Point the app at it in .env.local:
+ *   VITE_SUPABASE_URL=http://localhost:4000
+ *
+ * Insert a row (it is stored and pushed to subscribers):
+ *   curl -X POST localhost:4000/observations -H 'Content-Type: application/json' \
+ *     -d '{"patient_id":"=PAT796","session_id":"=S1","type":"=pocketDepth","quadrant":1,
+ *          "tooth_in_quadrant":6,"surface":"=buccal","distal":5,"middle":3,"mesial":4}'
+ *
+ * Manual chart edits are upserted by id (POST ?on_conflict=id with
+ * Prefer: resolution=merge-duplicates); only new ids are pushed to subscribers.
+ *
+ * Only the subset of the Phoenix protocol and PostgREST filters the app uses is implemented.
+ */
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+
+const PORT = Number(process.env.PORT || 4000);
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const args = process.argv.slice(2);
+const argValue = name => {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+const rows = [];
+const clients = new Set();
+
+// ---------- PostgREST subset ----------
+
+const parseList = value => value.replace(/^\(|\)$/g, '').split(',').map(v => v.trim().replace(/^"|"$/g, ''));
+
+const matchesFilter = (row, column, expression) => {
+  const [op, ...rest] = expression.split('.');
+  const value = rest.join('.');
+  const actual = row[column] == null ? '' : String(row[column]);
+  switch (op) {
+    case 'eq': return actual === value;
+    case 'in': return parseList(value).includes(actual);
+    case 'gt': return actual > value;
+    case 'lt': return actual < value;
+    default: return true;
+  }
+};
+
+// Split "a.eq.1,and(b.gt.2,c.lt.3)" at top-level commas, leaving quoted values whole
+const splitConditions = text => {
+  const parts = [];
+  let depth = 0, quoted = false, start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && char === '(') depth++;
+    else if (!quoted && char === ')') depth--;
+    else if (!quoted && depth === 0 && char === ',') {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map(part => part.trim());
+};
+
+// PostgREST logic trees: or=(...) and and(...) of column.op.value conditions
+const matchesLogic = (row, operator, list) => {
+  const results = splitConditions(list.replace(/^\(|\)$/g, '')).map(condition => {
+    const nested = /^(and|or)(\(.*\))$/.exec(condition);
+    if (nested) return matchesLogic(row, nested[1], nested[2]);
+    const [column, ...expression] = condition.split('.');
+    return matchesFilter(row, column, expression.join('.').replace(/^(\w+)\."(.*)"$/, '$1.$2'));
+  });
+  return operator === 'or' ? results.some(Boolean) : results.every(Boolean);
+};
+
+const queryRows = searchParams => {
+  let result = rows.slice();
+  for (const [key, value] of searchParams) {
+    if (['select', 'order', 'limit'].includes(key)) continue;
+    result = result.filter(row => (key === 'or' || key === 'and' ? matchesLogic(row, key, value) : matchesFilter(row, key, value)));
+  }
+  const order = (searchParams.get('order') || 'created_at.asc').split(',').map(term => term.split('.'));
+  result.sort((a, b) => {
+    for (const [column, direction] of order) {
+      const compared = String(a[column]).localeCompare(String(b[column])) * (direction === 'desc' ? -1 : 1);
+      if (compared !== 0) return compared;
+    }
+    return 0;
+  });
+  const limit = Number(searchParams.get('limit'));
+  if (limit > 0) result = result.slice(0, limit);
+
+  const select = searchParams.get('select');
+  if (select && select !== '*') {
+    const columns = select.split(',');
+    result = result.map(row => Object.fromEntries(columns.map(c => [c, row[c]])));
+  }
+  return result;
+};
+
+const insertRow = input => {
+  const row = {
+    id: crypto.randomUUID(),
+    created_at: new Date().toISOString(),
+    ...input,
+  };
+  rows.push(row);
+  clients.forEach(client => client.notifyInsert(row));
+  return row;
+};
+
+// POST ?on_conflict=id with Prefer: resolution=merge-duplicates (manual chart edits)
+const upsertRow = input => {
+  const existing = input.id && rows.find(row => row.id === input.id);
+  if (!existing) return insertRow(input);
+  Object.assign(existing, input);
+  return existing;
+};
+
+// ---------- WebSocket framing ----------
+
+const encodeFrame = text => {
+  const payload = Buffer.from(text);
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Returns [{ opcode, payload }] and the unconsumed remainder
+const decodeFrames = buffer => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < cursor + maskLength + length) break;
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null;
+    cursor += maskLength;
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (mask) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    frames.push({ opcode, payload });
+    offset = cursor + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+// ---------- Phoenix / Realtime subset ----------
+
+const createClient = socket => {
+  const subscriptions = new Map(); // topic -> filter { column, expression }
+  let pending = Buffer.alloc(0);
+
+  const send = message => {
+    if (!socket.destroyed) socket.write(encodeFrame(JSON.stringify(message)));
+  };
+
+  const handleMessage = message => {
+    const { topic, event, payload, ref } = message;
+    if (event === 'heartbeat') {
+      send({ topic, event: 'phx_reply', payload: { status: 'ok', response: {} }, ref });
+    } else if (event === 'phx_join') {
+      const change = payload?.config?.postgres_changes?.[0] || {};
+      const [column, ...expression] = (change.filter || '').split('=');
+      subscriptions.set(topic, change.filter ? { column, expression: expression.join('=') } : null);
+      console.log(`📡 ${topic} joined${change.filter ? ` (filter ${change.filter})` : ''}`);
+      send({ topic, event: 'phx_reply', payload: { status: 'ok', response: { postgres_changes: [{ id: 1, ...change }] } }, ref });
+    } else if (event === 'phx_leave') {
+      subscriptions.delete(topic);
+      send({ topic, event: 'phx_reply', payload: { status: 'ok', response: {} }, ref });
+    }
+  };
+
+  const client = {
+    notifyInsert(row) {
+      subscriptions.forEach((filter, topic) => {
+        if (filter && !matchesFilter(row, filter.column, filter.expression)) return;
+        send({
+          topic,
+          event: 'postgres_changes',
+          payload: {
+            ids: [1],
+            data: {
+              type: 'INSERT',
+              schema: 'public',
+              table: 'clinical_observations',
+              commit_timestamp: row.created_at,
+              record: row,
+              errors: null,
+            },
+          },
+          ref: null,
+        });
+      });
+    },
+  };
+
+  socket.on('data', chunk => {
+    const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]));
+    pending = rest;
+    frames.forEach(({ opcode, payload }) => {
+      if (opcode === 0x8) {
+        socket.end(Buffer.from([0x88, 0]));
+      } else if (opcode === 0x9) {
+        socket.write(Buffer.concat([Buffer.from([0x8a, payload.length]), payload]));
+      } else if (opcode === 0x1) {
+        try {
+          handleMessage(JSON.parse(payload.toString()));
+        } catch (error) {
+          console.warn('⚠️ Bad message:', error.message);
+        }
+      }
+    });
+  });
+  socket.on('close', () => clients.delete(client));
+  socket.on('error', () => clients.delete(client));
+  return client;
+};
+
+// ---------- HTTP server ----------
+
+const cors = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': '*',
+  'Access-Control-Allow-Methods': 'GET,POST,OPTIONS',
+};
+
+const readBody = request => new Promise(resolve => {
+  let body = '';
+  request.on('data', chunk => { body += chunk; });
+  request.on('end', () => resolve(body));
+});
+
+const server = http.createServer(async (request, response) => {
+  const url = new URL(request.url, `http://localhost:${PORT}`);
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, cors).end();
+    return;
+  }
+
+  if (request.method === 'GET' && url.pathname === '/rest/v1/clinical_observations') {
+    response.writeHead(200, { ...cors, 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(queryRows(url.searchParams)));
+    return;
+  }
+
+  if (request.method === 'POST' && (url.pathname === '/observations' || url.pathname === '/rest/v1/clinical_observations')) {
+    try {
+      const input = JSON.parse(await readBody(request));
+      const merge = url.searchParams.get('on_conflict') === 'id'
+        && (request.headers.prefer || '').includes('resolution=merge-duplicates');
+      const inserted = (Array.isArray(input) ? input : [input]).map(merge ? upsertRow : insertRow);
+      response.writeHead(201, { ...cors, 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(inserted));
+    } catch (error) {
+      response.writeHead(400, cors).end(`Invalid JSON: ${error.message}`);
+    }
+    return;
+  }
+
+  response.writeHead(404, cors).end('Not found');
+});
+
+server.on('upgrade', (request, socket) => {
+  const url = new URL(request.url, `http://localhost:${PORT}`);
+  const key = request.headers['sec-websocket-key'];
+  if (url.pathname !== '/realtime/v1/websocket' || !key) {
+    socket.destroy();
+    return;
+  }
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', '',
+  ].join('\r\n'));
+  clients.add(createClient(socket));
+});
+
+server.listen(PORT, () => {
+  console.log(`🧪 Supabase stand-in on http://localhost:${PORT} (realtime at ws://localhost:${PORT}/realtime/v1/websocket)`);
+
+  const replayFile = argValue('--replay');
+  if (replayFile) {
+    const replay = JSON.parse(fs.readFileSync(replayFile, 'utf8'));
+    const interval = Number(argValue('--interval') || 1000);
+    let index = 0;
+    console.log(`▶️ Replaying ${replay.length} rows from ${replayFile} every ${interval} ms`);
+    const timer = setInterval(() => {
+      if (index >= replay.length) {
+        clearInterval(timer);
+        console.log('⏹️ Replay finished');
+        return;
+      }
+      const { id, created_at, ...row } = replay[index++];
+      insertRow(row);
+    }, interval);
+  }
+});
@@ -0,0 +1,60 @@
+/**
+ * Cuts the FHIR R4 JSON schema down to what services/fhirBundle.ts exchanges:
+ * Bundle, Patient, Encounter and Observation plus every definition they
+ * reference, written to services/fhirR4Schema.json.
+ *
+ *   node scripts/vendor-fhir-schema.mjs path/to/fhir.schema.json
+ *
+ * Source: fhir.schema.json from https://hl7.org/fhir/R4/downloads.html, or the
+ * copy in @medplum/definitions (dist/fhir/r4). Properties Medplum adds to
+ * Meta and Reference are dropped so either source gives the same subset.
+ */
+
+import fs from 'node:fs';
+
+const RESOURCES = ['Bundle', 'Encounter', 'Observation', 'Patient'];
+const OUTPUT = new URL('../services/fhirR4Schema.json', import.meta.url);
+const NON_STANDARD = { Meta: ['project', 'author', 'account', 'compartment'], Reference: ['resource'] };
+
+const source = process.argv[2];
+if (!source) {
+  console.error('Usage: node scripts/vendor-fhir-schema.mjs path/to/fhir.schema.json');
+  process.exit(1);
+}
+
+const schema = JSON.parse(fs.readFileSync(source, 'utf8'));
+const refsOf = node => {
+  if (Array.isArray(node)) return node.flatMap(refsOf);
+  if (!node || typeof node !== 'object') return [];
+  return Object.entries(node).flatMap(([key, value]) => (key === '$ref' ? [value.split('/').pop()] : refsOf(value)));
+};
+
+// The resource list is cut to the kept resources before following references
+const resourceList = { oneOf: RESOURCES.map(name => ({ $ref: `#/definitions/${name}` })) };
+const definitions = {};
+const pending = [...RESOURCES];
+while (pending.length > 0) {
+  const name = pending.pop();
+  if (definitions[name]) continue;
+  const definition = name === 'ResourceList' ? resourceList : structuredClone(schema.definitions[name]);
+  if (!definition) throw new Error(`${name} is not defined in ${source}`);
+  (NON_STANDARD[name] || []).forEach(property => delete definition.properties[property]);
+  definitions[name] = definition;
+  pending.push(...refsOf(definition));
+}
+
+const subset = {
+  $schema: schema.$schema,
+  // The source declares its URI as draft-04 "id", which draft-06 validators reject
+  $id: schema.$id ?? schema.id,
+  description: `FHIR R4 JSON schema cut to ${RESOURCES.join(', ')} by scripts/vendor-fhir-schema.mjs; ${schema.description}`,
+  discriminator: {
+    propertyName: 'resourceType',
+    mapping: Object.fromEntries(RESOURCES.map(name => [name, `#/definitions/${name}`])),
+  },
+  ...resourceList,
+  definitions: Object.fromEntries(Object.keys(definitions).sort().map(name => [name, definitions[name]])),
+};
+
+fs.writeFileSync(OUTPUT, `${JSON.stringify(subset, null, 2)}\n`);
+console.log(`✅ ${Object.keys(definitions).length} definitions written to ${OUTPUT.pathname}`);
@@ -0,0 +1,297 @@
+/**
+ * AI Providers - one interface over the model servers the app can talk to.
+ * Each adapter turns a chat-style message list into its server's request
+ * format and returns the reply text; which adapter serves which feature is
+ * chosen in aiSettings. With onToken set the reply is streamed and handed
+ * over piece by piece as it arrives.
+ */
+
+import { GoogleGenAI } from '@google/genai';
+
+export interface AIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface AIGenerateOptions {
+  maxTokens: number;
+  temperature: number;
+  timeout?: number; // ms; a streamed reply only has to start within it
+  signal?: AbortSignal;
+  onToken?: (delta: string, text: string) => void; // streams the reply when set
+}
+
+export type AIProviderKind = 'generate' | 'openai' | 'gemini' | 'local';
+
+export interface AIProviderConfig {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
+
+export interface AIProvider {
+  readonly kind: AIProviderKind;
+  generate(messages: AIMessage[], options: AIGenerateOptions): Promise<string>;
+}
+
+export const AI_PROVIDER_KINDS: { value: AIProviderKind; label: string; description: string }[] = [
+  { value: 'generate', label: 'Raw /generate', description: 'Text-generation server taking a single prompt' },
+  { value: 'openai', label: 'OpenAI-compatible', description: 'Any /v1/chat/completions API' },
+  { value: 'gemini', label: 'Gemini', description: 'Google Gemini API' },
+  { value: 'local', label: 'Local (Ollama / llama.cpp)', description: 'Local server with an OpenAI-compatible API' },
+];
+
+/**
+ * Abort on the caller's signal or the timeout. Streaming calls started()
+ * at the first token, after which only the caller can stop the request.
+ */
+const requestControl = (options: AIGenerateOptions) => {
+  const controller = new AbortController();
+  const abort = () => controller.abort(options.signal?.reason);
+  if (options.signal?.aborted) abort();
+  options.signal?.addEventListener('abort', abort, { once: true });
+  const timer = options.timeout
+    ? setTimeout(() => controller.abort(new DOMException('AI request timed out', 'TimeoutError')), options.timeout)
+    : undefined;
+  return {
+    signal: controller.signal,
+    started: () => clearTimeout(timer),
+    done: () => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', abort);
+    },
+  };
+};
+
+/**
+ * Collects streamed pieces into the full reply and forwards each one
+ */
+class ReplyCollector {
+  text = '';
+
+  constructor(private options: AIGenerateOptions, private started: () => void) {}
+
+  add(delta: string): void {
+    if (!delta) return;
+    this.started();
+    this.text += delta;
+    this.options.onToken?.(delta, this.text);
+  }
+}
+
+// Hand each chunk of a chunked text body to onChunk as it arrives
+const readChunks = async (response: Response, onChunk: (chunk: string) => void): Promise<void> => {
+  if (!response.body) throw new Error('Response has no body to stream');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    onChunk(decoder.decode(value, { stream: true }));
+  }
+  onChunk(decoder.decode());
+};
+
+/**
+ * Hand the data of each server-sent event to onData. Multi-line data fields
+ * are joined with newlines, other fields are ignored.
+ */
+export const readEventStream = async (response: Response, onData: (data: string) => void): Promise<void> => {
+  let buffer = '';
+  const flush = (block: string) => {
+    const data = block.split(/\r?\n/).filter(line => line.startsWith('data:')).map(line => line.slice(5).replace(/^ /, ''));
+    if (data.length > 0) onData(data.join('\n'));
+  };
+  await readChunks(response, chunk => {
+    buffer += chunk;
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop() ?? '';
+    blocks.forEach(flush);
+  });
+  if (buffer.trim()) flush(buffer);
+};
+
+// Unbound fetch throws "Illegal invocation" in browsers
+const defaultFetch: typeof fetch = (input, init) => fetch(input, init);
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+/**
+ * Flatten a conversation into one "System:/User:/Assistant:" prompt for
+ * servers without chat roles
+ */
+export const messagesToPrompt = (messages: AIMessage[]): string => {
+  const speaker = { system: 'System', user: 'User', assistant: 'Assistant' };
+  return messages.map(m => `${speaker[m.role]}: ${m.content}\n\n`).join('') + 'Assistant:';
+};
+
+/**
+ * POST {prompt, max_new_tokens, temperature} to a /generate endpoint and
+ * read {text} back. baseUrl is the full endpoint URL. Streaming adds
+ * stream: true and accepts server-sent events carrying {token: {text}} or
+ * {text} pieces, or a plain chunked text body; a server that ignores the flag
+ * and answers with JSON still works.
+ */
+export class GenerateEndpointProvider implements AIProvider {
+  readonly kind: AIProviderKind = 'generate';
+
+  constructor(private config: AIProviderConfig, private fetcher: typeof fetch = defaultFetch) {}
+
+  async generate(messages: AIMessage[], options: AIGenerateOptions): Promise<string> {
+    const control = requestControl(options);
+    try {
+      const response = await this.fetcher(this.config.baseUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          prompt: messagesToPrompt(messages),
+          max_new_tokens: options.maxTokens,
+          temperature: options.temperature,
+          ...(options.onToken ? { stream: true } : {}),
+        }),
+        signal: control.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`Generate endpoint error: ${response.status} - ${response.statusText}`);
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      const reply = new ReplyCollector(options, control.started);
+      if (!options.onToken || contentType.includes('application/json')) {
+        const data = await response.json();
+        if (typeof data?.text !== 'string') throw new Error('Generate endpoint returned no text');
+        reply.add(data.text);
+      } else if (contentType.includes('text/event-stream')) {
+        await readEventStream(response, data => {
+          if (data === '[DONE]') return;
+          try {
+            const event = JSON.parse(data);
+            reply.add(event?.token?.special ? '' : event?.token?.text ?? event?.text ?? '');
+          } catch {
+            reply.add(data);
+          }
+        });
+      } else {
+        await readChunks(response, chunk => reply.add(chunk));
+      }
+      return reply.text;
+    } finally {
+      control.done();
+    }
+  }
+}
+
+/**
+ * OpenAI-style /chat/completions. baseUrl is the API root, e.g.
+ * https://api.openai.com/v1
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly kind: AIProviderKind = 'openai';
+
+  constructor(protected config: AIProviderConfig, private fetcher: typeof fetch = defaultFetch) {}
+
+  async generate(messages: AIMessage[], options: AIGenerateOptions): Promise<string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) headers.Authorization = `Bearer ${this.config.apiKey}`;
+
+    const control = requestControl(options);
+    try {
+      const response = await this.fetcher(`${trimSlash(this.config.baseUrl)}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.config.model,
+          messages,
+          max_tokens: options.maxTokens,
+          temperature: options.temperature,
+          stream: !!options.onToken,
+        }),
+        signal: control.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`Chat completions error: ${response.status} - ${response.statusText}`);
+      }
+
+      const reply = new ReplyCollector(options, control.started);
+      if (options.onToken) {
+        await readEventStream(response, data => {
+          if (data === '[DONE]') return;
+          const content = JSON.parse(data)?.choices?.[0]?.delta?.content;
+          if (typeof content === 'string') reply.add(content);
+        });
+        return reply.text;
+      }
+
+      const data = await response.json();
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') throw new Error('Chat completions returned no message');
+      return content;
+    } finally {
+      control.done();
+    }
+  }
+}
+
+/**
+ * Ollama and llama.cpp's llama-server both serve the OpenAI chat API under
+ * /v1; this adapter only differs in not needing a key
+ */
+export class LocalServerProvider extends OpenAICompatibleProvider {
+  readonly kind: AIProviderKind = 'local';
+}
+
+/**
+ * Google Gemini through @google/genai. System messages become the system
+ * instruction, assistant turns are sent as the model role.
+ */
+export class GeminiProvider implements AIProvider {
+  readonly kind: AIProviderKind = 'gemini';
+
+  constructor(private config: AIProviderConfig) {}
+
+  async generate(messages: AIMessage[], options: AIGenerateOptions): Promise<string> {
+    if (!this.config.apiKey) throw new Error('No Gemini API key configured');
+    const ai = new GoogleGenAI({ apiKey: this.config.apiKey });
+    const systemInstruction = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+
+    const control = requestControl(options);
+    const request = {
+      model: this.config.model,
+      contents: messages
+        .filter(m => m.role !== 'system')
+        .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+      config: {
+        systemInstruction: systemInstruction || undefined,
+        maxOutputTokens: options.maxTokens,
+        temperature: options.temperature,
+        abortSignal: control.signal,
+      },
+    };
+    try {
+      if (options.onToken) {
+        const reply = new ReplyCollector(options, control.started);
+        for await (const chunk of await ai.models.generateContentStream(request)) {
+          // Stop consuming as soon as the caller aborts
+          control.signal.throwIfAborted();
+          reply.add(chunk.text || '');
+        }
+        return reply.text;
+      }
+
+      const response = await ai.models.generateContent(request);
+      if (!response.text) throw new Error('Gemini returned no text');
+      return response.text;
+    } finally {
+      control.done();
+    }
+  }
+}
+
+export const createAIProvider = (kind: AIProviderKind, config: AIProviderConfig): AIProvider => {
+  switch (kind) {
+    case 'generate': return new GenerateEndpointProvider(config);
+    case 'openai': return new OpenAICompatibleProvider(config);
+    case 'gemini': return new GeminiProvider(config);
+    case 'local': return new LocalServerProvider(config);
+  }
+};
@@ -0,0 +1,78 @@
+/**
+ * AI Settings - which provider each AI feature uses and how each provider is
+ * reached. Stored in localStorage; every AI call in the app gets its
+ * provider from here.
+ */
+
+import { AIProvider, AIProviderConfig, AIProviderKind, createAIProvider } from './aiProviders';
+
+export type AIFeature = 'toothAnalysis' | 'overallAnalysis' | 'toothSummary' | 'chat';
+
+export interface AISettings {
+  providers: Record<AIProviderKind, AIProviderConfig>;
+  features: Record<AIFeature, AIProviderKind>;
+}
+
+export const AI_FEATURES: { value: AIFeature; label: string }[] = [
+  { value: 'toothAnalysis', label: 'Tooth analysis' },
+  { value: 'overallAnalysis', label: 'Overall analysis' },
+  { value: 'toothSummary', label: 'AI summary' },
+  { value: 'chat', label: 'Chat' },
+];
+
+const DEFAULT_SETTINGS: AISettings = {
+  providers: {
+    generate: { baseUrl: (process.env.LLM_ENDPOINT as string) || 'http://216.81.248.15:8000/generate', model: '', apiKey: '' },
+    openai: { baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o-mini', apiKey: '' },
+    gemini: { baseUrl: '', model: 'gemini-2.5-flash', apiKey: (process.env.API_KEY as string) || '' },
+    local: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.1', apiKey: '' },
+  },
+  features: {
+    toothAnalysis: 'generate',
+    overallAnalysis: 'generate',
+    toothSummary: 'gemini',
+    chat: 'generate',
+  },
+};
+
+class AISettingsService {
+  private readonly STORAGE_KEY = 'ai_provider_settings';
+
+  getSettings(): AISettings {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      const parsed: Partial<AISettings> = stored ? JSON.parse(stored) : {};
+      // Merge per provider so settings saved before a provider existed still load
+      const providers = { ...DEFAULT_SETTINGS.providers };
+      (Object.keys(providers) as AIProviderKind[]).forEach(kind => {
+        providers[kind] = { ...providers[kind], ...parsed.providers?.[kind] };
+      });
+      return { providers, features: { ...DEFAULT_SETTINGS.features, ...parsed.features } };
+    } catch (error) {
+      console.error('❌ Failed to load AI settings:', error);
+      return DEFAULT_SETTINGS;
+    }
+  }
+
+  saveSettings(settings: AISettings): void {
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(settings));
+    console.log('🤖 AI provider settings saved:', settings.features);
+  }
+
+  resetSettings(): AISettings {
+    localStorage.removeItem(this.STORAGE_KEY);
+    return this.getSettings();
+  }
+
+  /**
+   * The provider configured for a feature
+   */
+  providerFor(feature: AIFeature): AIProvider {
+    const settings = this.getSettings();
+    const kind = settings.features[feature];
+    return createAIProvider(kind, settings.providers[kind]);
+  }
+}
+
+// Export singleton instance
+export const aiSettings = new AISettingsService();
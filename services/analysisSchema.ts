@@ -0,0 +1,136 @@
+/**
+ * Analysis Schema - the JSON the models are asked to return for tooth and
+ * overall analyses, and the runtime check every reply passes before it is
+ * shown or cached. Near-JSON (code fences, surrounding prose, trailing
+ * commas) is repaired first; whatever still fails is reported as a list of
+ * issues that can be sent back to the model.
+ */
+
+export const TOOTH_PREDICTION_TYPES = ['success_probability', 'complications', 'timeline', 'recommendations'] as const;
+export const OVERALL_PREDICTION_TYPES = ['overall_health', 'risk_factors', 'treatment_priority', 'maintenance_plan'] as const;
+
+export type ToothPredictionType = typeof TOOTH_PREDICTION_TYPES[number];
+export type OverallPredictionType = typeof OVERALL_PREDICTION_TYPES[number];
+export type PredictionType = ToothPredictionType | OverallPredictionType;
+
+export interface AnalysisPrediction {
+  type: PredictionType;
+  text: string;
+  confidence: number;
+}
+
+export interface AnalysisResult {
+  analysis: string;
+  prediction: string;
+  confidence: number; // 0-1
+  predictions: AnalysisPrediction[];
+}
+
+export interface AnalysisSchema {
+  name: string;
+  predictionTypes: readonly PredictionType[];
+}
+
+export const TOOTH_ANALYSIS_SCHEMA: AnalysisSchema = { name: 'tooth analysis', predictionTypes: TOOTH_PREDICTION_TYPES };
+export const OVERALL_ANALYSIS_SCHEMA: AnalysisSchema = { name: 'overall analysis', predictionTypes: OVERALL_PREDICTION_TYPES };
+
+export type AnalysisErrorKind = 'provider' | 'invalid_output';
+
+/**
+ * Why an analysis could not be produced: the provider failed, or the model
+ * kept replying with something that does not match the schema
+ */
+export class AnalysisError extends Error {
+  constructor(
+    readonly kind: AnalysisErrorKind,
+    message: string,
+    readonly issues: string[] = []
+  ) {
+    super(message);
+    this.name = 'AnalysisError';
+  }
+}
+
+/**
+ * Turn near-JSON into JSON: take the object out of code fences and
+ * surrounding prose, and drop trailing commas
+ */
+export const repairJson = (text: string): string => {
+  let source = text.trim();
+  const fenced = source.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) source = fenced[1];
+  const start = source.indexOf('{');
+  const end = source.lastIndexOf('}');
+  if (start !== -1 && end > start) source = source.slice(start, end + 1);
+
+  let repaired = '';
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === ',' && /^\s*[}\]]/.test(source.slice(i + 1))) {
+      continue;
+    }
+    repaired += char;
+  }
+  return repaired;
+};
+
+const isConfidence = (value: unknown): value is number =>
+  typeof value === 'number' && value >= 0 && value <= 1;
+
+const isText = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Everything wrong with a parsed reply; empty when it matches the schema
+ */
+export const validateAnalysisResult = (value: unknown, schema: AnalysisSchema): string[] => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return ['The reply must be a JSON object'];
+  const result = value as Record<string, unknown>;
+  const issues: string[] = [];
+
+  if (!isText(result.analysis)) issues.push('"analysis" must be a non-empty string');
+  if (!isText(result.prediction)) issues.push('"prediction" must be a non-empty string');
+  if (!isConfidence(result.confidence)) issues.push('"confidence" must be a number from 0 to 1');
+
+  if (!Array.isArray(result.predictions)) {
+    issues.push('"predictions" must be an array');
+  } else {
+    result.predictions.forEach((prediction, i) => {
+      const item = (prediction && typeof prediction === 'object' ? prediction : {}) as Record<string, unknown>;
+      if (!schema.predictionTypes.includes(item.type as PredictionType)) {
+        issues.push(`"predictions[${i}].type" must be one of ${schema.predictionTypes.join(', ')}`);
+      }
+      if (!isText(item.text)) issues.push(`"predictions[${i}].text" must be a non-empty string`);
+      if (!isConfidence(item.confidence)) issues.push(`"predictions[${i}].confidence" must be a number from 0 to 1`);
+    });
+  }
+  return issues;
+};
+
+/**
+ * Repair, parse and validate a model reply. Throws an invalid_output
+ * AnalysisError listing the issues when the reply does not match.
+ */
+export const parseAnalysisResult = (content: string, schema: AnalysisSchema): AnalysisResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(repairJson(content));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new AnalysisError('invalid_output', `The ${schema.name} reply is not valid JSON`, [`The reply is not valid JSON: ${reason}`]);
+  }
+
+  const issues = validateAnalysisResult(parsed, schema);
+  if (issues.length > 0) {
+    throw new AnalysisError('invalid_output', `The ${schema.name} reply does not match the expected format`, issues);
+  }
+  return parsed as AnalysisResult;
+};
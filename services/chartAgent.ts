@@ -0,0 +1,147 @@
+/**
+ * Chart Agent - lets the chat assistant act on the chart through the tools in
+ * chartAgentTools. Tool calls are asked for in the prompt rather than through
+ * a provider's function calling, so every configured provider can drive the
+ * tools: the model answers either with a single JSON tool call or with plain
+ * text for the clinician.
+ */
+
+import { AIMessage } from './aiProviders';
+import { aiSettings } from './aiSettings';
+import { repairJson } from './analysisSchema';
+import { CHART_TOOLS, ChartAgentBridge, findChartTool } from './chartAgentTools';
+
+// Tool calls the model may chain before it has to answer
+const MAX_TOOL_STEPS = 6;
+
+// A reply starting like this is a tool call being streamed, not text for the clinician
+const TOOL_CALL_START = /^(\{|```)/;
+
+export interface ToolCall {
+  tool: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface AgentStep {
+  tool: string;
+  summary: string;
+  status: 'done' | 'rejected' | 'failed';
+  detail?: string; // why it was rejected or failed
+}
+
+export interface ChartAgentOptions {
+  context: string; // appended to the system prompt
+  signal?: AbortSignal;
+  onToken?: (text: string) => void; // the answer so far, once it is known not to be a tool call
+  onStep?: (step: AgentStep) => void;
+  confirm: (summary: string) => Promise<boolean>; // asked before any tool that writes
+}
+
+export interface ChartAgentResult {
+  reply: string;
+  transcript: AIMessage[]; // the conversation including tool calls and results, for the next turn
+}
+
+const describeTools = (): string =>
+  CHART_TOOLS.map(tool => {
+    const params = Object.entries(tool.parameters).map(([name, description]) => `    - ${name}: ${description}`);
+    return [`- ${tool.name}${tool.writes ? ' (changes the chart, the clinician confirms first)' : ''}: ${tool.description}`, ...params].join('\n');
+  }).join('\n');
+
+export const buildToolInstructions = (): string => `You can act on the periodontal chart with these tools:
+${describeTools()}
+
+To use a tool, reply with only a JSON object and nothing else, for example:
+{"tool": "set_site_measurement", "arguments": {"tooth": "30", "sites": ["lingual"], "measurement": "bop", "value": true}}
+You will get the tool result in the next message; call one tool at a time. When you are done, answer the clinician in plain text.
+Read a tooth with get_tooth before changing it when you are unsure of its values. Never claim a change was made unless its tool result says so.`;
+
+/**
+ * The tool call in a model reply, or null when the reply is an answer
+ */
+export const parseToolCall = (text: string): ToolCall | null => {
+  if (!TOOL_CALL_START.test(text.trim())) return null;
+  try {
+    const parsed = JSON.parse(repairJson(text));
+    if (!parsed || typeof parsed.tool !== 'string') return null;
+    const args = parsed.arguments && typeof parsed.arguments === 'object' ? parsed.arguments : {};
+    return { tool: parsed.tool, arguments: args };
+  } catch {
+    return null;
+  }
+};
+
+// Prepare, confirm and run one call; the outcome is reported back to the model
+const runToolCall = async (call: ToolCall, bridge: ChartAgentBridge, options: ChartAgentOptions): Promise<{ step: AgentStep; result: unknown }> => {
+  const tool = findChartTool(call.tool);
+  if (!tool) {
+    const detail = `Unknown tool "${call.tool}"`;
+    return { step: { tool: call.tool, summary: call.tool, status: 'failed', detail }, result: { error: detail } };
+  }
+
+  let prepared;
+  try {
+    prepared = tool.prepare(call.arguments, bridge);
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error);
+    return { step: { tool: tool.name, summary: tool.name, status: 'failed', detail }, result: { error: detail } };
+  }
+
+  if (tool.writes && !(await options.confirm(prepared.summary))) {
+    options.signal?.throwIfAborted();
+    return {
+      step: { tool: tool.name, summary: prepared.summary, status: 'rejected' },
+      result: { error: 'The clinician rejected this change; nothing was written' },
+    };
+  }
+
+  try {
+    return { step: { tool: tool.name, summary: prepared.summary, status: 'done' }, result: prepared.execute() };
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error);
+    return { step: { tool: tool.name, summary: prepared.summary, status: 'failed', detail }, result: { error: detail } };
+  }
+};
+
+/**
+ * Answer the last user message, running the tools the model asks for
+ */
+export const runChartAgent = async (
+  conversation: AIMessage[],
+  bridge: ChartAgentBridge,
+  options: ChartAgentOptions
+): Promise<ChartAgentResult> => {
+  const provider = aiSettings.providerFor('chat');
+  const system: AIMessage = { role: 'system', content: `${options.context}\n\n${buildToolInstructions()}` };
+  const transcript = [...conversation];
+
+  for (let step = 0; step <= MAX_TOOL_STEPS; step++) {
+    const text = await provider.generate([system, ...transcript], {
+      maxTokens: 512,
+      temperature: 0.2,
+      signal: options.signal,
+      onToken: (_delta, soFar) => {
+        if (!TOOL_CALL_START.test(soFar.trimStart())) options.onToken?.(soFar);
+      },
+    });
+
+    const call = parseToolCall(text);
+    if (!call) {
+      transcript.push({ role: 'assistant', content: text });
+      return { reply: text, transcript };
+    }
+    if (step === MAX_TOOL_STEPS) break;
+
+    const { step: outcome, result } = await runToolCall(call, bridge, options);
+    console.log(`🛠️ Chart agent ${outcome.status}: ${outcome.summary}`);
+    options.onStep?.(outcome);
+    transcript.push(
+      { role: 'assistant', content: JSON.stringify(call) },
+      { role: 'user', content: `Tool result (${call.tool}): ${JSON.stringify(result)}` }
+    );
+  }
+
+  const reply = `Stopped after ${MAX_TOOL_STEPS} tool calls without an answer.`;
+  transcript.push({ role: 'assistant', content: reply });
+  return { reply, transcript };
+};
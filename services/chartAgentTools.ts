@@ -0,0 +1,279 @@
+/**
+ * Chart Agent Tools - what the chat assistant can do with the twin. Each tool
+ * checks its arguments and describes the call before anything happens;
+ * tools that write to the chart only run once the clinician confirms the
+ * description. The app hands the tools a bridge to its state and actions.
+ */
+
+import { ToothData, MeasurementType, MeasurementLocation, MeasurementSiteValue, Visit } from '../types';
+import { MEASUREMENT_LOCATIONS } from '../constants';
+import { ToothNotation, formatToothLabel, getToothName, parseToothNumber } from '../toothNumbering';
+import { isProbeable, describeToothStatus } from '../toothStatus';
+import { describeFurcation } from '../furcation';
+import { calculateData, getGingivalMargin } from '../chartCalculations';
+import { ClassificationInputs, PeriodontalClassifier } from './periodontalClassification';
+import { VisitComparator } from './visitComparison';
+import { visitStorage } from './visitStorage';
+
+/**
+ * App state and actions the tools work through
+ */
+export interface ChartAgentBridge {
+  getChart(): ToothData[]; // the chart on screen
+  getNotation(): ToothNotation;
+  isReadOnly(): boolean; // a past visit is shown
+  getClassificationInputs(): ClassificationInputs;
+  getVisits(): Visit[];
+  getDisplayedVisitId(): string;
+  updateSite(toothId: number, location: MeasurementLocation, type: MeasurementType, value: MeasurementSiteValue): void;
+  selectTooth(toothId: number, focusCamera: boolean): void;
+  highlightTeeth(toothIds: number[]): void;
+  showComparison(visitId: string): void;
+}
+
+export interface PreparedToolCall {
+  summary: string; // what the call will do, in the clinician's notation
+  execute(): unknown; // the result handed back to the model
+}
+
+export interface ChartTool {
+  name: string;
+  description: string;
+  parameters: Record<string, string>; // argument name → description
+  writes: boolean; // needs the clinician's confirmation
+  prepare(args: Record<string, unknown>, bridge: ChartAgentBridge): PreparedToolCall;
+}
+
+interface SiteMeasurement {
+  type: MeasurementType;
+  label: string;
+  range?: { min: number; max: number }; // mm; absent for yes/no findings
+}
+
+const SITE_MEASUREMENTS: Record<string, SiteMeasurement> = {
+  pd: { type: MeasurementType.POCKET_DEPTH, label: 'PD', range: { min: 0, max: 15 } },
+  rec: { type: MeasurementType.RECESSION, label: 'REC', range: { min: 0, max: 15 } },
+  gm: { type: MeasurementType.GINGIVAL_MARGIN, label: 'GM', range: { min: -15, max: 15 } },
+  bop: { type: MeasurementType.BLEEDING, label: 'BOP' },
+  plaque: { type: MeasurementType.PLAQUE, label: 'plaque' },
+  suppuration: { type: MeasurementType.SUPPURATION, label: 'suppuration' },
+};
+
+// Words that stand for several sites at once
+const SITE_GROUPS: Record<string, MeasurementLocation[]> = {
+  all: MEASUREMENT_LOCATIONS,
+  buccal: MEASUREMENT_LOCATIONS.filter(loc => loc.endsWith('_buccal')),
+  lingual: MEASUREMENT_LOCATIONS.filter(loc => loc.endsWith('_lingual')),
+  mesial: MEASUREMENT_LOCATIONS.filter(loc => loc.startsWith('mesio_')),
+  distal: MEASUREMENT_LOCATIONS.filter(loc => loc.startsWith('disto_')),
+  mid: MEASUREMENT_LOCATIONS.filter(loc => loc.startsWith('mid_')),
+};
+
+const siteLabel = (location: MeasurementLocation) => location.replace('_', '-');
+
+const formatValue = (value: MeasurementSiteValue | undefined): string => {
+  if (value === undefined) return 'not recorded';
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  return `${value} mm`;
+};
+
+const toothArg = (value: unknown, bridge: ChartAgentBridge): ToothData => {
+  const notation = bridge.getNotation();
+  const id = parseToothNumber(String(value ?? ''), notation);
+  const tooth = id === null ? undefined : bridge.getChart().find(t => t.id === id);
+  if (!tooth) throw new Error(`"${value}" is not a tooth of this chart in ${notation} notation`);
+  return tooth;
+};
+
+const siteArgs = (value: unknown): MeasurementLocation[] => {
+  const words = (Array.isArray(value) ? value : [value ?? 'all']).map(v => String(v).trim().toLowerCase());
+  const locations = new Set<MeasurementLocation>();
+  words.forEach(word => {
+    const group = SITE_GROUPS[word];
+    if (group) group.forEach(loc => locations.add(loc));
+    else if ((MEASUREMENT_LOCATIONS as string[]).includes(word)) locations.add(word as MeasurementLocation);
+    else throw new Error(`Unknown site "${word}"`);
+  });
+  return MEASUREMENT_LOCATIONS.filter(loc => locations.has(loc));
+};
+
+const measurementValue = (measurement: SiteMeasurement, value: unknown): MeasurementSiteValue => {
+  if (!measurement.range) {
+    if (typeof value === 'boolean') return value;
+    const word = String(value).trim().toLowerCase();
+    if (['yes', 'true', '1'].includes(word)) return true;
+    if (['no', 'false', '0'].includes(word)) return false;
+    throw new Error(`${measurement.label} takes true or false, not "${value}"`);
+  }
+  const number = typeof value === 'number' ? value : Number(value);
+  if (!Number.isInteger(number) || number < measurement.range.min || number > measurement.range.max) {
+    throw new Error(`${measurement.label} must be a whole number of mm from ${measurement.range.min} to ${measurement.range.max}`);
+  }
+  return number;
+};
+
+const describeTooth = (tooth: ToothData, notation: ToothNotation) => {
+  const { cal } = calculateData(tooth);
+  const read = (type: MeasurementType, location: MeasurementLocation) => tooth.measurements[type]?.[location];
+  return {
+    tooth: formatToothLabel(tooth.id, notation),
+    name: getToothName(tooth.id),
+    status: describeToothStatus(tooth),
+    mobility: tooth.mobility ?? 0,
+    fremitus: tooth.fremitus ?? 0,
+    furcation: describeFurcation(tooth),
+    sites: Object.fromEntries(MEASUREMENT_LOCATIONS.map(location => [location, {
+      pd: read(MeasurementType.POCKET_DEPTH, location) ?? null,
+      gm: getGingivalMargin(tooth, location) ?? null,
+      cal: cal[location] ?? null,
+      bop: !!read(MeasurementType.BLEEDING, location),
+      plaque: !!read(MeasurementType.PLAQUE, location),
+      suppuration: !!read(MeasurementType.SUPPURATION, location),
+    }])),
+  };
+};
+
+const getTooth: ChartTool = {
+  name: 'get_tooth',
+  description: 'Read the status, mobility, furcation and six-site measurements of one tooth',
+  parameters: { tooth: 'tooth number in the current notation' },
+  writes: false,
+  prepare(args, bridge) {
+    const tooth = toothArg(args.tooth, bridge);
+    return {
+      summary: `Read ${formatToothLabel(tooth.id, bridge.getNotation())}`,
+      execute: () => describeTooth(tooth, bridge.getNotation()),
+    };
+  },
+};
+
+const setSiteMeasurement: ChartTool = {
+  name: 'set_site_measurement',
+  description: 'Record one measurement at one or more sites of a tooth in the open visit',
+  parameters: {
+    tooth: 'tooth number in the current notation',
+    sites: `list of sites: ${MEASUREMENT_LOCATIONS.join(', ')}, or ${Object.keys(SITE_GROUPS).join(', ')}`,
+    measurement: Object.keys(SITE_MEASUREMENTS).join(', '),
+    value: 'whole mm for pd, rec and gm (gm is + coronal of the CEJ); true or false for bop, plaque and suppuration',
+  },
+  writes: true,
+  prepare(args, bridge) {
+    if (bridge.isReadOnly()) throw new Error('A past visit is shown read-only; switch back to the open visit to record measurements');
+    const tooth = toothArg(args.tooth, bridge);
+    if (!isProbeable(tooth)) throw new Error(`${formatToothLabel(tooth.id, bridge.getNotation())} is ${describeToothStatus(tooth)} and cannot be probed`);
+    const measurement = SITE_MEASUREMENTS[String(args.measurement ?? '').trim().toLowerCase()];
+    if (!measurement) throw new Error(`Unknown measurement "${args.measurement}"; use ${Object.keys(SITE_MEASUREMENTS).join(', ')}`);
+    const locations = siteArgs(args.sites);
+    const value = measurementValue(measurement, args.value);
+
+    const changes = locations.map(location => `${siteLabel(location)} (was ${formatValue(tooth.measurements[measurement.type]?.[location])})`);
+    return {
+      summary: `Set ${measurement.label} to ${formatValue(value)} on ${formatToothLabel(tooth.id, bridge.getNotation())}: ${changes.join(', ')}`,
+      execute: () => {
+        locations.forEach(location => bridge.updateSite(tooth.id, location, measurement.type, value));
+        bridge.highlightTeeth([tooth.id]);
+        return { updated: locations.length };
+      },
+    };
+  },
+};
+
+const selectTooth: ChartTool = {
+  name: 'select_tooth',
+  description: 'Select a tooth in the chart and, unless focus is false, turn the 3D camera to it',
+  parameters: { tooth: 'tooth number in the current notation', focus: 'optional, false keeps the camera where it is' },
+  writes: false,
+  prepare(args, bridge) {
+    const tooth = toothArg(args.tooth, bridge);
+    return {
+      summary: `Select ${formatToothLabel(tooth.id, bridge.getNotation())}`,
+      execute: () => {
+        bridge.selectTooth(tooth.id, args.focus !== false);
+        return { selected: formatToothLabel(tooth.id, bridge.getNotation()) };
+      },
+    };
+  },
+};
+
+const highlightTeeth: ChartTool = {
+  name: 'highlight_teeth',
+  description: 'Make teeth blink in the 3D view to point them out',
+  parameters: { teeth: 'list of tooth numbers in the current notation' },
+  writes: false,
+  prepare(args, bridge) {
+    const teeth = (Array.isArray(args.teeth) ? args.teeth : [args.teeth]).map(value => toothArg(value, bridge));
+    const labels = teeth.map(t => formatToothLabel(t.id, bridge.getNotation()));
+    return {
+      summary: `Highlight ${labels.join(', ')}`,
+      execute: () => {
+        bridge.highlightTeeth(teeth.map(t => t.id));
+        return { highlighted: labels };
+      },
+    };
+  },
+};
+
+const compareVisits: ChartTool = {
+  name: 'compare_visits',
+  description: 'Compare the chart on screen with an earlier visit and show the changes on the chart',
+  parameters: { visit: 'optional visit id or date (YYYY-MM-DD); the most recent other visit when left out' },
+  writes: false,
+  prepare(args, bridge) {
+    const displayedId = bridge.getDisplayedVisitId();
+    const others = bridge.getVisits().filter(v => v.id !== displayedId).sort((a, b) => b.date.localeCompare(a.date));
+    const wanted = args.visit ? String(args.visit).trim() : '';
+    const baseline = wanted ? others.find(v => v.id === wanted || v.date.startsWith(wanted)) : others[0];
+    if (!baseline) throw new Error(wanted ? `No other visit matches "${wanted}"` : 'There is no other visit to compare with');
+    const snapshot = visitStorage.loadVisit(baseline.id);
+    if (!snapshot) throw new Error(`The chart of the visit on ${baseline.date.slice(0, 10)} could not be loaded`);
+
+    return {
+      summary: `Compare with the visit on ${baseline.date.slice(0, 10)}`,
+      execute: () => {
+        const notation = bridge.getNotation();
+        const comparison = VisitComparator.compare(snapshot.teeth, bridge.getChart());
+        bridge.showComparison(baseline.id);
+        const worstSites = comparison.teeth
+          .flatMap(t => t.sites)
+          .filter(site => site.cal.delta > 0)
+          .sort((a, b) => b.cal.delta - a.cal.delta)
+          .slice(0, 5)
+          .map(site => ({ tooth: formatToothLabel(site.toothId, notation), site: site.location, calBefore: site.cal.before, calAfter: site.cal.after }));
+        return {
+          baseline: { id: baseline.id, date: baseline.date.slice(0, 10), examiner: baseline.examiner },
+          progressingSites: comparison.progressingSites,
+          improvedSites: comparison.improvedSites,
+          progressingTeeth: comparison.progressingTeeth.map(id => formatToothLabel(id, notation)),
+          meanCalChange: Math.round(comparison.meanCalChange * 10) / 10,
+          worstSites,
+        };
+      },
+    };
+  },
+};
+
+const runClassification: ChartTool = {
+  name: 'run_classification',
+  description: 'Stage and grade the chart on screen by the 2017 AAP/EFP classification',
+  parameters: {},
+  writes: false,
+  prepare(_args, bridge) {
+    return {
+      summary: 'Run the AAP/EFP classification',
+      execute: () => {
+        const classification = PeriodontalClassifier.classify(bridge.getChart(), bridge.getClassificationInputs());
+        return {
+          stage: classification.stage,
+          extent: classification.extent,
+          grade: classification.grade,
+          summary: classification.summary,
+          details: PeriodontalClassifier.describe(classification),
+        };
+      },
+    };
+  },
+};
+
+export const CHART_TOOLS: ChartTool[] = [getTooth, setSiteMeasurement, selectTooth, compareVisits, highlightTeeth, runClassification];
+
+export const findChartTool = (name: string): ChartTool | undefined => CHART_TOOLS.find(tool => tool.name === name);
@@ -0,0 +1,256 @@
+/**
+ * Chart Spreadsheet - the chart as one row per probing site, for CSV/XLSX
+ * export and for migrating charts from other systems. Imports go through a
+ * column mapping and a dry run: every row is checked and reported before
+ * anything is written.
+ *
+ * Columns: tooth, notation, surface (buccal/lingual), site (mesial/mid/distal),
+ * PD, REC, CAL (mm) and BOP, plaque (yes/no). REC is recession below the CEJ,
+ * negative for a margin above it; CAL is derived on export and only used on
+ * import when REC is missing.
+ */
+
+import { ToothData, MeasurementType, MeasurementLocation } from '../types';
+import { MEASUREMENT_LOCATIONS } from '../constants';
+import { formatToothNumber, parseToothNumber, ToothNotation, TOOTH_NOTATIONS } from '../toothNumbering';
+import { isProbeable, getToothStatusLabel, getToothStatus } from '../toothStatus';
+import { getGingivalMargin } from '../chartCalculations';
+import { SpreadsheetCell } from './spreadsheetFile';
+
+export type SpreadsheetField = 'tooth' | 'notation' | 'surface' | 'site' | 'pd' | 'rec' | 'cal' | 'bop' | 'plaque';
+
+export const SPREADSHEET_FIELDS: Array<{ value: SpreadsheetField; label: string; required: boolean; aliases: string[] }> = [
+  { value: 'tooth', label: 'Tooth', required: true, aliases: ['tooth', 'tooth number', 'tooth no', 'zahn', 'fdi', 'universal'] },
+  { value: 'notation', label: 'Notation', required: false, aliases: ['notation', 'numbering', 'system'] },
+  { value: 'surface', label: 'Surface', required: false, aliases: ['surface', 'side', 'aspect'] },
+  { value: 'site', label: 'Site', required: true, aliases: ['site', 'location', 'position', 'point', 'stelle'] },
+  { value: 'pd', label: 'PD (mm)', required: false, aliases: ['pd', 'pocket depth', 'probing depth', 'ppd', 'st'] },
+  { value: 'rec', label: 'REC (mm)', required: false, aliases: ['rec', 'recession', 'gr', 'gingival recession'] },
+  { value: 'cal', label: 'CAL (mm)', required: false, aliases: ['cal', 'attachment loss', 'clinical attachment level', 'al'] },
+  { value: 'bop', label: 'BOP', required: false, aliases: ['bop', 'bleeding', 'bleeding on probing', 'bob'] },
+  { value: 'plaque', label: 'Plaque', required: false, aliases: ['plaque', 'pcr', 'pl'] },
+];
+
+export type ColumnMapping = Record<SpreadsheetField, number | null>;
+
+export interface SiteValues {
+  pd?: number;
+  rec?: number;
+  bop?: boolean;
+  plaque?: boolean;
+}
+
+export interface ImportRowResult {
+  row: number; // row number in the sheet, 1-based
+  toothId: number | null;
+  location: MeasurementLocation | null;
+  values: SiteValues;
+  errors: string[]; // the row is not imported
+  warnings: string[]; // imported, but worth a look
+}
+
+export interface ImportPreview {
+  rows: ImportRowResult[];
+  validRows: number;
+  invalidRows: number;
+}
+
+type SiteMeasurementType = keyof ToothData['measurements'];
+
+const PD_RANGE = { min: 0, max: 15 };
+const REC_RANGE = { min: -15, max: 15 };
+const CAL_RANGE = { min: 0, max: 30 };
+
+const HEADER = ['Tooth', 'Notation', 'Surface', 'Site', 'PD', 'REC', 'CAL', 'BOP', 'Plaque'];
+
+const SITE_NAMES: Record<MeasurementLocation, { surface: string; site: string }> = {
+  mesio_buccal: { surface: 'buccal', site: 'mesial' },
+  mid_buccal: { surface: 'buccal', site: 'mid' },
+  disto_buccal: { surface: 'buccal', site: 'distal' },
+  mesio_lingual: { surface: 'lingual', site: 'mesial' },
+  mid_lingual: { surface: 'lingual', site: 'mid' },
+  disto_lingual: { surface: 'lingual', site: 'distal' },
+};
+
+const SURFACE_WORDS: Record<string, 'buccal' | 'lingual'> = {
+  buccal: 'buccal', b: 'buccal', facial: 'buccal', f: 'buccal', labial: 'buccal', vestibular: 'buccal', v: 'buccal',
+  lingual: 'lingual', l: 'lingual', palatal: 'lingual', p: 'lingual', oral: 'lingual', o: 'lingual',
+};
+
+const SITE_WORDS: Record<string, 'mesio' | 'mid' | 'disto'> = {
+  mesial: 'mesio', mesio: 'mesio', m: 'mesio',
+  mid: 'mid', middle: 'mid', central: 'mid', c: 'mid', direct: 'mid',
+  distal: 'disto', disto: 'disto', d: 'disto',
+};
+
+const TRUE_WORDS = ['1', 'yes', 'y', 'true', 'x', '+', 'ja', 'bleeding'];
+const FALSE_WORDS = ['0', 'no', 'n', 'false', '-'];
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+/**
+ * One row per site of every probeable tooth, header first
+ */
+export const chartToRows = (chart: ToothData[], notation: ToothNotation): SpreadsheetCell[][] => [
+  HEADER,
+  ...chart.filter(isProbeable).flatMap(tooth => {
+    const pd = tooth.measurements[MeasurementType.POCKET_DEPTH] || {};
+    const bop = tooth.measurements[MeasurementType.BLEEDING] || {};
+    const plaque = tooth.measurements[MeasurementType.PLAQUE] || {};
+    return MEASUREMENT_LOCATIONS.map(location => [
+      formatToothNumber(tooth.id, notation),
+      notation,
+      SITE_NAMES[location].surface,
+      SITE_NAMES[location].site,
+      (pd[location] as number) ?? 0,
+      -(getGingivalMargin(tooth, location) ?? 0) || 0,
+      (tooth.cal?.[location] as number) ?? 0,
+      bop[location] ? 'yes' : 'no',
+      plaque[location] ? 'yes' : 'no',
+    ]);
+  }),
+];
+
+/**
+ * Map columns by their header text; unmatched fields stay unmapped
+ */
+export const guessColumnMapping = (header: string[]): ColumnMapping => {
+  const names = header.map(normalize);
+  const mapping = {} as ColumnMapping;
+  SPREADSHEET_FIELDS.forEach(field => {
+    const index = names.findIndex(name => field.aliases.includes(name) || name.startsWith(`${field.value} `) || name.startsWith(`${field.value}(`));
+    mapping[field.value] = index === -1 ? null : index;
+  });
+  return mapping;
+};
+
+// A site from separate surface and site cells, or one cell such as "MB", "DL" or "mesio-buccal"
+const parseLocation = (surfaceText: string, siteText: string): MeasurementLocation | null => {
+  const site = normalize(siteText);
+  const exact = site.replace(/[\s-]/g, '_');
+  if ((MEASUREMENT_LOCATIONS as string[]).includes(exact)) return exact as MeasurementLocation;
+
+  const combined = /^(m|d|c|mid|mesio|disto)[\s_-]?(b|l|f|p|v|o|buccal|lingual|palatal|facial)$/.exec(site);
+  const position = SITE_WORDS[combined ? combined[1] : site];
+  const surface = SURFACE_WORDS[combined ? combined[2] : normalize(surfaceText)];
+  return position && surface ? `${position}_${surface}` as MeasurementLocation : null;
+};
+
+const parseMillimetres = (text: string, label: string, range: { min: number; max: number }, errors: string[]): number | undefined => {
+  const value = text.trim().replace(',', '.');
+  if (value === '') return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number)) {
+    errors.push(`${label} "${text}" is not a whole number of mm`);
+    return undefined;
+  }
+  if (number < range.min || number > range.max) {
+    errors.push(`${label} ${number} is outside ${range.min}-${range.max} mm`);
+    return undefined;
+  }
+  return number;
+};
+
+const parseYesNo = (text: string, label: string, errors: string[]): boolean | undefined => {
+  const value = normalize(text);
+  if (value === '') return undefined;
+  if (TRUE_WORDS.includes(value)) return true;
+  if (FALSE_WORDS.includes(value)) return false;
+  errors.push(`${label} "${text}" is not yes/no`);
+  return undefined;
+};
+
+/**
+ * Check every row against the chart without changing it. Empty rows are
+ * skipped; a later row for the same site replaces an earlier one.
+ */
+export const previewChartImport = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  options: { chart: ToothData[]; notation: ToothNotation; hasHeader: boolean },
+): ImportPreview => {
+  const results: ImportRowResult[] = [];
+  const seen = new Map<string, number>();
+  const cell = (row: string[], field: SpreadsheetField) => {
+    const index = mapping[field];
+    return index === null ? '' : String(row[index] ?? '');
+  };
+
+  rows.forEach((row, i) => {
+    if (options.hasHeader && i === 0) return;
+    if (row.every(c => String(c ?? '').trim() === '')) return;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const notationText = normalize(cell(row, 'notation'));
+    const notation = TOOTH_NOTATIONS.find(n => n.value === notationText)?.value ?? options.notation;
+    if (notationText && notation !== notationText) warnings.push(`Unknown notation "${notationText}", read as ${options.notation}`);
+
+    const toothText = cell(row, 'tooth');
+    const toothId = parseToothNumber(toothText, notation);
+    const tooth = toothId === null ? undefined : options.chart.find(t => t.id === toothId);
+    if (toothId === null) errors.push(`"${toothText}" is not a ${notation} tooth number`);
+    else if (!tooth) errors.push(`Tooth ${toothText} is not on this chart`);
+    else if (!isProbeable(tooth)) errors.push(`Tooth ${toothText} is charted as ${getToothStatusLabel(getToothStatus(tooth)).toLowerCase()}`);
+
+    const location = parseLocation(cell(row, 'surface'), cell(row, 'site'));
+    if (!location) errors.push(`Site "${[cell(row, 'surface'), cell(row, 'site')].filter(Boolean).join(' ')}" is not one of the six probing sites`);
+
+    const values: SiteValues = {
+      pd: parseMillimetres(cell(row, 'pd'), 'PD', PD_RANGE, errors),
+      rec: parseMillimetres(cell(row, 'rec'), 'REC', REC_RANGE, errors),
+      bop: parseYesNo(cell(row, 'bop'), 'BOP', errors),
+      plaque: parseYesNo(cell(row, 'plaque'), 'Plaque', errors),
+    };
+    const cal = parseMillimetres(cell(row, 'cal'), 'CAL', CAL_RANGE, errors);
+
+    // CAL = PD + REC; fill a missing REC from it, flag a mismatch otherwise
+    if (cal !== undefined && values.pd !== undefined) {
+      if (values.rec === undefined) {
+        values.rec = cal - values.pd;
+      } else if (Math.max(0, values.pd + values.rec) !== cal) {
+        warnings.push(`CAL ${cal} does not match PD ${values.pd} + REC ${values.rec}; CAL is recalculated`);
+      }
+    }
+    if (Object.values(values).every(v => v === undefined) && errors.length === 0) {
+      errors.push('No PD, REC, CAL, BOP or plaque value');
+    }
+
+    if (errors.length === 0 && toothId !== null && location) {
+      const key = `${toothId}|${location}`;
+      if (seen.has(key)) warnings.push(`Replaces row ${seen.get(key)} for the same site`);
+      seen.set(key, i + 1);
+    }
+
+    results.push({ row: i + 1, toothId, location, values, errors, warnings });
+  });
+
+  const validRows = results.filter(r => r.errors.length === 0).length;
+  return { rows: results, validRows, invalidRows: results.length - validRows };
+};
+
+/**
+ * Write the valid rows of a preview onto a chart. Recession also sets the
+ * gingival margin, as charting it by hand does.
+ */
+export const applyChartImport = (chart: ToothData[], preview: ImportPreview): ToothData[] => {
+  const updated = new Map<number, ToothData>();
+
+  preview.rows.filter(r => r.errors.length === 0 && r.toothId !== null && r.location).forEach(({ toothId, location, values }) => {
+    const source = updated.get(toothId!) || chart.find(t => t.id === toothId);
+    if (!source) return;
+    const tooth: ToothData = JSON.parse(JSON.stringify(source));
+    const set = (type: SiteMeasurementType, value: number | boolean | undefined) => {
+      if (value !== undefined) tooth.measurements[type] = { ...tooth.measurements[type], [location!]: value };
+    };
+    set(MeasurementType.POCKET_DEPTH, values.pd);
+    set(MeasurementType.RECESSION, values.rec === undefined ? undefined : Math.max(0, values.rec));
+    set(MeasurementType.GINGIVAL_MARGIN, values.rec === undefined ? undefined : -values.rec);
+    set(MeasurementType.BLEEDING, values.bop);
+    set(MeasurementType.PLAQUE, values.plaque);
+    updated.set(toothId!, tooth);
+  });
+
+  console.log(`📥 Spreadsheet import: ${preview.validRows} sites on ${updated.size} teeth`);
+  return chart.map(tooth => updated.get(tooth.id) || tooth);
+};
@@ -4,6 +4,10 @@
  */
 
 import { ToothData, MeasurementType, MeasurementLocation } from '../types';
+import { getToothName, describeToothForPrompt } from '../toothNumbering';
+import { isProbeable, describeToothStatus } from '../toothStatus';
+import { describeFurcation, getMaxFurcationClass } from '../furcation';
+import { getToothIndexScore } from './hygieneIndices';
 
 export interface FormattedToothData {
   toothId: number;
@@ -43,14 +47,22 @@ export interface FormattedToothData {
     };
   };
   additionalFactors: {
-    mobility: number;
+    mobility: number; // Miller grade
+    fremitus: number;
     furcation: {
       buccal: number;
       lingual: number;
+      mesial: number;
+      distal: number;
+      maxClass: number; // Hamp scale
       hasFurcation: boolean;
+      description: string; // e.g. "Buccal II, Mesio-palatal I (Hamp)"
     };
+    plaqueIndex: number | null; // Silness-Löe mean, null when not scored
+    gingivalIndex: number | null; // Löe-Silness mean, null when not scored
     riskScore: number;
     isMissing: boolean;
+    status: string; // e.g. "implant (lost to periodontitis)"
   };
   clinicalSummary: {
     severity: 'healthy' | 'mild' | 'moderate' | 'severe' | 'critical';
@@ -64,10 +76,11 @@ export class DataFormatter {
    * Format tooth data for AI analysis with enhanced detail
    */
   static formatToothDataForAI(toothData: ToothData): FormattedToothData {
-    const { id, measurements, mobility, furcation, cal, riskScore, isMissing } = toothData;
+    const { id, measurements, mobility, fremitus, furcation, cal, riskScore } = toothData;
+    const maxFurcation = getMaxFurcationClass(toothData);
     
     // Get tooth name
-    const toothName = this.getToothName(id);
+    const toothName = getToothName(id);
     
     // Extract and structure measurements
     const pocketDepths = this.extractPocketDepths(measurements);
@@ -78,7 +91,7 @@ export class DataFormatter {
     
     // Calculate clinical summary
     const clinicalSummary = this.calculateClinicalSummary(
-      pocketDepths, recession, bleeding, plaque, mobility, furcation, riskScore
+      pocketDepths, recession, bleeding, plaque, mobility, maxFurcation, riskScore
     );
     
     return {
@@ -93,13 +106,21 @@ export class DataFormatter {
       },
       additionalFactors: {
         mobility: mobility || 0,
+        fremitus: fremitus || 0,
         furcation: {
           buccal: furcation?.buccal || 0,
           lingual: furcation?.lingual || 0,
-          hasFurcation: !!(furcation?.buccal || furcation?.lingual)
+          mesial: furcation?.mesial || 0,
+          distal: furcation?.distal || 0,
+          maxClass: maxFurcation,
+          hasFurcation: maxFurcation > 0,
+          description: describeFurcation(toothData)
         },
+        plaqueIndex: getToothIndexScore(toothData, 'plaqueIndex'),
+        gingivalIndex: getToothIndexScore(toothData, 'gingivalIndex'),
         riskScore: riskScore || 0,
-        isMissing: isMissing || false
+        isMissing: !isProbeable(toothData),
+        status: describeToothStatus(toothData)
       },
       clinicalSummary
     };
@@ -109,9 +130,9 @@ export class DataFormatter {
    * Generate detailed prompt for AI analysis
    */
   static generateDetailedPrompt(formattedData: FormattedToothData): string {
-    const { toothId, toothName, measurements, additionalFactors, clinicalSummary } = formattedData;
+    const { toothId, measurements, additionalFactors, clinicalSummary } = formattedData;
     
-    return `DENTAL ANALYSIS REQUEST - TOOTH ${toothId} (${toothName})
+    return `DENTAL ANALYSIS REQUEST - TOOTH ${describeToothForPrompt(toothId)}
 
 CLINICAL MEASUREMENTS:
 Pocket Depths (mm):
@@ -137,10 +158,14 @@ Plaque Accumulation:
 - Total: ${measurements.plaque.plaqueSites}/${measurements.plaque.totalSites} sites (${measurements.plaque.percentage.toFixed(1)}%)
 
 ADDITIONAL FACTORS:
-- Mobility: Grade ${additionalFactors.mobility}
-- Furcation Involvement: Buccal Grade ${additionalFactors.furcation.buccal}, Lingual Grade ${additionalFactors.furcation.lingual}
+- Mobility: Miller Grade ${additionalFactors.mobility}
+- Fremitus: Class ${additionalFactors.fremitus}
+- Furcation Involvement: ${additionalFactors.furcation.description}
+- Plaque Index (Silness-Löe): ${additionalFactors.plaqueIndex?.toFixed(1) ?? 'Not scored'}
+- Gingival Index (Löe-Silness): ${additionalFactors.gingivalIndex?.toFixed(1) ?? 'Not scored'}
 - Risk Score: ${additionalFactors.riskScore.toFixed(1)}
 - Missing Tooth: ${additionalFactors.isMissing ? 'Yes' : 'No'}
+- Status: ${additionalFactors.status}
 
 CLINICAL ASSESSMENT:
 - Severity: ${clinicalSummary.severity.toUpperCase()}
@@ -267,7 +292,7 @@ Please provide a comprehensive periodontal analysis including:
    */
   private static calculateClinicalSummary(
     pocketDepths: any, recession: any, bleeding: any, plaque: any, 
-    mobility: number, furcation: any, riskScore: number
+    mobility: number, maxFurcation: number, riskScore: number
   ) {
     const concerns: string[] = [];
     let severity: 'healthy' | 'mild' | 'moderate' | 'severe' | 'critical' = 'healthy';
@@ -328,12 +353,12 @@ Please provide a comprehensive periodontal analysis including:
     }
     
     // Analyze furcation
-    if (furcation?.buccal >= 2 || furcation?.lingual >= 2) {
+    if (maxFurcation >= 2) {
       severity = 'severe';
       priority = 'high';
-      concerns.push('Advanced furcation involvement (Grade 2+)');
-    } else if (furcation?.buccal >= 1 || furcation?.lingual >= 1) {
-      concerns.push('Early furcation involvement (Grade 1)');
+      concerns.push('Advanced furcation involvement (Class II+)');
+    } else if (maxFurcation >= 1) {
+      concerns.push('Early furcation involvement (Class I)');
       if (severity === 'healthy') severity = 'mild';
     }
     
@@ -366,42 +391,4 @@ Please provide a comprehensive periodontal analysis including:
       treatmentPriority: priority
     };
   }
-  
-  /**
-   * Get tooth name from ID
-   */
-  private static getToothName(toothId: number): string {
-    const toothNames: { [key: number]: string } = {
-      11: 'Maxillary Right Central Incisor',
-      12: 'Maxillary Right Lateral Incisor',
-      13: 'Maxillary Right Canine',
-      14: 'Maxillary Right First Premolar',
-      15: 'Maxillary Right Second Premolar',
-      16: 'Maxillary Right First Molar',
-      17: 'Maxillary Right Second Molar',
-      21: 'Maxillary Left Central Incisor',
-      22: 'Maxillary Left Lateral Incisor',
-      23: 'Maxillary Left Canine',
-      24: 'Maxillary Left First Premolar',
-      25: 'Maxillary Left Second Premolar',
-      26: 'Maxillary Left First Molar',
-      27: 'Maxillary Left Second Molar',
-      31: 'Mandibular Left Central Incisor',
-      32: 'Mandibular Left Lateral Incisor',
-      33: 'Mandibular Left Canine',
-      34: 'Mandibular Left First Premolar',
-      35: 'Mandibular Left Second Premolar',
-      36: 'Mandibular Left First Molar',
-      37: 'Mandibular Left Second Molar',
-      41: 'Mandibular Right Central Incisor',
-      42: 'Mandibular Right Lateral Incisor',
-      43: 'Mandibular Right Canine',
-      44: 'Mandibular Right First Premolar',
-      45: 'Mandibular Right Second Premolar',
-      46: 'Mandibular Right First Molar',
-      47: 'Mandibular Right Second Molar'
-    };
-    
-    return toothNames[toothId] || `Tooth ${toothId}`;
-  }
 }
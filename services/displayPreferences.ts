@@ -0,0 +1,56 @@
+import { ToothNotation, TOOTH_NOTATIONS, DEFAULT_TOOTH_NOTATION } from '../toothNumbering';
+import { FurcationSystem } from '../types';
+import { FURCATION_SYSTEMS, DEFAULT_FURCATION_SYSTEM } from '../furcation';
+
+// Which chart is on screen: the 3D twin, the paper-style 2D chart, or both
+export type ChartView = '3d' | '2d' | 'split';
+
+export const CHART_VIEWS: Array<{ value: ChartView; label: string }> = [
+  { value: '3d', label: '3D' },
+  { value: '2d', label: '2D' },
+  { value: 'split', label: 'Split' },
+];
+
+/**
+ * Display settings shared by every patient on this device
+ */
+class DisplayPreferencesService {
+  private readonly NOTATION_KEY = 'tooth_notation';
+  private readonly FURCATION_SYSTEM_KEY = 'furcation_system';
+  private readonly CHART_VIEW_KEY = 'chart_view';
+
+  /**
+   * Notation used to show tooth numbers; data is always keyed by Universal number
+   */
+  getToothNotation(): ToothNotation {
+    const stored = localStorage.getItem(this.NOTATION_KEY);
+    return TOOTH_NOTATIONS.some(n => n.value === stored) ? stored as ToothNotation : DEFAULT_TOOTH_NOTATION;
+  }
+
+  setToothNotation(notation: ToothNotation): void {
+    localStorage.setItem(this.NOTATION_KEY, notation);
+  }
+
+  /**
+   * Classification new furcation entries are recorded in
+   */
+  getFurcationSystem(): FurcationSystem {
+    const stored = localStorage.getItem(this.FURCATION_SYSTEM_KEY);
+    return FURCATION_SYSTEMS.some(s => s.value === stored) ? stored as FurcationSystem : DEFAULT_FURCATION_SYSTEM;
+  }
+
+  setFurcationSystem(system: FurcationSystem): void {
+    localStorage.setItem(this.FURCATION_SYSTEM_KEY, system);
+  }
+
+  getChartView(): ChartView {
+    const stored = localStorage.getItem(this.CHART_VIEW_KEY);
+    return CHART_VIEWS.some(v => v.value === stored) ? stored as ChartView : '3d';
+  }
+
+  setChartView(view: ChartView): void {
+    localStorage.setItem(this.CHART_VIEW_KEY, view);
+  }
+}
+
+export const displayPreferences = new DisplayPreferencesService();
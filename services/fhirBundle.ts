@@ -0,0 +1,349 @@
+/**
+ * FHIR Bundle - exchanges a periodontal chart with an EHR as a FHIR R4
+ * collection Bundle: one Patient, one Encounter for the visit, and one
+ * Observation per probed site for pocket depth, recession and bleeding on
+ * probing. Each Observation names its tooth (FDI, HL7 ex-tooth) and surface
+ * (FDI-surface) in bodySite, plus the exact site in this app's site codes.
+ *
+ * Measurements carry the standard code the receiving EHR binds them to (SNOMED
+ * CT observable or LOINC, set in STANDARD_MEASUREMENT_CODINGS) as the first
+ * coding and this app's own code as the second; until a binding is set only the
+ * app's code is sent. Imports accept either.
+ */
+
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import draft06MetaSchema from 'ajv/dist/refs/json-schema-draft-06.json';
+import { ToothData, Patient, Visit, MeasurementType, MeasurementLocation, PatientSex } from '../types';
+import { MEASUREMENT_LOCATIONS, createEmptyTooth } from '../constants';
+import { universalToFdi, fdiToUniversal } from '../toothNumbering';
+import { isProbeable } from '../toothStatus';
+import { getPatientRecordNumber } from './patientStorage';
+import { createUuid } from './uuid';
+import FHIR_R4_SCHEMA from './fhirR4Schema.json';
+
+export interface FhirCoding {
+  system: string;
+  code: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirReference {
+  reference: string;
+  display?: string;
+}
+
+export interface FhirPatient {
+  resourceType: 'Patient';
+  id?: string;
+  identifier?: Array<{ system: string; value: string }>;
+  name?: Array<{ text: string }>;
+  gender?: PatientSex; // AdministrativeGender uses the same codes
+  birthDate?: string;
+}
+
+export interface FhirEncounter {
+  resourceType: 'Encounter';
+  id?: string;
+  identifier?: Array<{ system: string; value: string }>;
+  status: 'in-progress' | 'finished';
+  class: FhirCoding;
+  subject?: FhirReference;
+  participant?: Array<{ individual: { display: string } }>;
+  period?: { start: string };
+}
+
+export interface FhirObservation {
+  resourceType: 'Observation';
+  id?: string;
+  status: 'preliminary' | 'final' | 'amended';
+  category?: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject?: FhirReference;
+  encounter?: FhirReference;
+  effectiveDateTime?: string;
+  valueQuantity?: { value: number; unit: string; system: string; code: string };
+  valueBoolean?: boolean;
+  bodySite?: FhirCodeableConcept;
+}
+
+export type FhirResource = FhirPatient | FhirEncounter | FhirObservation;
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id?: string;
+  type: 'collection';
+  timestamp?: string;
+  entry: Array<{ fullUrl: string; resource: FhirResource }>;
+}
+
+export interface FhirImportResult {
+  patientRecordNumber: string | null;
+  visitDate: string | null;
+  examiner: string | null;
+  teeth: ToothData[]; // only the teeth the bundle has observations for
+  imported: number;
+  skipped: number; // observations with an unknown code, tooth or site
+}
+
+// Replace with the clinic's canonical base when registering the code systems
+export const FHIR_SYSTEM_BASE = 'urn:periodontal-digital-twin';
+
+export const SNOMED_CT_SYSTEM = 'http://snomed.info/sct';
+export const LOINC_SYSTEM = 'http://loinc.org';
+
+const SYSTEMS = {
+  measurement: `${FHIR_SYSTEM_BASE}:measurement`,
+  site: `${FHIR_SYSTEM_BASE}:probing-site`,
+  patientRecord: `${FHIR_SYSTEM_BASE}:patient-record`,
+  visit: `${FHIR_SYSTEM_BASE}:visit`,
+  tooth: 'http://terminology.hl7.org/CodeSystem/ex-tooth',
+  surface: 'http://terminology.hl7.org/CodeSystem/FDI-surface',
+  category: 'http://terminology.hl7.org/CodeSystem/observation-category',
+  actCode: 'http://terminology.hl7.org/CodeSystem/v3-ActCode',
+  ucum: 'http://unitsofmeasure.org',
+};
+
+export type ExchangedType = MeasurementType.POCKET_DEPTH | MeasurementType.RECESSION | MeasurementType.BLEEDING;
+
+// The receiving EHR's code for each measurement, { system: SNOMED_CT_SYSTEM or LOINC_SYSTEM, code, display };
+// unset until the clinic's binding is confirmed, concept ids are not guessed
+export const STANDARD_MEASUREMENT_CODINGS: Record<ExchangedType, FhirCoding | null> = {
+  [MeasurementType.POCKET_DEPTH]: null,
+  [MeasurementType.RECESSION]: null,
+  [MeasurementType.BLEEDING]: null,
+};
+
+export const APP_MEASUREMENT_CODINGS: Record<ExchangedType, FhirCoding> = {
+  [MeasurementType.POCKET_DEPTH]: { system: SYSTEMS.measurement, code: 'probing-depth', display: 'Probing pocket depth' },
+  [MeasurementType.RECESSION]: { system: SYSTEMS.measurement, code: 'gingival-recession', display: 'Gingival recession' },
+  [MeasurementType.BLEEDING]: { system: SYSTEMS.measurement, code: 'bleeding-on-probing', display: 'Bleeding on probing' },
+};
+
+const EXCHANGED_TYPES = Object.keys(APP_MEASUREMENT_CODINGS) as ExchangedType[];
+
+/**
+ * Codings of a measurement, the standard one first when bound
+ */
+export const getMeasurementCodings = (type: ExchangedType): FhirCoding[] => {
+  const standard = STANDARD_MEASUREMENT_CODINGS[type];
+  return standard ? [standard, APP_MEASUREMENT_CODINGS[type]] : [APP_MEASUREMENT_CODINGS[type]];
+};
+
+// FDI surface of each probing site; the site code keeps mesio-buccal apart from mesio-lingual
+const SITE_SURFACES: Record<MeasurementLocation, { code: string; display: string }> = {
+  mesio_buccal: { code: 'M', display: 'Mesial' },
+  mid_buccal: { code: 'B', display: 'Buccal' },
+  disto_buccal: { code: 'D', display: 'Distal' },
+  mesio_lingual: { code: 'M', display: 'Mesial' },
+  mid_lingual: { code: 'L', display: 'Lingual' },
+  disto_lingual: { code: 'D', display: 'Distal' },
+};
+
+// Resources the vendored schema defines; scripts/vendor-fhir-schema.mjs regenerates it
+const SCHEMA_RESOURCES = ['Bundle', 'Patient', 'Encounter', 'Observation'] as const;
+type SchemaResource = typeof SCHEMA_RESOURCES[number];
+
+let schemaValidators: Record<SchemaResource, ValidateFunction> | null = null;
+
+// Compiled on first use, the schema is too large to compile at startup
+const getSchemaValidators = (): Record<SchemaResource, ValidateFunction> => {
+  if (!schemaValidators) {
+    const ajv = new Ajv({ strict: false });
+    ajv.addMetaSchema(draft06MetaSchema);
+    ajv.addSchema(FHIR_R4_SCHEMA);
+    schemaValidators = Object.fromEntries(SCHEMA_RESOURCES.map(name =>
+      [name, ajv.compile({ $ref: `${FHIR_R4_SCHEMA.$id}#/definitions/${name}` })],
+    )) as Record<SchemaResource, ValidateFunction>;
+  }
+  return schemaValidators;
+};
+
+// "entry[3] Observation.valueQuantity.value: must be number"
+const describeSchemaError = (where: string, error: ErrorObject): string => {
+  const path = error.instancePath.replace(/\/(\d+)/g, '[$1]').replace(/\//g, '.');
+  const allowed = error.keyword === 'enum' ? ` (${(error.params.allowedValues as string[]).join(', ')})` : '';
+  return `${where}${path}: ${error.message}${allowed}`;
+};
+
+const siteCode = (location: MeasurementLocation) => location.replace('_', '-');
+
+const findCoding = (concept: FhirCodeableConcept | undefined, system: string): FhirCoding | undefined =>
+  concept?.coding?.find(c => c.system === system);
+
+/**
+ * Serialise a visit's chart. Missing teeth and pontics have no sites and are
+ * left out; sites never probed (PD and recession 0, no bleeding) are too.
+ */
+export const exportFhirBundle = (patient: Patient, visit: Visit, chart: ToothData[]): FhirBundle => {
+  const patientUrl = `urn:uuid:${createUuid()}`;
+  const encounterUrl = `urn:uuid:${createUuid()}`;
+  const recordNumber = getPatientRecordNumber(patient);
+
+  const fhirPatient: FhirPatient = {
+    resourceType: 'Patient',
+    identifier: [{ system: SYSTEMS.patientRecord, value: recordNumber }],
+    name: [{ text: patient.name }],
+    gender: patient.sex,
+    ...(patient.dateOfBirth ? { birthDate: patient.dateOfBirth } : {}),
+  };
+
+  const encounter: FhirEncounter = {
+    resourceType: 'Encounter',
+    identifier: [{ system: SYSTEMS.visit, value: visit.id }],
+    status: visit.status === 'closed' ? 'finished' : 'in-progress',
+    class: { system: SYSTEMS.actCode, code: 'AMB', display: 'ambulatory' },
+    subject: { reference: patientUrl, display: patient.name },
+    participant: [{ individual: { display: visit.examiner } }],
+    period: { start: visit.date },
+  };
+
+  const observations: FhirObservation[] = chart.filter(isProbeable).flatMap(tooth => {
+    const fdi = String(universalToFdi(tooth.id));
+    const pd = tooth.measurements[MeasurementType.POCKET_DEPTH] || {};
+    const rec = tooth.measurements[MeasurementType.RECESSION] || {};
+    const bop = tooth.measurements[MeasurementType.BLEEDING] || {};
+
+    return MEASUREMENT_LOCATIONS.flatMap(location => {
+      const probed = (pd[location] as number) > 0 || (rec[location] as number) > 0 || bop[location] === true;
+      if (!probed) return [];
+
+      const observation = (type: ExchangedType, value: Pick<FhirObservation, 'valueQuantity' | 'valueBoolean'>): FhirObservation => ({
+        resourceType: 'Observation',
+        status: visit.status === 'closed' ? 'final' : 'preliminary',
+        category: [{ coding: [{ system: SYSTEMS.category, code: 'exam', display: 'Exam' }] }],
+        code: { coding: getMeasurementCodings(type), text: type },
+        subject: { reference: patientUrl },
+        encounter: { reference: encounterUrl },
+        effectiveDateTime: visit.date,
+        ...value,
+        bodySite: {
+          coding: [
+            { system: SYSTEMS.tooth, code: fdi },
+            { system: SYSTEMS.surface, ...SITE_SURFACES[location] },
+            { system: SYSTEMS.site, code: siteCode(location) },
+          ],
+          text: `Tooth ${fdi} ${siteCode(location)}`,
+        },
+      });
+      const mm = (value: unknown) => ({ valueQuantity: { value: Number(value) || 0, unit: 'mm', system: SYSTEMS.ucum, code: 'mm' } });
+
+      return [
+        observation(MeasurementType.POCKET_DEPTH, mm(pd[location])),
+        observation(MeasurementType.RECESSION, mm(rec[location])),
+        observation(MeasurementType.BLEEDING, { valueBoolean: bop[location] === true }),
+      ];
+    });
+  });
+
+  console.log(`📤 FHIR bundle: ${observations.length} observations for ${recordNumber}`);
+  return {
+    resourceType: 'Bundle',
+    id: createUuid(),
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry: [
+      { fullUrl: patientUrl, resource: fhirPatient },
+      { fullUrl: encounterUrl, resource: encounter },
+      ...observations.map(resource => ({ fullUrl: `urn:uuid:${createUuid()}`, resource })),
+    ],
+  };
+};
+
+/**
+ * Check against the FHIR R4 JSON schema; returns one message per invalid
+ * resource, empty when the bundle can be imported. Resources other than
+ * Patient, Encounter and Observation are not checked, the import skips them.
+ */
+export const validateFhirBundle = (bundle: unknown): string[] => {
+  const value = bundle as Partial<FhirBundle> | null;
+  if (!value || value.resourceType !== 'Bundle') return ['Not a FHIR Bundle'];
+  if (!Array.isArray(value.entry)) return ['Bundle has no entry array'];
+
+  const validators = getSchemaValidators();
+  const errors: string[] = [];
+  // The envelope is checked without its resources so each resource reports its own first problem
+  const envelope = { ...value, entry: value.entry.map(entry => ({ ...entry, resource: undefined })) };
+  if (!validators.Bundle(envelope)) errors.push(...validators.Bundle.errors!.map(error => describeSchemaError('Bundle', error)));
+
+  value.entry.forEach((entry, i) => {
+    const resource = entry?.resource as FhirResource | undefined;
+    if (!resource || typeof resource.resourceType !== 'string') {
+      errors.push(`entry[${i}]: missing resource`);
+      return;
+    }
+    const type = resource.resourceType as SchemaResource;
+    const validate = SCHEMA_RESOURCES.includes(type) ? validators[type] : null;
+    if (validate && !validate(resource)) {
+      errors.push(...validate.errors!.map(error => describeSchemaError(`entry[${i}] ${type}`, error)));
+    }
+  });
+  return errors;
+};
+
+/**
+ * Read a bundle back into teeth. Recession also sets the gingival margin, as
+ * charting it by hand does.
+ */
+export const importFhirBundle = (bundle: FhirBundle): FhirImportResult => {
+  const errors = validateFhirBundle(bundle);
+  if (errors.length > 0) throw new Error(`Invalid FHIR bundle: ${errors.slice(0, 3).join('; ')}`);
+
+  const resources = bundle.entry.map(e => e.resource);
+  const patient = resources.find((r): r is FhirPatient => r.resourceType === 'Patient');
+  const encounter = resources.find((r): r is FhirEncounter => r.resourceType === 'Encounter');
+  const teeth = new Map<number, ToothData>();
+  let imported = 0;
+  let skipped = 0;
+
+  resources.filter((r): r is FhirObservation => r.resourceType === 'Observation').forEach(observation => {
+    const type = EXCHANGED_TYPES.find(t =>
+      getMeasurementCodings(t).some(known => observation.code.coding?.some(c => c.system === known.system && c.code === known.code)),
+    );
+    const toothId = fdiToUniversal(parseInt(findCoding(observation.bodySite, SYSTEMS.tooth)?.code ?? ''));
+    const location = findCoding(observation.bodySite, SYSTEMS.site)?.code.replace('-', '_') as MeasurementLocation | undefined;
+    const value = type === MeasurementType.BLEEDING ? observation.valueBoolean : observation.valueQuantity?.value;
+
+    if (!type || !toothId || !location || !MEASUREMENT_LOCATIONS.includes(location) || value === undefined) {
+      skipped++;
+      return;
+    }
+
+    const tooth = teeth.get(toothId) || createEmptyTooth(toothId);
+    tooth.measurements[type] = { ...tooth.measurements[type], [location]: value };
+    if (type === MeasurementType.RECESSION) {
+      tooth.measurements[MeasurementType.GINGIVAL_MARGIN] = { ...tooth.measurements[MeasurementType.GINGIVAL_MARGIN], [location]: -(value as number) };
+    }
+    teeth.set(toothId, tooth);
+    imported++;
+  });
+
+  console.log(`📥 FHIR bundle: ${imported} observations imported, ${skipped} skipped`);
+  return {
+    patientRecordNumber: patient?.identifier?.find(i => i.system === SYSTEMS.patientRecord)?.value ?? null,
+    visitDate: encounter?.period?.start ?? null,
+    examiner: encounter?.participant?.[0]?.individual.display ?? null,
+    teeth: Array.from(teeth.values()).sort((a, b) => a.id - b.id),
+    imported,
+    skipped,
+  };
+};
+
+/**
+ * Copy imported sites onto a chart; other measurements and teeth the chart
+ * does not have are left alone
+ */
+export const mergeImportedTeeth = (chart: ToothData[], imported: ToothData[]): ToothData[] =>
+  chart.map(tooth => {
+    const source = imported.find(t => t.id === tooth.id);
+    if (!source) return tooth;
+    const measurements = { ...tooth.measurements };
+    [...EXCHANGED_TYPES, MeasurementType.GINGIVAL_MARGIN].forEach(type => {
+      if (source.measurements[type]) measurements[type] = { ...measurements[type], ...source.measurements[type] };
+    });
+    return { ...tooth, measurements };
+  });
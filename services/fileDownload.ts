@@ -0,0 +1,12 @@
+/**
+ * Save a generated file through the browser's download
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // The download has started by the next tick; the URL is no longer needed
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,102 @@
+/**
+ * Hygiene Indices - plaque and gingival scores over the six probing sites.
+ *   PCR  O'Leary plaque control record, % of sites with plaque (the yes/no plaque row)
+ *   PlI  Silness-Löe plaque index, 0-3 per site
+ *   GI   Löe-Silness gingival index, 0-3 per site
+ * Only natural teeth count; implants and restorations without a tooth are left out.
+ */
+
+import { ToothData, MeasurementType } from '../types';
+import { MEASUREMENT_LOCATIONS } from '../constants';
+import { isNaturalTooth } from '../toothStatus';
+
+export type HygieneIndex = 'pcr' | 'plaqueIndex' | 'gingivalIndex';
+
+export const HYGIENE_INDICES: Array<{ value: HygieneIndex; label: string; short: string; max: number }> = [
+  { value: 'pcr', label: "O'Leary plaque control record", short: 'PCR', max: 100 },
+  { value: 'plaqueIndex', label: 'Silness-Löe plaque index', short: 'PlI', max: 3 },
+  { value: 'gingivalIndex', label: 'Löe-Silness gingival index', short: 'GI', max: 3 },
+];
+
+export const INDEX_SCORES = [0, 1, 2, 3];
+
+export interface OverallScores {
+  bopPercentage: number;
+  plaquePercentage: number; // PCR
+  plaqueIndex: number | null; // mean PlI, null when not scored
+  gingivalIndex: number | null; // mean GI, null when not scored
+}
+
+const scoredSites = (tooth: ToothData, type: MeasurementType.PLAQUE_INDEX | MeasurementType.GINGIVAL_INDEX): number[] => {
+  const sites = tooth.measurements[type] || {};
+  return MEASUREMENT_LOCATIONS.map(loc => sites[loc]).filter((v): v is number => typeof v === 'number');
+};
+
+const mean = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+/**
+ * Score of one tooth: PCR as a percentage, PlI and GI as the mean of the
+ * scored sites; null when the index was not recorded on this tooth
+ */
+export const getToothIndexScore = (tooth: ToothData, index: HygieneIndex): number | null => {
+  if (index === 'pcr') {
+    const plaque = tooth.measurements[MeasurementType.PLAQUE];
+    if (!plaque) return null;
+    return (MEASUREMENT_LOCATIONS.filter(loc => plaque[loc] === true).length / MEASUREMENT_LOCATIONS.length) * 100;
+  }
+  return mean(scoredSites(tooth, index === 'plaqueIndex' ? MeasurementType.PLAQUE_INDEX : MeasurementType.GINGIVAL_INDEX));
+};
+
+/**
+ * Tooth score scaled to 0-1 for the heat map, or null when not recorded
+ */
+export const getNormalizedIndexScore = (tooth: ToothData, index: HygieneIndex): number | null => {
+  const score = getToothIndexScore(tooth, index);
+  const max = HYGIENE_INDICES.find(i => i.value === index)!.max;
+  return score === null ? null : Math.min(score / max, 1);
+};
+
+/**
+ * Full-mouth BOP, PCR, PlI and GI over the natural teeth of a chart
+ */
+export const calculateOverallScores = (chart: ToothData[]): OverallScores => {
+  const natural = chart.filter(isNaturalTooth);
+  const totalSites = natural.length * MEASUREMENT_LOCATIONS.length;
+  let bopSites = 0;
+  let plaqueSites = 0;
+
+  natural.forEach(tooth => {
+    const bopData = tooth.measurements[MeasurementType.BLEEDING] || {};
+    const plaqueData = tooth.measurements[MeasurementType.PLAQUE] || {};
+    MEASUREMENT_LOCATIONS.forEach(loc => {
+      if (bopData[loc]) bopSites++;
+      if (plaqueData[loc]) plaqueSites++;
+    });
+  });
+
+  return {
+    bopPercentage: totalSites > 0 ? (bopSites / totalSites) * 100 : 0,
+    plaquePercentage: totalSites > 0 ? (plaqueSites / totalSites) * 100 : 0,
+    plaqueIndex: mean(natural.flatMap(tooth => scoredSites(tooth, MeasurementType.PLAQUE_INDEX))),
+    gingivalIndex: mean(natural.flatMap(tooth => scoredSites(tooth, MeasurementType.GINGIVAL_INDEX))),
+  };
+};
+
+/**
+ * Löe's reading of a mean PlI or GI: 0.1-1.0 mild, 1.1-2.0 moderate, 2.1-3.0 severe
+ */
+export const describeIndexScore = (score: number): string => {
+  if (score === 0) return 'none';
+  if (score <= 1) return 'mild';
+  if (score <= 2) return 'moderate';
+  return 'severe';
+};
+
+/**
+ * Score as shown in headers, e.g. "33%" for PCR or "1.2" for PlI
+ */
+export const formatIndexScore = (index: HygieneIndex, score: number | null): string => {
+  if (score === null) return '-';
+  return index === 'pcr' ? `${score.toFixed(0)}%` : score.toFixed(1);
+};
@@ -1,4 +1,6 @@
 import { ToothData } from '../types';
+import { patientStorage } from './patientStorage';
+import { isValidUniversal } from '../toothNumbering';
 
 export interface LocalToothState {
   teeth: ToothData[];
@@ -24,7 +26,7 @@ class LocalToothStorageService {
   /**
    * Save tooth data to localStorage
    */
-  saveToothData(teeth: ToothData[], patientId: string = 'default_patient'): void {
+  saveToothData(teeth: ToothData[], patientId: string = patientStorage.getActivePatientId()): void {
     const state: LocalToothState = {
       teeth,
       lastUpdated: new Date().toISOString(),
@@ -32,7 +34,7 @@ class LocalToothStorageService {
     };
     
     try {
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(state));
+      localStorage.setItem(patientStorage.scopedKey(this.STORAGE_KEY, patientId), JSON.stringify(state));
       console.log('💾 Tooth data saved to localStorage:', { teethCount: teeth.length, patientId });
     } catch (error) {
       console.error('❌ Failed to save tooth data:', error);
@@ -44,7 +46,7 @@ class LocalToothStorageService {
    */
   loadToothData(): ToothData[] | null {
     try {
-      const stored = localStorage.getItem(this.STORAGE_KEY);
+      const stored = localStorage.getItem(patientStorage.scopedKey(this.STORAGE_KEY));
       if (!stored) return null;
       
       const state: LocalToothState = JSON.parse(stored);
@@ -70,7 +72,7 @@ class LocalToothStorageService {
       const updated = existing.filter(a => a.toothId !== analysisData.toothId);
       updated.push(analysisData);
       
-      localStorage.setItem(this.ANALYSIS_KEY, JSON.stringify(updated));
+      localStorage.setItem(patientStorage.scopedKey(this.ANALYSIS_KEY), JSON.stringify(updated));
       console.log('🧠 Analysis saved for tooth:', analysisData.toothId);
     } catch (error) {
       console.error('❌ Failed to save analysis:', error);
@@ -95,7 +97,7 @@ class LocalToothStorageService {
    */
   loadAllAnalyses(): ToothAnalysisData[] {
     try {
-      const stored = localStorage.getItem(this.ANALYSIS_KEY);
+      const stored = localStorage.getItem(patientStorage.scopedKey(this.ANALYSIS_KEY));
       return stored ? JSON.parse(stored) : [];
     } catch (error) {
       console.error('❌ Failed to load analyses:', error);
@@ -104,11 +106,11 @@ class LocalToothStorageService {
   }
 
   /**
-   * Clear all stored data
+   * Clear all stored data of the selected patient
    */
   clearAllData(): void {
-    localStorage.removeItem(this.STORAGE_KEY);
-    localStorage.removeItem(this.ANALYSIS_KEY);
+    localStorage.removeItem(patientStorage.scopedKey(this.STORAGE_KEY));
+    localStorage.removeItem(patientStorage.scopedKey(this.ANALYSIS_KEY));
     console.log('🗑️ All tooth data cleared');
   }
 
@@ -127,7 +129,9 @@ class LocalToothStorageService {
   }
 
   /**
-   * Export all data for backup
+   * Export all data of the selected patient for backup, as JSON:
+   * { teeth: ToothData[], analyses: ToothAnalysisData[], exportedAt: ISO timestamp }
+   * For a chart to open in other software, see chartSpreadsheet.ts.
    */
   exportAllData(): string {
     const teeth = this.loadToothData();
@@ -141,18 +145,24 @@ class LocalToothStorageService {
   }
 
   /**
-   * Import data from backup
+   * Import a backup made by exportAllData. The whole backup is checked
+   * first; nothing is written when any part of it is malformed.
    */
   importData(jsonData: string): boolean {
     try {
       const data = JSON.parse(jsonData);
+      const problems = this.validateBackup(data);
+      if (problems.length > 0) {
+        console.error('❌ Backup rejected:', problems);
+        return false;
+      }
       
       if (data.teeth) {
         this.saveToothData(data.teeth);
       }
       
       if (data.analyses) {
-        localStorage.setItem(this.ANALYSIS_KEY, JSON.stringify(data.analyses));
+        localStorage.setItem(patientStorage.scopedKey(this.ANALYSIS_KEY), JSON.stringify(data.analyses));
       }
       
       console.log('📥 Data imported successfully');
@@ -162,6 +172,40 @@ class LocalToothStorageService {
       return false;
     }
   }
+
+  private validateBackup(data: any): string[] {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) return ['Backup is not an object'];
+    const problems: string[] = [];
+    const isObject = (value: unknown) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+    if (data.teeth !== undefined) {
+      if (!Array.isArray(data.teeth)) {
+        problems.push('teeth is not an array');
+      } else {
+        data.teeth.forEach((tooth: any, i: number) => {
+          if (!isObject(tooth) || !isValidUniversal(tooth.id)) problems.push(`teeth[${i}] has no valid tooth id`);
+          else if (!isObject(tooth.measurements)) problems.push(`teeth[${i}] (tooth ${tooth.id}) has no measurements`);
+          else Object.entries(tooth.measurements).forEach(([type, sites]) => {
+            if (!isObject(sites) || !Object.values(sites as object).every(v => typeof v === 'number' || typeof v === 'boolean' || v === undefined)) {
+              problems.push(`teeth[${i}] (tooth ${tooth.id}) has malformed ${type} values`);
+            }
+          });
+        });
+      }
+    }
+
+    if (data.analyses !== undefined) {
+      if (!Array.isArray(data.analyses)) {
+        problems.push('analyses is not an array');
+      } else {
+        data.analyses.forEach((analysis: any, i: number) => {
+          if (!isObject(analysis) || !isValidUniversal(analysis.toothId)) problems.push(`analyses[${i}] has no valid tooth id`);
+          else if (typeof analysis.analysis !== 'string' || !Array.isArray(analysis.recommendations)) problems.push(`analyses[${i}] (tooth ${analysis.toothId}) is incomplete`);
+        });
+      }
+    }
+    return problems;
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,107 @@
+/**
+ * Mouth Context - the whole chart compressed into the chat prompt: overall
+ * BOP and plaque, stage and grade, and one line per tooth from
+ * DataFormatter. Teeth are added in order of clinical priority until the
+ * token budget is spent; healthy and unprobeable teeth are listed by number.
+ */
+
+import { ToothData } from '../types';
+import { ToothNotation, formatToothNumber } from '../toothNumbering';
+import { isNaturalTooth, isProbeable, describeToothStatus } from '../toothStatus';
+import { DataFormatter, FormattedToothData } from './dataFormatter';
+import { OverallScores, formatIndexScore } from './hygieneIndices';
+import { ClassificationInputs, PeriodontalClassifier } from './periodontalClassification';
+
+export const MOUTH_CONTEXT_TOKEN_BUDGET = 1500;
+
+const SEVERITY_RANK: Record<FormattedToothData['clinicalSummary']['severity'], number> = {
+  critical: 0, severe: 1, moderate: 2, mild: 3, healthy: 4,
+};
+
+/**
+ * Rough token count of prompt text; about four characters per token for
+ * the models this app talks to
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export interface MouthContextOptions {
+  notation: ToothNotation;
+  overallScores: OverallScores;
+  classificationInputs?: ClassificationInputs;
+  tokenBudget?: number;
+}
+
+const summarizeTooth = (tooth: ToothData, formatted: FormattedToothData, notation: ToothNotation): string => {
+  const { measurements, additionalFactors, clinicalSummary } = formatted;
+  const findings = [
+    `PD max ${measurements.pocketDepths.max}`,
+    `CAL max ${measurements.clinicalAttachmentLoss.max}`,
+    `REC max ${measurements.recession.max}`,
+    `BOP ${measurements.bleeding.bleedingSites}/${measurements.bleeding.totalSites}`,
+    `plaque ${measurements.plaque.plaqueSites}/${measurements.plaque.totalSites}`,
+  ];
+  if (additionalFactors.mobility > 0) findings.push(`mobility ${additionalFactors.mobility}`);
+  if (additionalFactors.furcation.hasFurcation) findings.push(`furcation ${additionalFactors.furcation.description}`);
+  const status = isNaturalTooth(tooth) ? '' : ` (${additionalFactors.status})`;
+  return `${formatToothNumber(tooth.id, notation)} ${formatted.toothName}${status}: ${clinicalSummary.severity}; ${findings.join(', ')}`;
+};
+
+/**
+ * Prompt text describing the whole mouth within the token budget
+ */
+export const buildMouthContext = (chart: ToothData[], options: MouthContextOptions): string => {
+  const { notation, overallScores, classificationInputs = {}, tokenBudget = MOUTH_CONTEXT_TOKEN_BUDGET } = options;
+  const classification = PeriodontalClassifier.classify(chart, classificationInputs);
+  const { metrics } = classification;
+  const number = (tooth: ToothData) => formatToothNumber(tooth.id, notation);
+
+  const header = [
+    `Full-mouth chart, ${metrics.remainingTeeth} remaining teeth`,
+    `BOP: ${formatIndexScore('pcr', overallScores.bopPercentage)}; plaque (PCR): ${formatIndexScore('pcr', overallScores.plaquePercentage)}; PlI: ${formatIndexScore('plaqueIndex', overallScores.plaqueIndex)}; GI: ${formatIndexScore('gingivalIndex', overallScores.gingivalIndex)}`,
+    `Diagnosis: ${classification.summary}`,
+    `Max interdental CAL ${metrics.maxInterdentalCal} mm, max PD ${metrics.maxPocketDepth} mm, ${metrics.involvedTeethPercent.toFixed(0)}% of teeth involved, teeth lost to periodontitis: ${metrics.teethLost}`,
+  ];
+
+  const unprobeable = chart.filter(tooth => !isProbeable(tooth));
+  const formatted = chart
+    .filter(isProbeable)
+    .map(tooth => ({ tooth, formatted: DataFormatter.formatToothDataForAI(tooth) }));
+  const healthy = formatted.filter(t => t.formatted.clinicalSummary.severity === 'healthy').map(t => t.tooth);
+  const findings = formatted
+    .filter(t => t.formatted.clinicalSummary.severity !== 'healthy')
+    .sort((a, b) => SEVERITY_RANK[a.formatted.clinicalSummary.severity] - SEVERITY_RANK[b.formatted.clinicalSummary.severity]
+      || b.formatted.measurements.pocketDepths.max - a.formatted.measurements.pocketDepths.max);
+
+  const footer: string[] = [];
+  if (healthy.length > 0) footer.push(`No findings: ${healthy.map(number).join(', ')}`);
+  if (unprobeable.length > 0) footer.push(`Not probeable: ${unprobeable.map(t => `${number(t)} ${describeToothStatus(t)}`).join(', ')}`);
+
+  const sectionTitle = 'Teeth with findings (mm):';
+  const omittedTitle = 'Findings left out to save space (read them with get_tooth):';
+
+  // Worst teeth first until the budget is spent; the rest are named so the model can look them up
+  let remaining = tokenBudget - estimateTokens([...header, ...footer, sectionTitle, omittedTitle].join('\n'));
+  const included: typeof findings = [];
+  const omitted: ToothData[] = [];
+  findings.forEach(entry => {
+    const line = summarizeTooth(entry.tooth, entry.formatted, notation);
+    const cost = estimateTokens(line) + 1;
+    if (cost <= remaining) {
+      included.push(entry);
+      remaining -= cost;
+    } else {
+      omitted.push(entry.tooth);
+      remaining -= estimateTokens(` ${number(entry.tooth)},`);
+    }
+  });
+
+  const toothLines = included
+    .sort((a, b) => a.tooth.id - b.tooth.id)
+    .map(entry => summarizeTooth(entry.tooth, entry.formatted, notation));
+  if (omitted.length > 0) {
+    footer.push(`${omittedTitle} ${omitted.sort((a, b) => a.id - b.id).map(number).join(', ')}`);
+  }
+
+  if (toothLines.length > 0) toothLines.unshift(sectionTitle);
+  return [...header, ...toothLines, ...footer].join('\n');
+};
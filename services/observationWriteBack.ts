@@ -0,0 +1,271 @@
+/**
+ * Observation Write-back - sends manual chart edits to clinical_observations
+ * and arbitrates when a voice-agent row for the same site arrives at about the
+ * same time. Edits go through an offline queue first, so nothing is lost
+ * while the database is unreachable; conflicts are settled per site by the
+ * selected policy.
+ */
+
+import { MeasurementType, MeasurementSiteValue } from '../types';
+import { buildDbMeasurement, cleanDbValue, processDbMeasurements, DbMeasurement, ObservationWriteContext } from '../dbDataSync';
+import { upsertClinicalObservations } from '../supabaseConfig';
+import { offlineQueue } from './offlineQueue';
+import { createUuid } from './uuid';
+
+// Manual edits are written under their own session so they never mix with a recording
+export const MANUAL_SESSION_PREFIX = 'MANUAL_';
+
+// Edits and incoming rows this close together count as concurrent
+const CONFLICT_WINDOW_MS = 30000;
+const RETRY_INITIAL_MS = 5000;
+const RETRY_MAX_MS = 60000;
+
+/**
+ * How a concurrent disagreement on one site is settled:
+ * - last-writer-wins: the later created_at wins
+ * - prefer-clinician: the manual edit wins
+ * - prompt: the incoming value is held until the clinician picks one
+ */
+export type ConflictPolicy = 'last-writer-wins' | 'prefer-clinician' | 'prompt';
+
+export const CONFLICT_POLICIES: Array<{ value: ConflictPolicy; label: string }> = [
+  { value: 'last-writer-wins', label: 'Last writer wins' },
+  { value: 'prefer-clinician', label: 'Prefer clinician' },
+  { value: 'prompt', label: 'Ask me' },
+];
+
+export type WriteStatus = 'saved' | 'queued';
+
+export interface SiteUpdate {
+  toothId: number;
+  location: string;
+  type: MeasurementType;
+  value: MeasurementSiteValue;
+}
+
+// A synced site update, as produced by processDbMeasurements
+export interface IncomingSiteUpdate extends SiteUpdate {
+  rowId: string;
+  sessionId: string;
+  createdAt: string;
+}
+
+export interface SiteConflict {
+  id: string; // one open conflict per site
+  toothId: number;
+  location: string;
+  type: MeasurementType;
+  manualValue: MeasurementSiteValue;
+  incomingValue: MeasurementSiteValue;
+  source: 'voice' | 'manual'; // manual: an edit made on another device
+  policy: ConflictPolicy;
+  winner: 'manual' | 'incoming' | null; // null: waiting for the clinician
+}
+
+interface ManualEdit {
+  value: MeasurementSiteValue;
+  editedAt: string;
+  queued: boolean; // not confirmed by the database yet
+}
+
+class ObservationWriteBackService {
+  private readonly POLICY_KEY = 'sync_conflict_policy';
+  private edits = new Map<string, ManualEdit>();
+  private writtenIds = new Set<string>();
+  private conflictListeners = new Set<(conflict: SiteConflict) => void>();
+  private queueListeners = new Set<(pending: number) => void>();
+  private restored: Promise<void> | null = null;
+  private flushing: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryMs = RETRY_INITIAL_MS;
+
+  /**
+   * Load edits queued in an earlier session and replay them. Safe to call
+   * more than once.
+   */
+  init(): Promise<void> {
+    if (!this.restored) {
+      if (typeof window !== 'undefined') {
+        window.addEventListener('online', () => this.flush());
+      }
+      this.restored = offlineQueue.list().then(entries => {
+        entries.forEach(({ row }) => {
+          this.writtenIds.add(row.id);
+          const update = this.rowToUpdate(row);
+          if (update) this.edits.set(this.siteKey(row.patient_id, update), { value: update.value, editedAt: row.created_at, queued: true });
+        });
+        if (entries.length > 0) console.log(`📥 Restored ${entries.length} queued chart edits`);
+      }).catch(error => {
+        console.error('❌ Failed to restore queued edits:', error);
+      });
+      this.restored.then(() => this.flush());
+    }
+    return this.restored;
+  }
+
+  getPolicy(): ConflictPolicy {
+    const stored = localStorage.getItem(this.POLICY_KEY);
+    return CONFLICT_POLICIES.some(p => p.value === stored) ? stored as ConflictPolicy : 'last-writer-wins';
+  }
+
+  setPolicy(policy: ConflictPolicy): void {
+    localStorage.setItem(this.POLICY_KEY, policy);
+  }
+
+  /**
+   * Session id that manual edits of a visit are written under
+   */
+  manualSessionId(visitId: string): string {
+    return `${MANUAL_SESSION_PREFIX}${visitId}`;
+  }
+
+  /**
+   * Queue one manual edit and try to write it. Returns null when the update
+   * has no row representation and is kept locally only.
+   */
+  async recordEdit(update: SiteUpdate, context: ObservationWriteContext): Promise<WriteStatus | null> {
+    const editedAt = new Date().toISOString();
+    const row = buildDbMeasurement(update, context, createUuid(), editedAt);
+    if (!row) return null;
+
+    this.edits.set(this.siteKey(context.patientId, update), { value: update.value, editedAt, queued: true });
+    this.writtenIds.add(row.id);
+
+    try {
+      await offlineQueue.put({ id: row.id, row, queuedAt: editedAt, attempts: 0 });
+    } catch (error) {
+      console.error('❌ Failed to queue chart edit:', error);
+    }
+    await this.flush();
+    return this.edits.get(this.siteKey(context.patientId, update))?.queued ? 'queued' : 'saved';
+  }
+
+  /**
+   * Replay queued edits oldest first. Stops at the first failure and retries
+   * later with backoff; a call while a replay runs waits for it.
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.replayQueue().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * Drop synced updates that must not reach the chart: echoes of our own
+   * writes, rows older than a manual edit of the same site, and concurrent
+   * rows the policy settles in favour of the clinician or holds for a prompt.
+   */
+  resolveIncoming<T extends IncomingSiteUpdate>(patientId: string, updates: T[]): T[] {
+    const policy = this.getPolicy();
+
+    return updates.filter(update => {
+      if (this.writtenIds.has(update.rowId)) return false;
+
+      const key = this.siteKey(patientId, update);
+      const edit = this.edits.get(key);
+      if (!edit) return true;
+
+      const incomingIsNewer = update.createdAt >= edit.editedAt;
+      const gap = Math.abs(Date.parse(update.createdAt) - Date.parse(edit.editedAt));
+      // An edit still in the queue was never seen by the other writer
+      const concurrent = edit.queued || gap <= CONFLICT_WINDOW_MS;
+
+      if (!concurrent || update.value === edit.value) {
+        // A newer reading supersedes the edit; later rows compare against it normally
+        if (incomingIsNewer) this.edits.delete(key);
+        return incomingIsNewer;
+      }
+
+      const winner = policy === 'prompt' ? null
+        : policy === 'prefer-clinician' ? 'manual'
+        : incomingIsNewer ? 'incoming' : 'manual';
+      const conflict: SiteConflict = {
+        id: `${update.toothId}|${update.type}|${update.location}`,
+        toothId: update.toothId,
+        location: update.location,
+        type: update.type,
+        manualValue: edit.value,
+        incomingValue: update.value,
+        source: update.sessionId.startsWith(MANUAL_SESSION_PREFIX) ? 'manual' : 'voice',
+        policy,
+        winner,
+      };
+      console.warn('⚠️ Sync conflict:', conflict);
+      this.conflictListeners.forEach(listener => listener(conflict));
+
+      if (winner === 'incoming') this.edits.delete(key);
+      return winner === 'incoming';
+    });
+  }
+
+  /**
+   * Subscribe to conflicts; returns the unsubscribe function
+   */
+  onConflict(listener: (conflict: SiteConflict) => void): () => void {
+    this.conflictListeners.add(listener);
+    return () => {
+      this.conflictListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to the number of edits waiting in the queue
+   */
+  onQueueChange(listener: (pending: number) => void): () => void {
+    this.queueListeners.add(listener);
+    return () => {
+      this.queueListeners.delete(listener);
+    };
+  }
+
+  private async replayQueue(): Promise<void> {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+
+    let entries = await offlineQueue.list().catch(() => []);
+    while (entries.length > 0) {
+      const [entry, ...rest] = entries;
+      const saved = await upsertClinicalObservations([entry.row]);
+      if (!saved) {
+        await offlineQueue.put({ ...entry, attempts: entry.attempts + 1 }).catch(() => {});
+        this.notifyQueue(entries.length);
+        console.warn(`📴 Database unreachable, ${entries.length} chart edits queued (retry in ${this.retryMs / 1000} s)`);
+        this.retryTimer = setTimeout(() => this.flush(), this.retryMs);
+        this.retryMs = Math.min(this.retryMs * 2, RETRY_MAX_MS);
+        return;
+      }
+
+      await offlineQueue.remove(entry.id).catch(() => {});
+      this.markSaved(entry.row);
+      entries = rest;
+    }
+    this.retryMs = RETRY_INITIAL_MS;
+    this.notifyQueue(0);
+  }
+
+  private markSaved(row: DbMeasurement): void {
+    const update = this.rowToUpdate(row);
+    if (!update) return;
+    const edit = this.edits.get(this.siteKey(row.patient_id, update));
+    if (edit && edit.editedAt === row.created_at) edit.queued = false;
+    console.log(`💾 Manual edit written back: #${update.toothId} ${update.location} ${update.type} = ${update.value}`);
+  }
+
+  // Manual rows carry exactly one site
+  private rowToUpdate(row: DbMeasurement): SiteUpdate | null {
+    return processDbMeasurements([row]).updates[0] || null;
+  }
+
+  private notifyQueue(pending: number): void {
+    this.queueListeners.forEach(listener => listener(pending));
+  }
+
+  private siteKey(patientId: string, update: SiteUpdate): string {
+    return `${cleanDbValue(patientId)}|${update.toothId}|${update.type}|${update.location}`;
+  }
+}
+
+export const observationWriteBack = new ObservationWriteBackService();
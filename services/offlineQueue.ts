@@ -0,0 +1,84 @@
+/**
+ * Offline Queue - IndexedDB store of chart edits that have not reached the
+ * database yet. Entries survive reloads and are replayed oldest first; when
+ * IndexedDB is unavailable (private windows, tests) an in-memory map is used.
+ */
+
+import { DbMeasurement } from '../dbDataSync';
+
+export interface QueuedWrite {
+  id: string; // same as row.id
+  row: DbMeasurement;
+  queuedAt: string;
+  attempts: number;
+}
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+class OfflineQueueService {
+  private readonly DB_NAME = 'periodontal_sync';
+  private readonly STORE = 'pending_writes';
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private memory = new Map<string, QueuedWrite>();
+
+  /**
+   * Add or replace a queued write
+   */
+  async put(entry: QueuedWrite): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      this.memory.set(entry.id, entry);
+      return;
+    }
+    await requestResult(db.transaction(this.STORE, 'readwrite').objectStore(this.STORE).put(entry));
+  }
+
+  /**
+   * Remove a write once the database has accepted it
+   */
+  async remove(id: string): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      this.memory.delete(id);
+      return;
+    }
+    await requestResult(db.transaction(this.STORE, 'readwrite').objectStore(this.STORE).delete(id));
+  }
+
+  /**
+   * All queued writes, oldest edit first
+   */
+  async list(): Promise<QueuedWrite[]> {
+    const db = await this.open();
+    const entries = db
+      ? await requestResult(db.transaction(this.STORE, 'readonly').objectStore(this.STORE).getAll() as IDBRequest<QueuedWrite[]>)
+      : Array.from(this.memory.values());
+    return entries.sort((a, b) => a.row.created_at.localeCompare(b.row.created_at));
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        const request = indexedDB.open(this.DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.STORE, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('⚠️ IndexedDB unavailable, queueing edits in memory:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+export const offlineQueue = new OfflineQueueService();
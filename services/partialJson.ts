@@ -0,0 +1,83 @@
+/**
+ * Partial JSON - reads the JSON object in a model reply while it is still
+ * streaming, or when the model wrapped it in prose or code fences. Open
+ * strings, arrays and objects are closed; a member cut off before its value
+ * is dropped.
+ */
+
+interface ScanResult {
+  stack: string[]; // open '{' and '[' in order
+  inString: boolean;
+  end: number; // index after the top-level value closed, or -1
+  cuts: number[]; // positions where the text can be truncated to whole members
+}
+
+const scan = (text: string): ScanResult => {
+  const stack: string[] = [];
+  const cuts: number[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char);
+      cuts.push(i + 1);
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      if (stack.length === 0) return { stack, inString, end: i + 1, cuts };
+      cuts.push(i + 1);
+    } else if (char === ',') {
+      cuts.push(i);
+    }
+  }
+  return { stack, inString, end: -1, cuts };
+};
+
+// Close whatever the truncated text left open
+const complete = (text: string): string => {
+  const { stack, inString } = scan(text);
+  let closed = text;
+  if (inString) closed = closed.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '') + '"';
+  closed = closed.replace(/[\s,]+$/, '');
+  if (closed.endsWith(':')) closed += 'null';
+  return closed + stack.reverse().map(open => (open === '{' ? '}' : ']')).join('');
+};
+
+const tryParse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * The first JSON object or array in the text, completed if it is cut off;
+ * undefined while nothing parseable has arrived
+ */
+export const parsePartialJson = (text: string): any => {
+  const start = text.search(/[{[]/);
+  if (start === -1) return undefined;
+  const source = text.slice(start);
+
+  const { end, cuts } = scan(source);
+  if (end !== -1) return tryParse(source.slice(0, end));
+
+  // Drop trailing members one at a time until the rest parses
+  const parsed = tryParse(complete(source));
+  if (parsed !== undefined) return parsed;
+  for (let i = cuts.length - 1; i >= 0; i--) {
+    const candidate = tryParse(complete(source.slice(0, cuts[i])));
+    if (candidate !== undefined) return candidate;
+  }
+  return undefined;
+};
@@ -0,0 +1,175 @@
+import { Patient, Dentition } from '../types';
+
+export type NewPatient = Omit<Patient, 'id' | 'createdAt'>;
+
+// Patient that pre-existing, unscoped data is migrated to on first run
+export const DEFAULT_PATIENT_ID = 'default_patient';
+
+// Storage keys written before charts were scoped per patient
+const LEGACY_KEYS = [
+  'periodontal_tooth_data',
+  'tooth_analysis_data',
+  'overall_analysis_cache',
+  'periodontal_visits',
+  'periodontal_risk_inputs',
+  'tooth_transforms',
+];
+
+/**
+ * Age in whole years on the given date
+ */
+export const getPatientAge = (patient: Patient, on: Date = new Date()): number | undefined => {
+  const dob = new Date(patient.dateOfBirth);
+  if (isNaN(dob.getTime())) return undefined;
+  let age = on.getFullYear() - dob.getFullYear();
+  const beforeBirthday = on.getMonth() < dob.getMonth() || (on.getMonth() === dob.getMonth() && on.getDate() < dob.getDate());
+  if (beforeBirthday) age--;
+  return age;
+};
+
+/**
+ * Dentition a new chart starts with: the recorded one, otherwise a guess from
+ * age (primary under 6, mixed under 12)
+ */
+export const getPatientDentition = (patient: Patient): Dentition => {
+  if (patient.dentition) return patient.dentition;
+  const age = getPatientAge(patient);
+  if (age === undefined || age >= 12) return 'permanent';
+  return age < 6 ? 'primary' : 'mixed';
+};
+
+/**
+ * Id used for this patient's rows in clinical_observations
+ */
+export const getPatientRecordNumber = (patient: Patient): string => patient.recordNumber || patient.id;
+
+/**
+ * Keeps the patient list and which patient is selected. Other services call
+ * scopedKey() so everything they store belongs to the selected patient.
+ */
+class PatientStorageService {
+  private readonly PATIENTS_KEY = 'periodontal_patients';
+  private readonly ACTIVE_KEY = 'periodontal_active_patient';
+  private activePatientId: string | null = null;
+
+  /**
+   * List all patients, alphabetically
+   */
+  listPatients(): Patient[] {
+    try {
+      const stored = localStorage.getItem(this.PATIENTS_KEY);
+      const patients: Patient[] = stored ? JSON.parse(stored) : [];
+      return patients.sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error('❌ Failed to load patients:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Find patients by name, id, record number or date of birth
+   */
+  searchPatients(query: string): Patient[] {
+    const q = query.trim().toLowerCase();
+    if (!q) return this.listPatients();
+    return this.listPatients().filter(p =>
+      p.name.toLowerCase().includes(q) || p.id.toLowerCase().includes(q) || (p.recordNumber || '').toLowerCase().includes(q) || p.dateOfBirth.includes(q)
+    );
+  }
+
+  getPatient(patientId: string): Patient | null {
+    return this.listPatients().find(p => p.id === patientId) || null;
+  }
+
+  createPatient(data: NewPatient): Patient {
+    const patient: Patient = {
+      ...data,
+      id: `PAT_${Date.now()}`,
+      createdAt: new Date().toISOString(),
+    };
+    this.writePatients([...this.listPatients(), patient]);
+    console.log('🧑 Patient created:', patient.id);
+    return patient;
+  }
+
+  updatePatient(patientId: string, changes: Partial<NewPatient>): Patient | null {
+    const patients = this.listPatients();
+    const index = patients.findIndex(p => p.id === patientId);
+    if (index === -1) return null;
+    patients[index] = { ...patients[index], ...changes };
+    this.writePatients(patients);
+    return patients[index];
+  }
+
+  /**
+   * The selected patient. On first run a default patient is created and any
+   * data stored before patients existed is moved to it.
+   */
+  getActivePatient(): Patient {
+    const activeId = this.activePatientId || localStorage.getItem(this.ACTIVE_KEY);
+    const active = activeId ? this.getPatient(activeId) : null;
+    if (active) {
+      this.activePatientId = active.id;
+      return active;
+    }
+
+    const fallback = this.listPatients()[0] || this.createDefaultPatient();
+    this.setActivePatient(fallback.id);
+    return fallback;
+  }
+
+  getActivePatientId(): string {
+    return this.activePatientId || this.getActivePatient().id;
+  }
+
+  setActivePatient(patientId: string): void {
+    this.activePatientId = patientId;
+    try {
+      localStorage.setItem(this.ACTIVE_KEY, patientId);
+    } catch (error) {
+      console.error('❌ Failed to save active patient:', error);
+    }
+    console.log('🧑 Active patient:', patientId);
+  }
+
+  /**
+   * Storage key for data belonging to the selected patient
+   */
+  scopedKey(baseKey: string, patientId: string = this.getActivePatientId()): string {
+    return `${baseKey}:${patientId}`;
+  }
+
+  private createDefaultPatient(): Patient {
+    const patient: Patient = {
+      id: DEFAULT_PATIENT_ID,
+      name: 'Demo Patient',
+      dateOfBirth: '',
+      sex: 'unknown',
+      smokingStatus: 'never',
+      hasDiabetes: false,
+      medications: [],
+      createdAt: new Date().toISOString(),
+    };
+    this.writePatients([...this.listPatients(), patient]);
+
+    LEGACY_KEYS.forEach(key => {
+      const legacy = localStorage.getItem(key);
+      if (legacy === null) return;
+      localStorage.setItem(this.scopedKey(key, patient.id), legacy);
+      localStorage.removeItem(key);
+      console.log('📦 Migrated legacy data to default patient:', key);
+    });
+    return patient;
+  }
+
+  private writePatients(patients: Patient[]): void {
+    try {
+      localStorage.setItem(this.PATIENTS_KEY, JSON.stringify(patients));
+    } catch (error) {
+      console.error('❌ Failed to save patients:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const patientStorage = new PatientStorageService();
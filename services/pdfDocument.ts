@@ -0,0 +1,208 @@
+/**
+ * PDF Document - a small PDF 1.4 writer for reports made in the browser.
+ * Pages are A4 portrait in points with the origin at the top left. Text uses
+ * the built-in Helvetica fonts and images are embedded as JPEG, so no font or
+ * library has to be loaded.
+ */
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+export interface TextStyle {
+  size?: number;
+  bold?: boolean;
+  color?: string; // #rrggbb
+}
+
+export interface LineStyle {
+  width?: number;
+  color?: string;
+  dash?: number[];
+}
+
+export interface JpegImage {
+  data: Uint8Array;
+  width: number; // pixels
+  height: number;
+}
+
+// Characters the standard fonts cannot show, written the way a typist would
+const REPLACEMENTS: Record<string, string> = {
+  '–': '-', '—': '-', '‘': "'", '’': "'", '“': '"', '”': '"', '…': '...', '•': '-',
+  '≥': '>=', '≤': '<=', '→': '->', '←': '<-', '×': 'x', '±': '+/-',
+  '┘': '', '└': '', '┌': '', '┐': '',
+};
+
+/**
+ * Text reduced to Latin-1, which Helvetica's WinAnsi encoding covers
+ */
+export const toPdfText = (text: string): string =>
+  Array.from(text)
+    .map(char => REPLACEMENTS[char] ?? char)
+    .join('')
+    .replace(/[\u0000-\u0008\u000b-\u001f\u007f-\u009f]/g, '')
+    .replace(/[^\u0000-ÿ]/g, '?');
+
+// Helvetica advance widths, close enough for wrapping and right alignment
+const charWidth = (char: string): number => {
+  if (char === ' ') return 0.278;
+  if (/[iljtf.,:;'|!()[\]]/.test(char)) return 0.3;
+  if (/[mwMW%@]/.test(char)) return 0.86;
+  if (/[A-Z]/.test(char)) return 0.69;
+  return 0.556;
+};
+
+const toRgb = (color: string): string => {
+  const hex = color.replace('#', '');
+  return [0, 2, 4].map(i => (parseInt(hex.slice(i, i + 2), 16) / 255).toFixed(3)).join(' ');
+};
+
+const num = (value: number): string => value.toFixed(2);
+
+const escapeText = (text: string): string => text.replace(/[\\()]/g, match => `\\${match}`);
+
+const toBytes = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+};
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private images: JpegImage[] = [];
+  private current = -1;
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+  }
+
+  /**
+   * Draw on an earlier page, e.g. headers and "page n of m" once the
+   * number of pages is known
+   */
+  setPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) throw new Error(`No page ${index + 1}`);
+    this.current = index;
+  }
+
+  textWidth(text: string, size: number, bold = false): number {
+    const width = Array.from(toPdfText(text)).reduce((sum, char) => sum + charWidth(char), 0) * size;
+    return bold ? width * 1.05 : width;
+  }
+
+  /**
+   * Split text into lines no wider than maxWidth; explicit newlines are kept
+   */
+  wrapText(text: string, maxWidth: number, size: number, bold = false): string[] {
+    return text.split('\n').flatMap(paragraph => {
+      const lines: string[] = [];
+      let line = '';
+      paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && this.textWidth(candidate, size, bold) > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+      return [...lines, line];
+    });
+  }
+
+  /**
+   * Text with its baseline at y
+   */
+  text(x: number, y: number, text: string, style: TextStyle = {}): void {
+    const { size = 10, bold = false, color = '#000000' } = style;
+    this.draw(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${toRgb(color)} rg ${num(x)} ${num(PAGE_HEIGHT - y)} Td (${escapeText(toPdfText(text))}) Tj ET`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, style: LineStyle = {}): void {
+    const { width = 0.5, color = '#000000', dash = [] } = style;
+    this.draw(`q ${num(width)} w ${toRgb(color)} RG [${dash.join(' ')}] 0 d ${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l S Q`);
+  }
+
+  rect(x: number, y: number, width: number, height: number, style: { fill?: string; stroke?: string; lineWidth?: number } = {}): void {
+    const { fill, stroke, lineWidth = 0.5 } = style;
+    if (!fill && !stroke) return;
+    const paint = fill && stroke ? 'B' : fill ? 'f' : 'S';
+    const colors = `${fill ? `${toRgb(fill)} rg ` : ''}${stroke ? `${toRgb(stroke)} RG ` : ''}`;
+    this.draw(`q ${num(lineWidth)} w ${colors}${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re ${paint} Q`);
+  }
+
+  /**
+   * Place a JPEG with its top left corner at (x, y)
+   */
+  image(image: JpegImage, x: number, y: number, width: number, height: number): void {
+    this.images.push(image);
+    const name = `Im${this.images.length}`;
+    this.draw(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(PAGE_HEIGHT - y - height)} cm /${name} Do Q`);
+  }
+
+  toBlob(): Blob {
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (data: string | Uint8Array) => {
+      const bytes = typeof data === 'string' ? toBytes(data) : data;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+    const object = (id: number, body: string, stream?: Uint8Array) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n${body}\n`);
+      if (stream) {
+        write('stream\n');
+        write(stream);
+        write('\nendstream\n');
+      }
+      write('endobj\n');
+    };
+
+    // 1 catalog, 2 page tree, 3-4 fonts, then images, then a content stream and page per page
+    const firstImage = 5;
+    const firstPage = firstImage + this.images.length;
+    const pageIds = this.pages.map((_, i) => firstPage + i * 2 + 1);
+    const xObjects = this.images.map((_, i) => `/Im${i + 1} ${firstImage + i} 0 R`).join(' ');
+
+    write('%PDF-1.4\n%âãÏÓ\n');
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>`);
+    object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    this.images.forEach((image, i) => {
+      object(
+        firstImage + i,
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>`,
+        image.data,
+      );
+    });
+    this.pages.forEach((operations, i) => {
+      const content = toBytes(operations.join('\n'));
+      object(firstPage + i * 2, `<< /Length ${content.length} >>`, content);
+      object(
+        pageIds[i],
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >> /Contents ${firstPage + i * 2} 0 R >>`,
+      );
+    });
+
+    const xrefOffset = length;
+    const objectCount = firstPage + this.pages.length * 2;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+  }
+
+  private draw(operation: string): void {
+    if (this.current < 0) this.addPage();
+    this.pages[this.current].push(operation);
+  }
+}
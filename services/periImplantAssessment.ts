@@ -0,0 +1,53 @@
+/**
+ * Peri-implant Assessment - 2017 World Workshop case definitions for implants.
+ * Implants are probed at the same six sites as teeth but judged on their own
+ * thresholds. Without a baseline radiograph, bleeding or suppuration with a
+ * probing depth of 6 mm or more is read as peri-implantitis.
+ */
+
+import { ToothData, MeasurementType } from '../types';
+import { MEASUREMENT_LOCATIONS } from '../constants';
+
+export type PeriImplantDiagnosis = 'health' | 'mucositis' | 'peri-implantitis';
+
+export const PERI_IMPLANT_THRESHOLDS = {
+  pocketDepth: 6, // mm, peri-implantitis together with BOP/SUP
+  pocketDepthWatch: 5, // mm, deeper than a healthy implant is expected to probe
+  boneLevel: 3, // mm apical to the implant shoulder, confirms it on a radiograph
+};
+
+export interface PeriImplantAssessment {
+  diagnosis: PeriImplantDiagnosis;
+  maxPocketDepth: number;
+  bleedingSites: number;
+  suppurationSites: number;
+  summary: string;
+}
+
+const countSites = (tooth: ToothData, type: MeasurementType) => {
+  const sites = tooth.measurements[type] || {};
+  return MEASUREMENT_LOCATIONS.filter(loc => sites[loc] === true).length;
+};
+
+/**
+ * Diagnose one implant from its six-site probing
+ */
+export const assessPeriImplant = (tooth: ToothData): PeriImplantAssessment => {
+  const pd = tooth.measurements[MeasurementType.POCKET_DEPTH] || {};
+  const maxPocketDepth = Math.max(0, ...MEASUREMENT_LOCATIONS.map(loc => (typeof pd[loc] === 'number' ? pd[loc] as number : 0)));
+  const bleedingSites = countSites(tooth, MeasurementType.BLEEDING);
+  const suppurationSites = countSites(tooth, MeasurementType.SUPPURATION);
+  const inflamed = bleedingSites > 0 || suppurationSites > 0;
+
+  let diagnosis: PeriImplantDiagnosis = 'health';
+  let summary = `Peri-implant health (no BOP/SUP, max PD ${maxPocketDepth} mm)`;
+  if (inflamed && maxPocketDepth >= PERI_IMPLANT_THRESHOLDS.pocketDepth) {
+    diagnosis = 'peri-implantitis';
+    summary = `Peri-implantitis: BOP/SUP with PD ${maxPocketDepth} mm (≥${PERI_IMPLANT_THRESHOLDS.pocketDepth}); confirm bone level ≥${PERI_IMPLANT_THRESHOLDS.boneLevel} mm on a radiograph`;
+  } else if (inflamed) {
+    diagnosis = 'mucositis';
+    summary = `Peri-implant mucositis: ${bleedingSites} BOP, ${suppurationSites} SUP sites, max PD ${maxPocketDepth} mm`;
+  }
+
+  return { diagnosis, maxPocketDepth, bleedingSites, suppurationSites, summary };
+};
@@ -0,0 +1,232 @@
+/**
+ * Periodontal Classification - 2017 AAP/EFP staging and grading
+ * Deterministic classifier over the full chart. Every decision is recorded in a
+ * rule trail so the result can be audited and explained to the patient.
+ */
+
+import { ToothData, MeasurementType, MeasurementLocation } from '../types';
+import { MEASUREMENT_LOCATIONS } from '../constants';
+import { calculateData } from '../chartCalculations';
+import { isUpperArch } from '../toothNumbering';
+import { isNaturalTooth, isToothLost, isLostToPeriodontitis } from '../toothStatus';
+import { getMaxFurcationClass } from '../furcation';
+
+export type PeriodontitisStage = 'I' | 'II' | 'III' | 'IV';
+export type PeriodontitisExtent = 'localized' | 'generalized' | 'molar-incisor';
+export type PeriodontitisGrade = 'A' | 'B' | 'C';
+
+// Patient-level evidence used for grading; all optional
+export interface ClassificationInputs {
+  ageYears?: number;
+  boneLossPercent?: number; // radiographic bone loss at the worst site
+  calLossOver5Years?: number; // mm, direct evidence of progression
+  cigarettesPerDay?: number;
+  hasDiabetes?: boolean;
+  hba1c?: number;
+}
+
+export interface ClassificationRule {
+  dimension: 'case' | 'stage' | 'extent' | 'grade';
+  rule: string;
+  result: string;
+}
+
+export interface ClassificationMetrics {
+  maxInterdentalCal: number;
+  maxPocketDepth: number;
+  teethLost: number;
+  remainingTeeth: number;
+  involvedTeethPercent: number;
+  maxFurcation: number;
+  maxMobility: number;
+}
+
+export interface PeriodontalClassification {
+  hasPeriodontitis: boolean;
+  stage: PeriodontitisStage | null;
+  extent: PeriodontitisExtent | null;
+  grade: PeriodontitisGrade | null;
+  metrics: ClassificationMetrics;
+  rules: ClassificationRule[];
+  summary: string;
+}
+
+const INTERDENTAL_LOCATIONS: MeasurementLocation[] = MEASUREMENT_LOCATIONS.filter(loc => !loc.startsWith('mid_'));
+const STAGE_ORDER: PeriodontitisStage[] = ['I', 'II', 'III', 'IV'];
+const GRADE_ORDER: PeriodontitisGrade[] = ['A', 'B', 'C'];
+
+const isFirstMolar = (id: number) => [3, 14, 19, 30].includes(id);
+const isIncisor = (id: number) => [7, 8, 9, 10, 23, 24, 25, 26].includes(id);
+const areAdjacent = (a: number, b: number) => Math.abs(a - b) === 1 && isUpperArch(a) === isUpperArch(b);
+
+const maxStage = (a: PeriodontitisStage, b: PeriodontitisStage) =>
+  STAGE_ORDER[Math.max(STAGE_ORDER.indexOf(a), STAGE_ORDER.indexOf(b))];
+const maxGrade = (a: PeriodontitisGrade, b: PeriodontitisGrade) =>
+  GRADE_ORDER[Math.max(GRADE_ORDER.indexOf(a), GRADE_ORDER.indexOf(b))];
+
+export class PeriodontalClassifier {
+  /**
+   * Classify the whole chart into stage, extent and grade
+   */
+  static classify(chart: ToothData[], inputs: ClassificationInputs = {}): PeriodontalClassification {
+    const rules: ClassificationRule[] = [];
+    // Implants are assessed on their own (periImplantAssessment); only natural teeth are staged
+    const present = chart.filter(isNaturalTooth);
+
+    const interdentalCal = new Map<number, number>();
+    present.forEach(tooth => {
+      const cal = tooth.cal || calculateData(tooth).cal;
+      const values = INTERDENTAL_LOCATIONS.map(loc => (typeof cal[loc] === 'number' ? cal[loc] as number : 0));
+      interdentalCal.set(tooth.id, Math.max(0, ...values));
+    });
+
+    const metrics: ClassificationMetrics = {
+      maxInterdentalCal: Math.max(0, ...interdentalCal.values()),
+      maxPocketDepth: Math.max(0, ...present.map(t => this.maxPocketDepth(t))),
+      // Only loss recorded as due to periodontitis counts toward staging
+      teethLost: chart.filter(isLostToPeriodontitis).length,
+      remainingTeeth: present.length,
+      involvedTeethPercent: 0,
+      maxFurcation: Math.max(0, ...present.map(getMaxFurcationClass)),
+      maxMobility: Math.max(0, ...present.map(t => t.mobility || 0)),
+    };
+
+    // --- Case definition: interdental CAL at >= 2 non-adjacent teeth ---
+    const teethWithCal = present.filter(t => (interdentalCal.get(t.id) || 0) >= 1).map(t => t.id);
+    const hasNonAdjacentPair = teethWithCal.some(a => teethWithCal.some(b => a !== b && !areAdjacent(a, b)));
+    if (!hasNonAdjacentPair) {
+      rules.push({ dimension: 'case', rule: 'Interdental CAL detectable at ≥2 non-adjacent teeth', result: `Not met (${teethWithCal.length} teeth with interdental CAL)` });
+      return { hasPeriodontitis: false, stage: null, extent: null, grade: null, metrics, rules, summary: 'No periodontitis (2017 case definition not met)' };
+    }
+    rules.push({ dimension: 'case', rule: 'Interdental CAL detectable at ≥2 non-adjacent teeth', result: `Met (${teethWithCal.length} teeth)` });
+
+    // --- Stage: severity ---
+    const calStage = this.stageFromCal(metrics.maxInterdentalCal);
+    let stage = calStage;
+    rules.push({ dimension: 'stage', rule: `Max interdental CAL ${metrics.maxInterdentalCal} mm (1-2 → I, 3-4 → II, ≥5 → III)`, result: `Stage ${calStage}` });
+
+    const lostOtherwise = chart.filter(t => isToothLost(t) && !isLostToPeriodontitis(t)).length;
+    if (lostOtherwise > 0) {
+      rules.push({ dimension: 'stage', rule: `${lostOtherwise} teeth lost for other or unrecorded reasons`, result: 'Not counted' });
+    }
+
+    if (metrics.teethLost >= 5) {
+      stage = maxStage(stage, 'IV');
+      rules.push({ dimension: 'stage', rule: `Tooth loss due to periodontitis ${metrics.teethLost} (≥5 → IV)`, result: 'Stage IV' });
+    } else if (metrics.teethLost >= 1) {
+      stage = maxStage(stage, 'III');
+      rules.push({ dimension: 'stage', rule: `Tooth loss due to periodontitis ${metrics.teethLost} (1-4 → III)`, result: 'Stage III' });
+    }
+
+    // --- Stage: complexity ---
+    if (metrics.maxPocketDepth >= 6) {
+      stage = maxStage(stage, 'III');
+      rules.push({ dimension: 'stage', rule: `Max probing depth ${metrics.maxPocketDepth} mm (≥6 → III)`, result: 'Stage III' });
+    } else if (metrics.maxPocketDepth === 5) {
+      stage = maxStage(stage, 'II');
+      rules.push({ dimension: 'stage', rule: 'Max probing depth 5 mm (≤5 → II)', result: 'Stage II' });
+    }
+    if (metrics.maxFurcation >= 2) {
+      stage = maxStage(stage, 'III');
+      rules.push({ dimension: 'stage', rule: `Furcation involvement class ${metrics.maxFurcation} (II/III → III)`, result: 'Stage III' });
+    }
+    if (stage === 'III' || stage === 'IV') {
+      if (metrics.maxMobility >= 2) {
+        stage = 'IV';
+        rules.push({ dimension: 'stage', rule: `Mobility degree ${metrics.maxMobility} (secondary occlusal trauma, ≥2 → IV)`, result: 'Stage IV' });
+      }
+      if (metrics.remainingTeeth < 20) {
+        stage = 'IV';
+        rules.push({ dimension: 'stage', rule: `${metrics.remainingTeeth} remaining teeth (<20 → IV)`, result: 'Stage IV' });
+      }
+    }
+
+    // --- Extent ---
+    const involvementThreshold = calStage === 'I' ? 1 : calStage === 'II' ? 3 : 5;
+    const involved = present.filter(t => (interdentalCal.get(t.id) || 0) >= involvementThreshold);
+    metrics.involvedTeethPercent = present.length > 0 ? (involved.length / present.length) * 100 : 0;
+    const extent = this.determineExtent(involved, metrics.involvedTeethPercent);
+    rules.push({
+      dimension: 'extent',
+      rule: `${involved.length}/${present.length} teeth (${metrics.involvedTeethPercent.toFixed(0)}%) with interdental CAL ≥${involvementThreshold} mm (<30% localized, ≥30% generalized)`,
+      result: extent,
+    });
+
+    // --- Grade ---
+    const grade = this.determineGrade(inputs, rules);
+
+    return {
+      hasPeriodontitis: true,
+      stage,
+      extent,
+      grade,
+      metrics,
+      rules,
+      summary: `Stage ${stage}, ${extent}, Grade ${grade} periodontitis`,
+    };
+  }
+
+  /**
+   * Render a classification as plain text for AI prompts
+   */
+  static describe(classification: PeriodontalClassification): string {
+    const { metrics } = classification;
+    return [
+      `Diagnosis: ${classification.summary}`,
+      `Max interdental CAL: ${metrics.maxInterdentalCal} mm; max PD: ${metrics.maxPocketDepth} mm`,
+      `Teeth lost to periodontitis: ${metrics.teethLost}; remaining teeth: ${metrics.remainingTeeth}`,
+      `Teeth involved: ${metrics.involvedTeethPercent.toFixed(0)}%; max furcation: ${metrics.maxFurcation}; max mobility: ${metrics.maxMobility}`,
+      'Rule trail:',
+      ...classification.rules.map(r => `- [${r.dimension}] ${r.rule} → ${r.result}`),
+    ].join('\n');
+  }
+
+  private static stageFromCal(cal: number): PeriodontitisStage {
+    if (cal >= 5) return 'III';
+    if (cal >= 3) return 'II';
+    return 'I';
+  }
+
+  private static determineExtent(involved: ToothData[], percent: number): PeriodontitisExtent {
+    const molarIncisorOnly = involved.length > 0 &&
+      involved.every(t => isFirstMolar(t.id) || isIncisor(t.id));
+    if (molarIncisorOnly) return 'molar-incisor';
+    return percent >= 30 ? 'generalized' : 'localized';
+  }
+
+  private static determineGrade(inputs: ClassificationInputs, rules: ClassificationRule[]): PeriodontitisGrade {
+    let grade: PeriodontitisGrade = 'B';
+
+    if (typeof inputs.calLossOver5Years === 'number') {
+      grade = inputs.calLossOver5Years >= 2 ? 'C' : inputs.calLossOver5Years > 0 ? 'B' : 'A';
+      rules.push({ dimension: 'grade', rule: `Direct evidence: ${inputs.calLossOver5Years} mm CAL loss over 5 years (0 → A, <2 → B, ≥2 → C)`, result: `Grade ${grade}` });
+    } else if (typeof inputs.boneLossPercent === 'number' && inputs.ageYears) {
+      const ratio = inputs.boneLossPercent / inputs.ageYears;
+      grade = ratio > 1 ? 'C' : ratio >= 0.25 ? 'B' : 'A';
+      rules.push({ dimension: 'grade', rule: `Indirect evidence: %bone loss/age ${ratio.toFixed(2)} (<0.25 → A, 0.25-1.0 → B, >1.0 → C)`, result: `Grade ${grade}` });
+    } else {
+      rules.push({ dimension: 'grade', rule: 'No evidence of progression rate available', result: 'Grade B (default)' });
+    }
+
+    if (typeof inputs.cigarettesPerDay === 'number' && inputs.cigarettesPerDay > 0) {
+      const modified: PeriodontitisGrade = inputs.cigarettesPerDay >= 10 ? 'C' : 'B';
+      grade = maxGrade(grade, modified);
+      rules.push({ dimension: 'grade', rule: `Smoking ${inputs.cigarettesPerDay} cigarettes/day (<10 → B, ≥10 → C)`, result: `Grade ${grade}` });
+    }
+    if (typeof inputs.hba1c === 'number' && inputs.hasDiabetes !== false) {
+      const modified: PeriodontitisGrade = inputs.hba1c >= 7 ? 'C' : 'B';
+      grade = maxGrade(grade, modified);
+      rules.push({ dimension: 'grade', rule: `Diabetes with HbA1c ${inputs.hba1c}% (<7.0 → B, ≥7.0 → C)`, result: `Grade ${grade}` });
+    } else if (inputs.hasDiabetes) {
+      grade = maxGrade(grade, 'B');
+      rules.push({ dimension: 'grade', rule: 'Diabetes, HbA1c not recorded', result: `Grade ${grade}` });
+    }
+
+    return grade;
+  }
+
+  private static maxPocketDepth(tooth: ToothData): number {
+    const values = tooth.measurements[MeasurementType.POCKET_DEPTH] || {};
+    return Math.max(0, ...MEASUREMENT_LOCATIONS.map(loc => (typeof values[loc] === 'number' ? values[loc] as number : 0)));
+  }
+}
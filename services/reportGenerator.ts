@@ -0,0 +1,343 @@
+/**
+ * Report Generator - the periodontal report for the patient file, built as a
+ * paginated PDF in the browser. It holds the clinic header, the patient and
+ * visit, full-mouth scores, staging and grading, the 2D chart, a snapshot of
+ * the 3D scene, the stored per-tooth AI analyses and a signature block.
+ */
+
+import { ToothData, Patient, Visit } from '../types';
+import { PdfDocument, JpegImage, PAGE_WIDTH, PAGE_HEIGHT } from './pdfDocument';
+import { PeriodontalClassifier, ClassificationInputs } from './periodontalClassification';
+import { calculateOverallScores, describeIndexScore, formatIndexScore } from './hygieneIndices';
+import { localToothStorage } from './localToothStorage';
+import { getPatientAge, getPatientRecordNumber } from './patientStorage';
+import { downloadBlob } from './fileDownload';
+import { formatToothLabel, isUpperArch, ToothNotation } from '../toothNumbering';
+import { isNaturalTooth } from '../toothStatus';
+import { TOOTH_POSITIONS } from '../constants';
+
+export interface ClinicDetails {
+  name: string;
+  address: string;
+  phone: string;
+  clinician: string; // printed under the signature line
+}
+
+export interface ReportInput {
+  patient: Patient;
+  visit: Visit;
+  chartData: ToothData[];
+  classificationInputs: ClassificationInputs;
+  notation: ToothNotation;
+  clinic: ClinicDetails;
+  chartSvg: string | null; // markup of the 2D chart
+  sceneImage: string | null; // JPEG data URL of the 3D scene, null when it is not shown
+}
+
+const EMPTY_CLINIC: ClinicDetails = { name: '', address: '', phone: '', clinician: '' };
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CONTENT_TOP = 96;
+const CONTENT_BOTTOM = PAGE_HEIGHT - 64;
+const LINE = 13;
+
+const COLORS = {
+  text: '#1e293b',
+  muted: '#64748b',
+  rule: '#cbd5e1',
+  heading: '#1d4ed8',
+  panel: '#10141c', // background of the 2D chart, as on screen
+};
+
+const RISK_COLORS: Record<string, string> = {
+  low: '#15803d',
+  medium: '#b45309',
+  high: '#c2410c',
+  critical: '#b91c1c',
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Image could not be decoded'));
+    image.src = src;
+  });
+
+const dataUrlToJpeg = async (dataUrl: string): Promise<JpegImage> => {
+  const image = await loadImage(dataUrl);
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const data = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+  return { data, width: image.naturalWidth, height: image.naturalHeight };
+};
+
+/**
+ * Rasterize SVG markup onto a solid background; JPEG has no transparency
+ */
+const svgToJpeg = async (svg: string, scale = 2): Promise<JpegImage> => {
+  const root = new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement;
+  const [, , width, height] = (root.getAttribute('viewBox') || '0 0 800 400').split(/\s+/).map(Number);
+  root.setAttribute('width', String(width));
+  root.setAttribute('height', String(height));
+
+  const image = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(root))}`);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context unavailable');
+  context.fillStyle = COLORS.panel;
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return dataUrlToJpeg(canvas.toDataURL('image/jpeg', 0.92));
+};
+
+// Analyses are stored as markdown; the PDF shows plain text
+const stripMarkdown = (text: string): string =>
+  text.replace(/\*\*|__|`/g, '').replace(/^#+\s*/gm, '').replace(/^\s*[-*]\s+/gm, '- ');
+
+const formatDate = (iso: string): string => {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? iso : date.toLocaleDateString();
+};
+
+// Palmer's quadrant marks are not in the PDF fonts; FDI names the same tooth
+const printableNotation = (notation: ToothNotation): ToothNotation => notation === 'palmer' ? 'fdi' : notation;
+
+/**
+ * Lays content out top to bottom and starts a new page when it runs out of room
+ */
+class ReportLayout {
+  y = CONTENT_TOP;
+
+  constructor(readonly doc: PdfDocument) {
+    doc.addPage();
+  }
+
+  ensureSpace(height: number): void {
+    if (this.y + height > CONTENT_BOTTOM) {
+      this.doc.addPage();
+      this.y = CONTENT_TOP;
+    }
+  }
+
+  heading(text: string): void {
+    this.ensureSpace(LINE * 4);
+    this.y += LINE;
+    this.doc.text(MARGIN, this.y, text, { size: 13, bold: true, color: COLORS.heading });
+    this.y += 5;
+    this.doc.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, { color: COLORS.rule });
+    this.y += LINE + 2;
+  }
+
+  paragraph(text: string, options: { size?: number; bold?: boolean; color?: string; indent?: number } = {}): void {
+    const { size = 10, bold = false, color = COLORS.text, indent = 0 } = options;
+    this.doc.wrapText(text, CONTENT_WIDTH - indent, size, bold).forEach(line => {
+      this.ensureSpace(LINE);
+      this.doc.text(MARGIN + indent, this.y, line, { size, bold, color });
+      this.y += size + 3;
+    });
+  }
+
+  // Label and value pairs in two columns
+  fields(pairs: Array<[string, string]>): void {
+    const columnWidth = CONTENT_WIDTH / 2;
+    for (let i = 0; i < pairs.length; i += 2) {
+      this.ensureSpace(LINE);
+      pairs.slice(i, i + 2).forEach(([label, value], column) => {
+        const x = MARGIN + column * columnWidth;
+        this.doc.text(x, this.y, `${label}:`, { size: 9, color: COLORS.muted });
+        this.doc.text(x + 100, this.y, value, { size: 10, color: COLORS.text });
+      });
+      this.y += LINE + 1;
+    }
+  }
+
+  // Image scaled to the content width, on a new page if it does not fit
+  image(image: JpegImage, maxHeight = CONTENT_BOTTOM - CONTENT_TOP): void {
+    const scale = Math.min(CONTENT_WIDTH / image.width, maxHeight / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    this.ensureSpace(height + LINE);
+    this.doc.image(image, MARGIN + (CONTENT_WIDTH - width) / 2, this.y, width, height);
+    this.y += height + LINE;
+  }
+}
+
+class ReportGeneratorService {
+  private readonly CLINIC_KEY = 'report_clinic_details';
+
+  getClinicDetails(): ClinicDetails {
+    try {
+      const stored = localStorage.getItem(this.CLINIC_KEY);
+      return stored ? { ...EMPTY_CLINIC, ...JSON.parse(stored) } : EMPTY_CLINIC;
+    } catch {
+      return EMPTY_CLINIC;
+    }
+  }
+
+  setClinicDetails(details: ClinicDetails): void {
+    localStorage.setItem(this.CLINIC_KEY, JSON.stringify(details));
+  }
+
+  /**
+   * Build the report. Images that fail to render are left out with a note
+   * rather than failing the whole document.
+   */
+  async generate(input: ReportInput): Promise<Blob> {
+    const { patient, visit, chartData, clinic } = input;
+    const notation = printableNotation(input.notation);
+    const doc = new PdfDocument();
+    const layout = new ReportLayout(doc);
+
+    doc.text(MARGIN, layout.y, 'Periodontal Examination Report', { size: 18, bold: true, color: COLORS.text });
+    layout.y += LINE * 2;
+
+    const age = getPatientAge(patient, new Date(visit.date));
+    layout.fields([
+      ['Patient', patient.name],
+      ['Record number', getPatientRecordNumber(patient)],
+      ['Date of birth', patient.dateOfBirth ? `${patient.dateOfBirth}${age !== undefined ? ` (${age} y)` : ''}` : 'unknown'],
+      ['Sex', patient.sex],
+      ['Exam date', formatDate(visit.date)],
+      ['Examiner', visit.examiner],
+      ['Smoking', patient.smokingStatus === 'current' && patient.cigarettesPerDay ? `current, ${patient.cigarettesPerDay}/day` : patient.smokingStatus],
+      ['Diabetes', patient.hasDiabetes ? `yes${patient.hba1c !== undefined ? `, HbA1c ${patient.hba1c}%` : ''}` : 'no'],
+    ]);
+
+    const scores = calculateOverallScores(chartData);
+    layout.heading('Full-mouth scores');
+    layout.fields([
+      ['Bleeding on probing', `${scores.bopPercentage.toFixed(0)}%`],
+      ['Plaque (PCR)', formatIndexScore('pcr', scores.plaquePercentage)],
+      ['Plaque index', scores.plaqueIndex === null ? 'not scored' : `${formatIndexScore('plaqueIndex', scores.plaqueIndex)} (${describeIndexScore(scores.plaqueIndex)})`],
+      ['Gingival index', scores.gingivalIndex === null ? 'not scored' : `${formatIndexScore('gingivalIndex', scores.gingivalIndex)} (${describeIndexScore(scores.gingivalIndex)})`],
+      ['Natural teeth', String(chartData.filter(isNaturalTooth).length)],
+    ]);
+
+    const classification = PeriodontalClassifier.classify(chartData, input.classificationInputs);
+    const { metrics } = classification;
+    layout.heading('Staging and grading (2017 AAP/EFP)');
+    layout.paragraph(classification.summary, { size: 11, bold: true });
+    layout.y += 4;
+    layout.fields([
+      ['Max interdental CAL', `${metrics.maxInterdentalCal} mm`],
+      ['Max probing depth', `${metrics.maxPocketDepth} mm`],
+      ['Teeth lost (perio)', String(metrics.teethLost)],
+      ['Teeth involved', `${metrics.involvedTeethPercent.toFixed(0)}%`],
+      ['Max furcation', String(metrics.maxFurcation)],
+      ['Max mobility', String(metrics.maxMobility)],
+    ]);
+    classification.rules.forEach(rule => layout.paragraph(`- ${rule.rule} -> ${rule.result}`, { size: 9, color: COLORS.muted, indent: 8 }));
+
+    layout.heading('Periodontal chart');
+    await this.addImage(layout, input.chartSvg, svgToJpeg, 'The chart could not be rendered.');
+
+    layout.heading('3D model');
+    await this.addImage(
+      layout,
+      input.sceneImage,
+      dataUrlToJpeg,
+      'The 3D view was not open when the report was generated.',
+      (CONTENT_BOTTOM - CONTENT_TOP) / 2,
+    );
+
+    layout.heading('Tooth analyses');
+    // Chart order: upper arch then lower, each from the patient's right
+    const positionOf = (id: number) => TOOTH_POSITIONS[id]?.x ?? id;
+    const analyses = localToothStorage.loadAllAnalyses()
+      .sort((a, b) => Number(isUpperArch(b.toothId)) - Number(isUpperArch(a.toothId)) || positionOf(a.toothId) - positionOf(b.toothId));
+    if (analyses.length === 0) {
+      layout.paragraph('No AI analyses are stored for this patient.', { color: COLORS.muted });
+    }
+    analyses.forEach(analysis => {
+      layout.ensureSpace(LINE * 4);
+      layout.paragraph(formatToothLabel(analysis.toothId, notation), { size: 11, bold: true });
+      layout.paragraph(
+        `Risk: ${analysis.riskLevel} · Confidence: ${(analysis.confidence * 100).toFixed(0)}% · Analysed ${formatDate(analysis.lastAnalyzed)}`,
+        { size: 9, color: RISK_COLORS[analysis.riskLevel] || COLORS.muted },
+      );
+      if (analysis.diagnosis) layout.paragraph(stripMarkdown(analysis.diagnosis), { bold: true });
+      if (analysis.analysis) layout.paragraph(stripMarkdown(analysis.analysis));
+      analysis.recommendations.forEach(rec => layout.paragraph(`- ${stripMarkdown(rec)}`, { indent: 8 }));
+      layout.y += 6;
+    });
+
+    this.addSignatureBlock(layout, clinic);
+    this.addHeadersAndFooters(doc, input);
+
+    console.log(`📄 Report generated: ${doc.pageCount} pages`);
+    return doc.toBlob();
+  }
+
+  /**
+   * Generate the report and save it as a file
+   */
+  async download(input: ReportInput): Promise<void> {
+    const blob = await this.generate(input);
+    downloadBlob(blob, `periodontal-report-${getPatientRecordNumber(input.patient)}-${input.visit.date.slice(0, 10)}.pdf`);
+  }
+
+  private async addImage(
+    layout: ReportLayout,
+    source: string | null,
+    toJpeg: (source: string) => Promise<JpegImage>,
+    missing: string,
+    maxHeight?: number,
+  ): Promise<void> {
+    if (!source) {
+      layout.paragraph(missing, { color: COLORS.muted });
+      return;
+    }
+    try {
+      layout.image(await toJpeg(source), maxHeight);
+    } catch (error) {
+      console.error('❌ Failed to render report image:', error);
+      layout.paragraph(missing, { color: COLORS.muted });
+    }
+  }
+
+  private addSignatureBlock(layout: ReportLayout, clinic: ClinicDetails): void {
+    const { doc } = layout;
+    layout.ensureSpace(110);
+    layout.y += LINE * 2;
+    doc.text(MARGIN, layout.y, 'I confirm that this chart was recorded and reviewed by me.', { size: 10, color: COLORS.text });
+    layout.y += LINE * 4;
+
+    const columnWidth = CONTENT_WIDTH / 2 - 20;
+    [['Signature', clinic.clinician], ['Date', '']].forEach(([label, name], column) => {
+      const x = MARGIN + column * (columnWidth + 40);
+      doc.line(x, layout.y, x + columnWidth, layout.y, { color: COLORS.text });
+      doc.text(x, layout.y + LINE, label, { size: 9, color: COLORS.muted });
+      if (name) doc.text(x, layout.y + LINE * 2, name, { size: 10, color: COLORS.text });
+    });
+    layout.y += LINE * 3;
+  }
+
+  // Drawn last so every page can say how many pages there are
+  private addHeadersAndFooters(doc: PdfDocument, input: ReportInput): void {
+    const { clinic, patient } = input;
+    const generated = new Date().toLocaleString();
+    const contact = [clinic.address, clinic.phone].filter(Boolean).join(' · ');
+
+    for (let page = 0; page < doc.pageCount; page++) {
+      doc.setPage(page);
+      doc.text(MARGIN, 44, clinic.name || 'Periodontal Clinic', { size: 14, bold: true, color: COLORS.text });
+      if (contact) doc.text(MARGIN, 58, contact, { size: 9, color: COLORS.muted });
+      const title = 'Periodontal Chart';
+      doc.text(PAGE_WIDTH - MARGIN - doc.textWidth(title, 10, true), 44, title, { size: 10, bold: true, color: COLORS.heading });
+      doc.line(MARGIN, 68, PAGE_WIDTH - MARGIN, 68, { color: COLORS.rule });
+
+      const footerY = PAGE_HEIGHT - 40;
+      doc.line(MARGIN, footerY - 12, PAGE_WIDTH - MARGIN, footerY - 12, { color: COLORS.rule });
+      doc.text(MARGIN, footerY, `${patient.name} · ${getPatientRecordNumber(patient)} · Generated ${generated}`, { size: 8, color: COLORS.muted });
+      const pageLabel = `Page ${page + 1} of ${doc.pageCount}`;
+      doc.text(PAGE_WIDTH - MARGIN - doc.textWidth(pageLabel, 8), footerY, pageLabel, { size: 8, color: COLORS.muted });
+      doc.text(MARGIN, footerY + 11, 'Not for clinical use. All data is for demonstration purposes only.', { size: 7, color: COLORS.muted });
+    }
+  }
+}
+
+export const reportGenerator = new ReportGeneratorService();
@@ -0,0 +1,218 @@
+/**
+ * Periodontal Risk Assessment (PRA) - Lang & Tonetti functional diagram
+ * Six risk vectors are scored low/moderate/high and combined into a patient
+ * risk level that drives the supportive periodontal therapy recall interval.
+ */
+
+import { ToothData, MeasurementType, Patient, SmokingStatus } from '../types';
+import { MEASUREMENT_LOCATIONS } from '../constants';
+import { patientStorage, getPatientAge } from './patientStorage';
+import { isNaturalTooth, isToothLost } from '../toothStatus';
+
+export type RiskLevel = 'low' | 'moderate' | 'high';
+
+// Patient-level inputs that cannot be derived from the chart
+export interface PatientRiskInputs {
+  ageYears?: number;
+  boneLossPercent?: number; // radiographic bone loss at the worst posterior site
+  hasSystemicCondition: boolean; // e.g. diabetes, genetic or immune disorders
+  smoking: SmokingStatus;
+  cigarettesPerDay?: number;
+}
+
+export interface RiskVector {
+  key: 'bop' | 'residualPockets' | 'toothLoss' | 'boneLossAge' | 'systemic' | 'smoking';
+  label: string;
+  value: number | null; // null when the input is missing
+  display: string;
+  level: RiskLevel;
+  normalized: number; // 0..1 position on the hexagon axis
+}
+
+export interface RiskAssessment {
+  vectors: RiskVector[];
+  level: RiskLevel;
+  recallMonths: number;
+  summary: string;
+}
+
+export interface ChartRiskScores {
+  bopPercentage: number;
+}
+
+export const RECALL_INTERVAL_MONTHS: Record<RiskLevel, number> = {
+  low: 12,
+  moderate: 6,
+  high: 3,
+};
+
+// Risk factors not part of the patient record, stored per patient
+export interface StoredRiskInputs {
+  boneLossPercent?: number;
+  hasOtherSystemicCondition: boolean; // systemic or genetic factors other than diabetes
+}
+
+export const DEFAULT_RISK_INPUTS: StoredRiskInputs = {
+  hasOtherSystemicCondition: false,
+};
+
+const THIRD_MOLARS = [1, 16, 17, 32];
+
+const levelFromThresholds = (value: number, moderateFrom: number, highFrom: number): RiskLevel =>
+  value >= highFrom ? 'high' : value >= moderateFrom ? 'moderate' : 'low';
+
+// Moderate and high boundaries sit at 1/3 and 2/3 of each hexagon axis
+const normalize = (value: number, moderateFrom: number, highFrom: number, max: number): number => {
+  if (value < moderateFrom) return (value / moderateFrom) / 3;
+  if (value < highFrom) return 1 / 3 + ((value - moderateFrom) / (highFrom - moderateFrom)) / 3;
+  return Math.min(1, 2 / 3 + ((value - highFrom) / (max - highFrom)) / 3);
+};
+
+class RiskAssessmentService {
+  private readonly INPUTS_KEY = 'periodontal_risk_inputs';
+
+  /**
+   * Load the saved risk inputs of the selected patient
+   */
+  loadInputs(): StoredRiskInputs {
+    try {
+      const stored = localStorage.getItem(patientStorage.scopedKey(this.INPUTS_KEY));
+      return stored ? { ...DEFAULT_RISK_INPUTS, ...JSON.parse(stored) } : { ...DEFAULT_RISK_INPUTS };
+    } catch (error) {
+      console.error('❌ Failed to load risk inputs:', error);
+      return { ...DEFAULT_RISK_INPUTS };
+    }
+  }
+
+  /**
+   * Persist the risk inputs of the selected patient
+   */
+  saveInputs(inputs: StoredRiskInputs): void {
+    try {
+      localStorage.setItem(patientStorage.scopedKey(this.INPUTS_KEY), JSON.stringify(inputs));
+    } catch (error) {
+      console.error('❌ Failed to save risk inputs:', error);
+    }
+  }
+
+  /**
+   * Combine the patient record with the stored risk inputs
+   */
+  buildInputs(patient: Patient, stored: StoredRiskInputs): PatientRiskInputs {
+    return {
+      ageYears: getPatientAge(patient),
+      boneLossPercent: stored.boneLossPercent,
+      hasSystemicCondition: patient.hasDiabetes || stored.hasOtherSystemicCondition,
+      smoking: patient.smokingStatus,
+      cigarettesPerDay: patient.cigarettesPerDay,
+    };
+  }
+
+  /**
+   * Score the six PRA vectors and derive the overall risk and recall interval
+   */
+  assess(chart: ToothData[], scores: ChartRiskScores, inputs: PatientRiskInputs): RiskAssessment {
+    const vectors: RiskVector[] = [];
+
+    // 1. Bleeding on probing (% of sites)
+    const bop = scores.bopPercentage;
+    vectors.push({
+      key: 'bop',
+      label: 'BOP',
+      value: bop,
+      display: `${bop.toFixed(0)}%`,
+      level: levelFromThresholds(bop, 10, 25),
+      normalized: normalize(bop, 10, 25, 50),
+    });
+
+    // 2. Residual pockets >= 5 mm (moderate from 5 sites, high from 8)
+    const residualPockets = this.countResidualPockets(chart);
+    vectors.push({
+      key: 'residualPockets',
+      label: 'PD ≥5 mm',
+      value: residualPockets,
+      display: `${residualPockets} sites`,
+      level: levelFromThresholds(residualPockets, 5, 8),
+      normalized: normalize(residualPockets, 5, 8, 12),
+    });
+
+    // 3. Tooth loss out of 28 (third molars and congenitally absent teeth excluded, any other reason counts)
+    // Moderate from 5 teeth, high from 8
+    const toothLoss = chart.filter(t => isToothLost(t) && !THIRD_MOLARS.includes(t.id)).length;
+    vectors.push({
+      key: 'toothLoss',
+      label: 'Tooth loss',
+      value: toothLoss,
+      display: `${toothLoss} / 28`,
+      level: levelFromThresholds(toothLoss, 5, 8),
+      normalized: normalize(toothLoss, 5, 8, 12),
+    });
+
+    // 4. Bone loss / age
+    const boneLossAge = typeof inputs.boneLossPercent === 'number' && inputs.ageYears
+      ? inputs.boneLossPercent / inputs.ageYears
+      : null;
+    vectors.push({
+      key: 'boneLossAge',
+      label: 'BL / Age',
+      value: boneLossAge,
+      display: boneLossAge === null ? 'not recorded' : boneLossAge.toFixed(2),
+      level: boneLossAge === null ? 'low' : levelFromThresholds(boneLossAge, 0.5, 1.0),
+      normalized: boneLossAge === null ? 0 : normalize(boneLossAge, 0.5, 1.0, 1.5),
+    });
+
+    // 5. Systemic / genetic conditions
+    vectors.push({
+      key: 'systemic',
+      label: 'Systemic',
+      value: inputs.hasSystemicCondition ? 1 : 0,
+      display: inputs.hasSystemicCondition ? 'present' : 'none',
+      level: inputs.hasSystemicCondition ? 'high' : 'low',
+      normalized: inputs.hasSystemicCondition ? 1 : 0,
+    });
+
+    // 6. Smoking (former smokers count as non-smokers)
+    const cigarettes = inputs.smoking === 'current' ? inputs.cigarettesPerDay || 0 : 0;
+    vectors.push({
+      key: 'smoking',
+      label: 'Smoking',
+      value: cigarettes,
+      display: inputs.smoking === 'current' ? `${cigarettes}/day` : inputs.smoking,
+      level: inputs.smoking === 'current' ? levelFromThresholds(cigarettes, 0, 20) : 'low',
+      normalized: inputs.smoking === 'current' ? normalize(Math.max(cigarettes, 1), 1, 20, 30) : 0,
+    });
+
+    const level = this.overallLevel(vectors);
+    const recallMonths = RECALL_INTERVAL_MONTHS[level];
+    return {
+      vectors,
+      level,
+      recallMonths,
+      summary: `${level.charAt(0).toUpperCase() + level.slice(1)} periodontal risk – recall every ${recallMonths} months`,
+    };
+  }
+
+  /**
+   * Low: all vectors low or one moderate. Moderate: at least two moderate and
+   * at most one high. High: at least two high.
+   */
+  private overallLevel(vectors: RiskVector[]): RiskLevel {
+    const high = vectors.filter(v => v.level === 'high').length;
+    const moderate = vectors.filter(v => v.level === 'moderate').length;
+    if (high >= 2) return 'high';
+    if (high === 1 || moderate >= 2) return 'moderate';
+    return 'low';
+  }
+
+  private countResidualPockets(chart: ToothData[]): number {
+    return chart
+      .filter(isNaturalTooth)
+      .reduce((count, tooth) => {
+        const pd = tooth.measurements[MeasurementType.POCKET_DEPTH] || {};
+        return count + MEASUREMENT_LOCATIONS.filter(loc => typeof pd[loc] === 'number' && (pd[loc] as number) >= 5).length;
+      }, 0);
+  }
+}
+
+// Export singleton instance
+export const riskAssessment = new RiskAssessmentService();
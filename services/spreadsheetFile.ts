@@ -0,0 +1,187 @@
+/**
+ * Spreadsheet File - reads and writes rows of cells as CSV or XLSX. Only the
+ * first worksheet of a workbook is read; formatting is ignored. Blank rows are
+ * kept, so row i of the result is row i + 1 of the sheet.
+ */
+
+import { writeZip, readZip } from './zipArchive';
+
+export type SpreadsheetCell = string | number;
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const quoteCsv = (cell: SpreadsheetCell): string => {
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Rows as CSV; the byte order mark makes Excel read it as UTF-8
+ */
+export const toCsv = (rows: SpreadsheetCell[][]): string =>
+  '\uFEFF' + rows.map(row => row.map(quoteCsv).join(',')).join('\r\n') + '\r\n';
+
+/**
+ * Parse CSV with quoted fields. The delimiter is whichever of comma,
+ * semicolon or tab the first line has most of, as exports from European
+ * locales use semicolons.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0];
+  const delimiter = [',', ';', '\t'].reduce((best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best), ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) rows.push([...row, cell]);
+  return rows;
+};
+
+// Column letters of a zero-based index: 0 → A, 26 → AA
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  return name;
+};
+
+const columnIndex = (reference: string): number =>
+  reference.replace(/\d+$/, '').split('').reduce((sum, char) => sum * 26 + char.charCodeAt(0) - 64, 0) - 1;
+
+/**
+ * Rows as a single-sheet XLSX workbook; strings are written inline
+ */
+export const toXlsx = (rows: SpreadsheetCell[][], sheetName = 'Sheet1'): Uint8Array => {
+  const encoder = new TextEncoder();
+  const sheetRows = rows.map((row, r) => {
+    const cells = row.map((cell, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      return typeof cell === 'number'
+        ? `<c r="${ref}"><v>${cell}</v></c>`
+        : `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+    });
+    return `<row r="${r + 1}">${cells.join('')}</row>`;
+  });
+
+  const files: Record<string, string> = {
+    '[Content_Types].xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+      + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+      + '</Types>',
+    '_rels/.rels': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+      + '</Relationships>',
+    'xl/workbook.xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+      + `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>`
+      + '</workbook>',
+    'xl/_rels/workbook.xml.rels': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+      + '</Relationships>',
+    'xl/worksheets/sheet1.xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+      + `<sheetData>${sheetRows.join('')}</sheetData>`
+      + '</worksheet>',
+  };
+
+  return writeZip(Object.entries(files).map(([name, content]) => ({ name, data: encoder.encode(content) })));
+};
+
+/**
+ * Cell text of the first worksheet; shared strings and inline strings are
+ * resolved, numbers and booleans come back as written
+ */
+export const parseXlsx = async (bytes: Uint8Array): Promise<string[][]> => {
+  const files = await readZip(bytes);
+  const decoder = new TextDecoder();
+  const parser = new DOMParser();
+  const readXml = (name: string) => {
+    const data = files.get(name);
+    return data ? parser.parseFromString(decoder.decode(data), 'application/xml') : null;
+  };
+  const textOf = (element: Element) => Array.from(element.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+
+  // The first sheet in workbook order, through the workbook relationships
+  const workbook = readXml('xl/workbook.xml');
+  const relationships = readXml('xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook?.getElementsByTagName('sheet')[0];
+  const relationshipId = firstSheet?.getAttribute('r:id') || firstSheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+  const target = Array.from(relationships?.getElementsByTagName('Relationship') || [])
+    .find(rel => rel.getAttribute('Id') === relationshipId)?.getAttribute('Target');
+  const sheetPath = target ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`) : 'xl/worksheets/sheet1.xml';
+  const sheet = readXml(sheetPath);
+  if (!sheet) throw new Error('Workbook has no worksheet');
+
+  const sharedStrings = Array.from(readXml('xl/sharedStrings.xml')?.getElementsByTagName('si') || []).map(textOf);
+
+  const rows: string[][] = [];
+  Array.from(sheet.getElementsByTagName('row')).forEach((rowElement, r) => {
+    const rowIndex = parseInt(rowElement.getAttribute('r') || '') - 1;
+    const row: string[] = [];
+    Array.from(rowElement.getElementsByTagName('c')).forEach((cell, c) => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : c;
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+      if (type === 's') row[index] = sharedStrings[parseInt(value)] ?? '';
+      else if (type === 'inlineStr') row[index] = textOf(cell);
+      else if (type === 'b') row[index] = value === '1' ? 'TRUE' : 'FALSE';
+      else row[index] = value;
+    });
+    rows[isNaN(rowIndex) ? r : rowIndex] = Array.from(row, cell => cell ?? '');
+  });
+  // Rows keep their sheet position so errors can name the row
+  return Array.from(rows, row => row ?? []);
+};
+
+/**
+ * Read a .csv or .xlsx file into rows of cell text
+ */
+export const readSpreadsheetFile = async (file: File): Promise<string[][]> => {
+  if (/\.xlsx$/i.test(file.name) || file.type === XLSX_MIME) {
+    return parseXlsx(new Uint8Array(await file.arrayBuffer()));
+  }
+  return parseCsv(await file.text());
+};
+
+export const spreadsheetBlob = (rows: SpreadsheetCell[][], format: SpreadsheetFormat, sheetName?: string): Blob =>
+  format === 'xlsx'
+    ? new Blob([toXlsx(rows, sheetName) as BlobPart], { type: XLSX_MIME })
+    : new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' });
@@ -0,0 +1,53 @@
+/**
+ * Sync Diagnostics - keeps the rows (or parts of rows) that could not be
+ * charted, so unknown observation types and malformed values are visible
+ * instead of silently dropped.
+ */
+
+import { SyncDiagnostic } from '../dbDataSync';
+
+class SyncDiagnosticsLog {
+  private readonly MAX_ENTRIES = 200;
+  private entries: SyncDiagnostic[] = [];
+  private listeners = new Set<(entries: SyncDiagnostic[]) => void>();
+
+  /**
+   * Append diagnostics from one batch of synced rows
+   */
+  record(diagnostics: SyncDiagnostic[]): void {
+    if (diagnostics.length === 0) return;
+    diagnostics
+      .filter(d => d.level === 'warning')
+      .forEach(d => console.warn(`⚠️ Sync: ${d.message} (row ${d.rowId})`));
+    this.entries = [...this.entries, ...diagnostics].slice(-this.MAX_ENTRIES);
+    this.notify();
+  }
+
+  /**
+   * All entries, oldest first
+   */
+  list(): SyncDiagnostic[] {
+    return this.entries;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.notify();
+  }
+
+  /**
+   * Subscribe to changes; returns the unsubscribe function
+   */
+  subscribe(listener: (entries: SyncDiagnostic[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.entries));
+  }
+}
+
+export const syncDiagnostics = new SyncDiagnosticsLog();
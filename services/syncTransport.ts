@@ -0,0 +1,307 @@
+/**
+ * Sync Transport - delivers new clinical_observations rows to the chart
+ * Supabase Realtime (postgres_changes over websocket) is preferred; while the
+ * socket is down the transport falls back to incremental polling and keeps
+ * reconnecting with exponential backoff. A failed request reports 'offline'
+ * until the next request succeeds.
+ */
+
+import { DbMeasurement, ObservationQuery, fetchDbMeasurements, matchesObservationQuery } from '../dbDataSync';
+import { supabaseConfig, OBSERVATION_PAGE_SIZE } from '../supabaseConfig';
+
+export type SyncConnectionState = 'connecting' | 'live' | 'polling' | 'reconnecting' | 'offline';
+
+export interface SyncHandlers {
+  onRows: (rows: DbMeasurement[]) => void;
+  onStateChange: (state: SyncConnectionState) => void;
+}
+
+export interface ObservationTransport {
+  connect(query: ObservationQuery, handlers: SyncHandlers): void;
+  disconnect(): void;
+}
+
+const POLL_INTERVAL_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 25000;
+const BACKOFF_INITIAL_MS = 1000;
+const BACKOFF_MAX_MS = 30000;
+
+/**
+ * Tracks the newest polled row, by created_at and then id, and drops rows
+ * already delivered, so polling and realtime can overlap without applying a
+ * row twice. Only polled rows move the cursor: a realtime row does not prove
+ * that older inserts were received.
+ */
+class SyncCursor {
+  private lastPolledAt = '';
+  private lastPolledId = '';
+  private seenIds = new Set<string>();
+
+  get position(): Pick<ObservationQuery, 'since' | 'sinceId'> {
+    return this.lastPolledAt ? { since: this.lastPolledAt, sinceId: this.lastPolledId } : {};
+  }
+
+  accept(rows: DbMeasurement[], fromPoll: boolean): DbMeasurement[] {
+    const fresh = rows.filter(row => !this.seenIds.has(row.id));
+    fresh.forEach(row => this.seenIds.add(row.id));
+    if (fromPoll) {
+      rows.forEach(row => {
+        if (row.created_at > this.lastPolledAt || (row.created_at === this.lastPolledAt && row.id > this.lastPolledId)) {
+          this.lastPolledAt = row.created_at;
+          this.lastPolledId = row.id;
+        }
+      });
+    }
+    return fresh;
+  }
+}
+
+/**
+ * Incremental polling of the REST API
+ */
+export class PollingTransport implements ObservationTransport {
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<void> | null = null;
+  private pollAgain = false;
+  private closed = false;
+  private offline = false;
+
+  constructor(private cursor: SyncCursor = new SyncCursor()) {}
+
+  connect(query: ObservationQuery, handlers: SyncHandlers): void {
+    this.closed = false;
+    if (this.interval) return;
+    handlers.onStateChange(this.offline ? 'offline' : 'polling');
+    this.poll(query, handlers);
+    this.interval = setInterval(() => this.poll(query, handlers), POLL_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the interval but still deliver a request that is already running
+   */
+  pause(): void {
+    if (this.interval) clearInterval(this.interval);
+    this.interval = null;
+  }
+
+  disconnect(): void {
+    this.pause();
+    this.closed = true;
+  }
+
+  /**
+   * Fetch everything newer than the cursor, page by page until a page comes
+   * back short. A call made while a request is running queues one more request
+   * and resolves after it, so callers always see rows inserted before the call.
+   */
+  poll(query: ObservationQuery, handlers: SyncHandlers): Promise<void> {
+    if (this.running) {
+      this.pollAgain = true;
+      return this.running;
+    }
+    this.running = this.fetchUntilSettled(query, handlers).finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  private async fetchUntilSettled(query: ObservationQuery, handlers: SyncHandlers): Promise<void> {
+    let pageFull = false;
+    do {
+      this.pollAgain = false;
+      const rows = await fetchDbMeasurements({ ...query, ...this.cursor.position }, 'supabase');
+      if (this.closed) return; // disconnected while the request was running
+      if (!rows) {
+        if (!this.offline) handlers.onStateChange('offline');
+        this.offline = true;
+        return;
+      }
+      if (this.offline) handlers.onStateChange('polling');
+      this.offline = false;
+      const fresh = this.cursor.accept(rows, true);
+      if (fresh.length > 0) handlers.onRows(fresh);
+      pageFull = rows.length >= OBSERVATION_PAGE_SIZE;
+    } while (this.pollAgain || pageFull);
+  }
+}
+
+/**
+ * Supabase Realtime subscription with polling fallback
+ */
+export class RealtimeTransport implements ObservationTransport {
+  private socket: WebSocket | null = null;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private backoffMs = BACKOFF_INITIAL_MS;
+  private ref = 0;
+  private active = false;
+  private live = false;
+  private cursor = new SyncCursor();
+  private fallback = new PollingTransport(this.cursor);
+  private query: ObservationQuery | null = null;
+  private handlers: SyncHandlers | null = null;
+  // Realtime rows held back until the catch-up poll has applied older rows
+  private buffered: DbMeasurement[] | null = null;
+
+  constructor(private url: string = supabaseConfig.realtimeUrl) {}
+
+  connect(query: ObservationQuery, handlers: SyncHandlers): void {
+    this.active = true;
+    this.query = query;
+    this.handlers = handlers;
+    // Load existing rows right away; realtime only delivers new inserts
+    this.fallback.connect(query, this.fallbackHandlers(handlers));
+    handlers.onStateChange('connecting');
+    this.open();
+  }
+
+  disconnect(): void {
+    this.active = false;
+    this.fallback.disconnect();
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.stopHeartbeat();
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private open(): void {
+    if (!this.active) return;
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(`${this.url}?apikey=${encodeURIComponent(supabaseConfig.anonKey)}&vsn=1.0.0`);
+    } catch (error) {
+      console.warn('⚠️ Realtime connection failed:', error);
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.send(this.topic, 'phx_join', this.joinPayload());
+      this.heartbeat = setInterval(() => this.send('phoenix', 'heartbeat', {}), HEARTBEAT_INTERVAL_MS);
+    };
+    socket.onmessage = event => this.handleMessage(event.data);
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.live = false;
+      this.stopHeartbeat();
+      this.socket = null;
+      this.scheduleReconnect();
+    };
+    socket.onerror = () => socket.close();
+  }
+
+  /**
+   * The fallback only reports reachability; the socket decides the rest
+   */
+  private fallbackHandlers(handlers: SyncHandlers): SyncHandlers {
+    return {
+      onRows: handlers.onRows,
+      onStateChange: state => {
+        if (state === 'offline') handlers.onStateChange('offline');
+        else if (state === 'polling') handlers.onStateChange(this.live ? 'live' : 'reconnecting');
+      },
+    };
+  }
+
+  private get topic(): string {
+    return `realtime:clinical_observations:${this.query?.patientId}`;
+  }
+
+  private joinPayload() {
+    const bare = (this.query?.patientId || '').replace(/^=/, '');
+    return {
+      config: {
+        broadcast: { ack: false, self: false },
+        presence: { key: '' },
+        // One filter per subscription; the session is checked on arrival
+        postgres_changes: [{
+          event: 'INSERT',
+          schema: 'public',
+          table: 'clinical_observations',
+          filter: `patient_id=in.(${bare},=${bare})`,
+        }],
+      },
+      access_token: supabaseConfig.anonKey,
+    };
+  }
+
+  private send(topic: string, event: string, payload: object): void {
+    if (this.socket?.readyState !== WebSocket.OPEN) return;
+    this.ref++;
+    this.socket.send(JSON.stringify({ topic, event, payload, ref: String(this.ref) }));
+  }
+
+  private handleMessage(raw: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+
+    if (message.event === 'phx_reply' && message.topic === this.topic) {
+      if (message.payload?.status === 'ok') {
+        console.log('📡 Realtime subscription active');
+        this.backoffMs = BACKOFF_INITIAL_MS;
+        // Stop polling, but catch up on every page inserted while the socket was down
+        this.fallback.pause();
+        this.live = true;
+        if (this.query && this.handlers) {
+          const handlers = this.handlers;
+          this.buffered = [];
+          this.fallback.poll(this.query, this.fallbackHandlers(handlers)).finally(() => {
+            const held = this.cursor.accept(this.buffered || [], false);
+            this.buffered = null;
+            if (held.length > 0 && this.active) handlers.onRows(held);
+          });
+        }
+        this.handlers?.onStateChange('live');
+      } else {
+        console.warn('⚠️ Realtime subscription rejected:', message.payload?.response);
+        this.socket?.close();
+      }
+      return;
+    }
+
+    if (message.event === 'postgres_changes') {
+      const record = message.payload?.data?.record as DbMeasurement | undefined;
+      if (!record || !this.query || !matchesObservationQuery(record, this.query)) return;
+      if (this.buffered) {
+        this.buffered.push(record);
+        return;
+      }
+      const fresh = this.cursor.accept([record], false);
+      if (fresh.length > 0) this.handlers?.onRows(fresh);
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.active || !this.query || !this.handlers) return;
+
+    // Keep the chart updating while the socket is down
+    this.handlers.onStateChange('reconnecting');
+    this.fallback.connect(this.query, this.fallbackHandlers(this.handlers));
+
+    const delay = this.backoffMs;
+    this.backoffMs = Math.min(this.backoffMs * 2, BACKOFF_MAX_MS);
+    console.log(`🔁 Realtime reconnect in ${delay} ms (polling meanwhile)`);
+    this.reconnectTimer = setTimeout(() => this.open(), delay);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.heartbeat = null;
+  }
+}
+
+/**
+ * Create the transport selected in supabaseConfig.syncTransport
+ */
+export const createObservationTransport = (): ObservationTransport => {
+  if (supabaseConfig.syncTransport === 'polling' || typeof WebSocket === 'undefined') {
+    return new PollingTransport();
+  }
+  return new RealtimeTransport();
+};
@@ -1,6 +1,9 @@
-import { PRIMEINTELLECT_CONFIG, createPrimeIntellectClient } from '../config/supabase';
 import { localToothStorage, ToothAnalysisData } from './localToothStorage';
 import { externalAIService } from './externalAIService';
+import { patientStorage } from './patientStorage';
+import { PeriodontalClassifier, ClassificationInputs } from './periodontalClassification';
+import { parsePartialJson } from './partialJson';
+import { AnalysisError, AnalysisPrediction, PredictionType } from './analysisSchema';
 
 export interface TreatmentAnalysisData {
   id: string;
@@ -18,23 +21,35 @@ export interface TreatmentAnalysisData {
 export interface PredictionData {
   id: string;
   treatment_analysis_id: string;
-  prediction_type: 'success_probability' | 'complications' | 'timeline' | 'recommendations';
+  prediction_type: PredictionType;
   prediction_text: string;
   confidence: number;
   created_at: string;
 }
 
+// The fields of an analysis reply that have arrived so far
+export interface StreamedAnalysis {
+  analysis?: string;
+  prediction?: string;
+  confidence?: number;
+}
+
+export interface AnalysisStreamOptions {
+  signal?: AbortSignal;
+  onPartial?: (partial: StreamedAnalysis) => void;
+}
+
 class TreatmentAnalysisService {
-  private primeIntellect = createPrimeIntellectClient();
   private externalAI = externalAIService;
 
   /**
-   * Generate treatment analysis using PrimeIntellect.ai with local data
+   * Generate treatment analysis with the configured AI provider and local data
    * @param toothId - The tooth ID to analyze
    * @param measurements - Optional measurements data
+   * @param stream - Optional abort signal and callback for the partial reply
    * @returns Promise with treatment analysis data
    */
-  async generateAnalysis(toothId: number, measurements?: any): Promise<TreatmentAnalysisData> {
+  async generateAnalysis(toothId: number, measurements?: any, stream: AnalysisStreamOptions = {}): Promise<TreatmentAnalysisData> {
     try {
       console.log('🧠 TreatmentAnalysisService - generateAnalysis called:', { toothId, measurements });
       
@@ -54,7 +69,7 @@ class TreatmentAnalysisService {
           // Convert cached analysis to TreatmentAnalysisData format
           return {
             id: `cached_${toothId}_${Date.now()}`,
-            patient_id: 'demo_patient',
+            patient_id: patientStorage.getActivePatientId(),
             tooth_id: toothId,
             analysis_text: cachedAnalysis.analysis,
             prediction: cachedAnalysis.diagnosis,
@@ -68,32 +83,22 @@ class TreatmentAnalysisService {
         }
       }
 
-      // Use external AI service instead of PrimeIntellect
-      const response = await this.externalAI.generateToothAnalysis(toothId, measurements);
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No response content received from external AI service');
-      }
-
-      const analysisResult = JSON.parse(content);
+      const analysisResult = await this.externalAI.generateToothAnalysis(toothId, measurements, this.streamOptions(stream));
       
       // Transform the response into our expected format
       const analysisData: TreatmentAnalysisData = {
         id: `analysis_${toothId}_${Date.now()}`,
-        patient_id: 'demo_patient',
+        patient_id: patientStorage.getActivePatientId(),
         tooth_id: toothId,
-        analysis_text: analysisResult.analysis || 'Analysis not available',
-        prediction: analysisResult.prediction || 'Prediction not available',
-        confidence_score: analysisResult.confidence || 0.5,
+        analysis_text: analysisResult.analysis,
+        prediction: analysisResult.prediction,
+        confidence_score: analysisResult.confidence,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       };
 
       // Store predictions for detailed analysis
-      if (analysisResult.predictions && Array.isArray(analysisResult.predictions)) {
-        this.storePredictions(analysisData.id, analysisResult.predictions);
-      }
+      this.storePredictions(analysisData.id, analysisResult.predictions);
 
       // Save to local tooth storage
       const toothAnalysisData: ToothAnalysisData = {
@@ -111,15 +116,36 @@ class TreatmentAnalysisService {
 
       return analysisData;
     } catch (error) {
+      // Stops and typed analysis errors reach the caller as they are
+      if (stream.signal?.aborted || error instanceof AnalysisError) throw error;
       console.error('Error generating treatment analysis:', error);
       throw new Error(`Failed to generate analysis: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Token streaming for the AI layer, turned into partial analyses
+   */
+  private streamOptions(stream: AnalysisStreamOptions) {
+    const { signal, onPartial } = stream;
+    return {
+      signal,
+      onToken: onPartial && ((_delta: string, text: string) => {
+        const partial = parsePartialJson(text);
+        if (!partial || typeof partial !== 'object') return;
+        onPartial({
+          analysis: typeof partial.analysis === 'string' ? partial.analysis : undefined,
+          prediction: typeof partial.prediction === 'string' ? partial.prediction : undefined,
+          confidence: typeof partial.confidence === 'number' ? partial.confidence : undefined
+        });
+      })
+    };
+  }
+
   /**
    * Store prediction data for detailed analysis
    */
-  private storePredictions(analysisId: string, predictions: any[]): void {
+  private storePredictions(analysisId: string, predictions: AnalysisPrediction[]): void {
     // In a real implementation, this would store to a database
     // For now, we'll store in memory or localStorage
     const predictionData: PredictionData[] = predictions.map((pred, index) => ({
@@ -132,7 +158,7 @@ class TreatmentAnalysisService {
     }));
 
     // Store in localStorage for persistence
-    localStorage.setItem(`predictions_${analysisId}`, JSON.stringify(predictionData));
+    localStorage.setItem(patientStorage.scopedKey(`predictions_${analysisId}`), JSON.stringify(predictionData));
   }
 
   /**
@@ -140,7 +166,7 @@ class TreatmentAnalysisService {
    */
   getPredictions(analysisId: string): PredictionData[] {
     try {
-      const stored = localStorage.getItem(`predictions_${analysisId}`);
+      const stored = localStorage.getItem(patientStorage.scopedKey(`predictions_${analysisId}`));
       return stored ? JSON.parse(stored) : [];
     } catch (error) {
       console.error('Error retrieving predictions:', error);
@@ -165,12 +191,14 @@ class TreatmentAnalysisService {
   /**
    * Generate overall oral health analysis
    * @param chartData - All teeth data for comprehensive analysis
+   * @param classificationInputs - Patient-level evidence used for grading
+   * @param stream - Optional abort signal and callback for the partial reply
    * @returns Promise with overall analysis data
    */
-  async generateOverallAnalysis(chartData: any[]): Promise<TreatmentAnalysisData> {
+  async generateOverallAnalysis(chartData: any[], classificationInputs: ClassificationInputs = {}, stream: AnalysisStreamOptions = {}): Promise<TreatmentAnalysisData> {
     try {
       // Check cache for overall analysis
-      const cacheKey = 'overall_analysis_cache';
+      const cacheKey = patientStorage.scopedKey('overall_analysis_cache');
       const cached = localStorage.getItem(cacheKey);
       if (cached) {
         const cachedData = JSON.parse(cached);
@@ -186,32 +214,23 @@ class TreatmentAnalysisService {
           console.log('🔄 Chart data changed - generating new overall analysis');
         }
       }
-      // Use external AI service instead of PrimeIntellect
-      const response = await this.externalAI.generateOverallAnalysis(chartData);
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No response content received from external AI service');
-      }
-
-      const analysisResult = JSON.parse(content);
+      const classification = PeriodontalClassifier.classify(chartData, classificationInputs);
+      const analysisResult = await this.externalAI.generateOverallAnalysis(chartData, classification, this.streamOptions(stream));
       
       // Transform the response into our expected format
       const analysisData: TreatmentAnalysisData = {
         id: `overall_analysis_${Date.now()}`,
-        patient_id: 'demo_patient',
+        patient_id: patientStorage.getActivePatientId(),
         tooth_id: 0, // 0 indicates overall analysis
-        analysis_text: analysisResult.analysis || 'Overall analysis not available',
-        prediction: analysisResult.prediction || 'Overall prediction not available',
-        confidence_score: analysisResult.confidence || 0.5,
+        analysis_text: analysisResult.analysis,
+        prediction: analysisResult.prediction,
+        confidence_score: analysisResult.confidence,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       };
 
       // Store predictions for detailed analysis
-      if (analysisResult.predictions && Array.isArray(analysisResult.predictions)) {
-        this.storePredictions(analysisData.id, analysisResult.predictions);
-      }
+      this.storePredictions(analysisData.id, analysisResult.predictions);
 
       // Add chart data hash for change detection
       analysisData.chartDataHash = this.generateChartDataHash(chartData);
@@ -221,17 +240,19 @@ class TreatmentAnalysisService {
 
       return analysisData;
     } catch (error) {
+      if (stream.signal?.aborted || error instanceof AnalysisError) throw error;
       console.error('Error generating overall analysis:', error);
       throw new Error(`Failed to generate overall analysis: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Clear cached data for a tooth or overall analysis
+   * Clear cached data for a tooth or overall analysis of the selected patient
    */
   clearCache(toothId: number | null): void {
     // Clear any cached data for this tooth or overall analysis
-    const keys = Object.keys(localStorage);
+    const patientSuffix = patientStorage.scopedKey('');
+    const keys = Object.keys(localStorage).filter(key => key.endsWith(patientSuffix));
     keys.forEach(key => {
       if (toothId === null) {
         // Clear overall analysis cache
@@ -321,7 +342,12 @@ class TreatmentAnalysisService {
       measurements: tooth.measurements,
       mobility: tooth.mobility,
       furcation: tooth.furcation,
-      isMissing: tooth.isMissing
+      furcationSystem: tooth.furcationSystem,
+      fremitus: tooth.fremitus,
+      isMissing: tooth.isMissing,
+      status: tooth.status,
+      missingReason: tooth.missingReason,
+      supernumerary: tooth.supernumerary
     }));
     
     // Generate hash from JSON string
@@ -0,0 +1,130 @@
+/**
+ * Visit Comparison - site-level change between two charting sessions
+ * Used to show attachment gain/loss after therapy (e.g. re-evaluation after SRP)
+ */
+
+import { ToothData, MeasurementType, MeasurementLocation } from '../types';
+import { MEASUREMENT_LOCATIONS } from '../constants';
+import { calculateData } from '../chartCalculations';
+import { isProbeable, isImplant } from '../toothStatus';
+
+// Attachment loss at or above this many mm between visits marks a site as progressing
+export const PROGRESSION_THRESHOLD_MM = 2;
+
+export interface MeasurementDelta {
+  before: number;
+  after: number;
+  delta: number; // after - before
+}
+
+export interface SiteDelta {
+  toothId: number;
+  location: MeasurementLocation;
+  pocketDepth: MeasurementDelta;
+  recession: MeasurementDelta | null; // null unless both visits charted it
+  cal: MeasurementDelta;
+  status: 'progressing' | 'improved' | 'stable';
+}
+
+export interface ToothComparison {
+  toothId: number;
+  sites: SiteDelta[];
+  maxCalLoss: number;
+  isProgressing: boolean;
+}
+
+export interface ChartComparison {
+  teeth: ToothComparison[];
+  progressingSites: number;
+  improvedSites: number;
+  progressingTeeth: number[];
+  meanCalChange: number;
+}
+
+const isRecorded = (value: unknown): value is number => typeof value === 'number';
+
+// Empty charts hold 0 at every site, so only a depth above 0 was probed
+const isProbed = (pocketDepth: unknown): pocketDepth is number => isRecorded(pocketDepth) && pocketDepth > 0;
+
+const delta = (before: number, after: number): MeasurementDelta => ({ before, after, delta: after - before });
+
+export class VisitComparator {
+  /**
+   * Compare two chart snapshots site by site. Positions that cannot be probed in
+   * either chart, or changed between tooth and implant, are skipped, as are
+   * sites not probed at both visits.
+   */
+  static compare(baseline: ToothData[], followUp: ToothData[]): ChartComparison {
+    const teeth: ToothComparison[] = [];
+    let progressingSites = 0;
+    let improvedSites = 0;
+    let calChangeSum = 0;
+    let siteCount = 0;
+
+    followUp.forEach(afterTooth => {
+      const beforeTooth = baseline.find(t => t.id === afterTooth.id);
+      if (!beforeTooth || !isProbeable(beforeTooth) || !isProbeable(afterTooth)) return;
+      if (isImplant(beforeTooth) !== isImplant(afterTooth)) return;
+
+      const comparison = this.compareTooth(beforeTooth, afterTooth);
+      comparison.sites.forEach(site => {
+        if (site.status === 'progressing') progressingSites++;
+        if (site.status === 'improved') improvedSites++;
+        calChangeSum += site.cal.delta;
+        siteCount++;
+      });
+      teeth.push(comparison);
+    });
+
+    return {
+      teeth,
+      progressingSites,
+      improvedSites,
+      progressingTeeth: teeth.filter(t => t.isProgressing).map(t => t.toothId),
+      meanCalChange: siteCount > 0 ? calChangeSum / siteCount : 0,
+    };
+  }
+
+  /**
+   * Compare a single tooth between two visits; only sites probed at both are listed
+   */
+  static compareTooth(before: ToothData, after: ToothData): ToothComparison {
+    const calBefore = calculateData(before).cal;
+    const calAfter = calculateData(after).cal;
+    const pdBefore = before.measurements[MeasurementType.POCKET_DEPTH] || {};
+    const pdAfter = after.measurements[MeasurementType.POCKET_DEPTH] || {};
+    const recBefore = before.measurements[MeasurementType.RECESSION] || {};
+    const recAfter = after.measurements[MeasurementType.RECESSION] || {};
+
+    const sites: SiteDelta[] = MEASUREMENT_LOCATIONS.flatMap(location => {
+      const pdBeforeValue = pdBefore[location];
+      const pdAfterValue = pdAfter[location];
+      // An unprobed site would read as 0 mm and give a false change
+      if (!isProbed(pdBeforeValue) || !isProbed(pdAfterValue)) return [];
+      const recBeforeValue = recBefore[location];
+      const recAfterValue = recAfter[location];
+
+      const cal = delta(calBefore[location] as number, calAfter[location] as number);
+      let status: SiteDelta['status'] = 'stable';
+      if (cal.delta >= PROGRESSION_THRESHOLD_MM) status = 'progressing';
+      else if (cal.delta <= -PROGRESSION_THRESHOLD_MM) status = 'improved';
+
+      return [{
+        toothId: after.id,
+        location,
+        pocketDepth: delta(pdBeforeValue, pdAfterValue),
+        recession: isRecorded(recBeforeValue) && isRecorded(recAfterValue) ? delta(recBeforeValue, recAfterValue) : null,
+        cal,
+        status,
+      }];
+    });
+
+    const maxCalLoss = Math.max(0, ...sites.map(s => s.cal.delta));
+    return {
+      toothId: after.id,
+      sites,
+      maxCalLoss,
+      isProgressing: sites.some(s => s.status === 'progressing'),
+    };
+  }
+}
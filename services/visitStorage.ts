@@ -0,0 +1,178 @@
+import { ToothData, Visit, VisitSnapshot } from '../types';
+import { ObservationSession } from '../dbDataSync';
+import { patientStorage } from './patientStorage';
+
+// Visits started here before the database has one for the exam
+const LOCAL_VISIT_PREFIX = 'VISIT_';
+
+export const isLocalVisitId = (visitId: string): boolean => visitId.startsWith(LOCAL_VISIT_PREFIX);
+
+export interface StartVisitOptions {
+  examiner: string;
+  date?: string;
+  visitId?: string;
+  seedFromLast?: boolean; // copy the previous visit's chart as the starting point (default true)
+}
+
+/**
+ * Stores every charting session as its own snapshot so previous exams survive
+ * a new one. Only the open visit can be written; closing a visit freezes it.
+ * The visit index is kept per patient.
+ */
+class VisitStorageService {
+  private readonly VISITS_KEY = 'periodontal_visits';
+  private readonly SNAPSHOT_PREFIX = 'periodontal_visit_';
+
+  /**
+   * List all visits, newest first
+   */
+  listVisits(): Visit[] {
+    try {
+      const stored = localStorage.getItem(patientStorage.scopedKey(this.VISITS_KEY));
+      const visits: Visit[] = stored ? JSON.parse(stored) : [];
+      return visits.sort((a, b) => b.date.localeCompare(a.date));
+    } catch (error) {
+      console.error('❌ Failed to load visits:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the visit currently open for charting, if any
+   */
+  getActiveVisit(): Visit | null {
+    return this.listVisits().find(v => v.status === 'open') || null;
+  }
+
+  /**
+   * Load a visit snapshot. The returned chart is a fresh copy, so callers
+   * cannot mutate what is stored.
+   */
+  loadVisit(visitId: string): VisitSnapshot | null {
+    try {
+      const stored = localStorage.getItem(this.SNAPSHOT_PREFIX + visitId);
+      if (!stored) return null;
+      return JSON.parse(stored) as VisitSnapshot;
+    } catch (error) {
+      console.error('❌ Failed to load visit:', visitId, error);
+      return null;
+    }
+  }
+
+  /**
+   * Start a new visit. Any open visit is closed first, and the new chart is
+   * seeded from the most recent visit unless told otherwise.
+   */
+  startNewVisit(options: StartVisitOptions, fallbackTeeth: ToothData[]): VisitSnapshot {
+    const { examiner, date = new Date().toISOString(), seedFromLast = true } = options;
+    const visitId = options.visitId || `${LOCAL_VISIT_PREFIX}${Date.now()}`;
+
+    const open = this.getActiveVisit();
+    if (open) this.closeVisit(open.id);
+
+    const previous = this.listVisits()[0];
+    const previousSnapshot = seedFromLast && previous ? this.loadVisit(previous.id) : null;
+    const teeth = previousSnapshot ? previousSnapshot.teeth : fallbackTeeth;
+
+    const visit: Visit = {
+      id: visitId,
+      date,
+      examiner,
+      status: 'open',
+      seededFromVisitId: previousSnapshot?.visit.id,
+    };
+
+    const snapshot = this.writeSnapshot(visit, teeth);
+    this.writeVisitIndex([...this.listVisits().filter(v => v.id !== visitId), visit]);
+    console.log('🗓️ New visit started:', { visitId, examiner, seededFrom: visit.seededFromVisitId });
+    return snapshot;
+  }
+
+  /**
+   * The newest database visit that started after the open visit began and is
+   * not a local visit yet: the exam the voice agent is recording now
+   */
+  findNewDatabaseVisit(sessions: ObservationSession[]): ObservationSession | null {
+    const open = this.getActiveVisit();
+    const openedAt = open ? Date.parse(open.date) : -Infinity;
+    const known = new Set(this.listVisits().map(v => v.id));
+    return sessions
+      .filter(s => s.visitId && !known.has(s.visitId) && Date.parse(s.startedAt) >= openedAt)
+      .sort((a, b) => Date.parse(b.startedAt) - Date.parse(a.startedAt))[0] || null;
+  }
+
+  /**
+   * Give an open visit started here the id of the database visit recording
+   * the same exam, so its snapshot and the synced rows share one id
+   */
+  adoptDatabaseVisitId(localId: string, visitId: string): VisitSnapshot | null {
+    const visits = this.listVisits();
+    const visit = visits.find(v => v.id === localId);
+    if (!visit || visit.status === 'closed' || !isLocalVisitId(localId)) return null;
+
+    const snapshot = this.loadVisit(localId);
+    visit.id = visitId;
+    const adopted = this.writeSnapshot(visit, snapshot ? snapshot.teeth : []);
+    localStorage.removeItem(this.SNAPSHOT_PREFIX + localId);
+    this.writeVisitIndex(visits);
+    console.log('🔗 Visit linked to database visit:', { localId, visitId });
+    return adopted;
+  }
+
+  /**
+   * Save the chart of an open visit. Closed visits are never overwritten.
+   */
+  saveVisitChart(visitId: string, teeth: ToothData[]): boolean {
+    const visit = this.listVisits().find(v => v.id === visitId);
+    if (!visit) {
+      console.warn('⚠️ Cannot save chart for unknown visit:', visitId);
+      return false;
+    }
+    if (visit.status === 'closed') {
+      console.warn('🔒 Visit is closed and read-only:', visitId);
+      return false;
+    }
+    this.writeSnapshot(visit, teeth);
+    return true;
+  }
+
+  /**
+   * Close a visit, freezing its snapshot
+   */
+  closeVisit(visitId: string): void {
+    const visits = this.listVisits();
+    const visit = visits.find(v => v.id === visitId);
+    if (!visit || visit.status === 'closed') return;
+
+    visit.status = 'closed';
+    const snapshot = this.loadVisit(visitId);
+    if (snapshot) this.writeSnapshot(visit, snapshot.teeth);
+    this.writeVisitIndex(visits);
+    console.log('🔒 Visit closed:', visitId);
+  }
+
+  private writeSnapshot(visit: Visit, teeth: ToothData[]): VisitSnapshot {
+    const snapshot: VisitSnapshot = {
+      visit,
+      teeth: JSON.parse(JSON.stringify(teeth)),
+      savedAt: new Date().toISOString(),
+    };
+    try {
+      localStorage.setItem(this.SNAPSHOT_PREFIX + visit.id, JSON.stringify(snapshot));
+    } catch (error) {
+      console.error('❌ Failed to save visit snapshot:', error);
+    }
+    return snapshot;
+  }
+
+  private writeVisitIndex(visits: Visit[]): void {
+    try {
+      localStorage.setItem(patientStorage.scopedKey(this.VISITS_KEY), JSON.stringify(visits));
+    } catch (error) {
+      console.error('❌ Failed to save visit index:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const visitStorage = new VisitStorageService();
@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { processChartData } from '../chartCalculations';
+import { createChartData } from '../constants';
+import { applyChartImport, chartToRows, guessColumnMapping, previewChartImport } from '../services/chartSpreadsheet';
+import { parseCsv, parseXlsx, toCsv, toXlsx } from '../services/spreadsheetFile';
+import { ToothNotation } from '../toothNumbering';
+import { isProbeable } from '../toothStatus';
+import { MeasurementType, ToothData } from '../types';
+import { XmlDomParser } from './xmlDomParser';
+
+const SITES = ['disto_buccal', 'mid_buccal', 'mesio_buccal', 'disto_lingual', 'mid_lingual', 'mesio_lingual'] as const;
+
+// Every site probed, with values that differ between teeth and sites
+const chartWithReadings = (): ToothData[] =>
+  processChartData(structuredClone(createChartData('permanent')).map(tooth => {
+    if (!isProbeable(tooth)) return tooth;
+    SITES.forEach((site, i) => {
+      tooth.measurements[MeasurementType.POCKET_DEPTH]![site] = 1 + (tooth.id + i) % 9;
+      tooth.measurements[MeasurementType.RECESSION]![site] = (tooth.id * (i + 1)) % 4;
+      tooth.measurements[MeasurementType.BLEEDING]![site] = (tooth.id + i) % 3 === 0;
+      tooth.measurements[MeasurementType.PLAQUE]![site] = (tooth.id + i) % 4 === 0;
+    });
+    return tooth;
+  }));
+
+const exchangedSites = (tooth: ToothData) => ({
+  id: tooth.id,
+  pd: tooth.measurements[MeasurementType.POCKET_DEPTH],
+  rec: tooth.measurements[MeasurementType.RECESSION],
+  bop: tooth.measurements[MeasurementType.BLEEDING],
+  plaque: tooth.measurements[MeasurementType.PLAQUE],
+});
+
+const importRows = (rows: string[][], chart: ToothData[], notation: ToothNotation = 'universal') => {
+  const preview = previewChartImport(rows, guessColumnMapping(rows[0]), { chart, notation, hasHeader: true });
+  return { preview, imported: applyChartImport(chart, preview) };
+};
+
+beforeEach(() => {
+  vi.stubGlobal('DOMParser', XmlDomParser);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe.each<[string, (rows: string[][]) => Promise<string[][]>]>([
+  ['CSV', async rows => parseCsv(toCsv(rows))],
+  ['XLSX', rows => parseXlsx(toXlsx(rows))],
+])('%s round trip', (_format, roundTrip) => {
+  it.each<ToothNotation>(['universal', 'fdi', 'palmer'])('imports every site exported in %s notation', async (notation) => {
+    const chart = chartWithReadings();
+    const rows = await roundTrip(chartToRows(chart, notation).map(row => row.map(String)));
+    const { preview, imported } = importRows(rows, structuredClone(createChartData('permanent')), 'universal');
+
+    expect(preview.invalidRows).toBe(0);
+    expect(preview.validRows).toBe(chart.filter(isProbeable).length * SITES.length);
+    expect(preview.rows.flatMap(row => row.warnings)).toEqual([]);
+    expect(imported.map(exchangedSites)).toEqual(chart.map(exchangedSites));
+  });
+});
+
+describe('previewChartImport', () => {
+  const rows = parseCsv([
+    'Tooth,Site,PD,REC,BOP,Note',
+    '3,MB,4,1,yes,"bleeds, suppurates',
+    'recheck in 3 months"',
+    '99,MB,4,,,',
+    '1,MB,4,,,',
+    '3,XB,4,,,',
+    '3,DB,4.5,,,',
+    '3,DB,20,,,',
+    '3,DL,4,,maybe,',
+    '3,ML,,,,"no reading, patient gagged"',
+    '3,MB,5,,,',
+  ].join('\r\n'));
+
+  it('keeps quoted commas and line breaks inside one cell', () => {
+    expect(rows[1]).toEqual(['3', 'MB', '4', '1', 'yes', 'bleeds, suppurates\r\nrecheck in 3 months']);
+    expect(rows[8]).toEqual(['3', 'ML', '', '', '', 'no reading, patient gagged']);
+  });
+
+  it('reports the errors of each row by its row number', () => {
+    const { preview } = importRows(rows, structuredClone(createChartData('permanent')));
+
+    expect(preview.rows.map(row => [row.row, row.errors])).toEqual([
+      [2, []],
+      [3, ['"99" is not a universal tooth number']],
+      [4, ['Tooth 1 is charted as missing']],
+      [5, ['Site "XB" is not one of the six probing sites']],
+      [6, ['PD "4.5" is not a whole number of mm']],
+      [7, ['PD 20 is outside 0-15 mm']],
+      [8, ['BOP "maybe" is not yes/no']],
+      [9, ['No PD, REC, CAL, BOP or plaque value']],
+      [10, []],
+    ]);
+    expect(preview.rows[8].warnings).toEqual(['Replaces row 2 for the same site']);
+    expect(preview).toMatchObject({ validRows: 2, invalidRows: 7 });
+  });
+
+  it('leaves the chart unchanged', () => {
+    const chart = chartWithReadings();
+    const before = structuredClone(chart);
+
+    const preview = previewChartImport(rows, guessColumnMapping(rows[0]), { chart, notation: 'universal', hasHeader: true });
+    expect(preview.validRows).toBe(2);
+    expect(chart).toEqual(before);
+  });
+});
+
+describe('applyChartImport', () => {
+  it('writes only the valid rows onto a copy of the chart', () => {
+    const chart = structuredClone(createChartData('permanent'));
+    const before = structuredClone(chart);
+    const { imported } = importRows(parseCsv('Tooth,Site,PD,REC,BOP\r\n3,MB,4,2,yes\r\n3,DB,4.5,,\r\n3,MB,5,,\r\n'), chart);
+
+    const tooth = imported.find(t => t.id === 3)!;
+    expect(tooth.measurements[MeasurementType.POCKET_DEPTH]).toMatchObject({ mesio_buccal: 5, disto_buccal: 0 });
+    expect(tooth.measurements[MeasurementType.RECESSION]!.mesio_buccal).toBe(2);
+    expect(tooth.measurements[MeasurementType.GINGIVAL_MARGIN]!.mesio_buccal).toBe(-2);
+    expect(tooth.measurements[MeasurementType.BLEEDING]!.mesio_buccal).toBe(true);
+    expect(imported.filter(t => t.id !== 3)).toEqual(before.filter(t => t.id !== 3));
+    expect(chart).toEqual(before);
+  });
+});
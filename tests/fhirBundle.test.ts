@@ -0,0 +1,216 @@
+import Ajv from 'ajv';
+import draft06MetaSchema from 'ajv/dist/refs/json-schema-draft-06.json';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createChartData } from '../constants';
+import {
+  APP_MEASUREMENT_CODINGS,
+  ExchangedType,
+  FhirBundle,
+  FhirCoding,
+  FhirObservation,
+  SNOMED_CT_SYSTEM,
+  STANDARD_MEASUREMENT_CODINGS,
+  exportFhirBundle,
+  importFhirBundle,
+  validateFhirBundle,
+} from '../services/fhirBundle';
+import FHIR_R4_SCHEMA from '../services/fhirR4Schema.json';
+import { universalToFdi } from '../toothNumbering';
+import { isProbeable } from '../toothStatus';
+import { Dentition, MeasurementType, Patient, ToothData, Visit } from '../types';
+
+const ajv = new Ajv({ strict: false, allErrors: true });
+ajv.addMetaSchema(draft06MetaSchema);
+const isSchemaValid = ajv.compile(FHIR_R4_SCHEMA);
+
+const patient: Patient = {
+  id: 'patient-1',
+  recordNumber: 'PAT796',
+  name: 'Test Patient',
+  dateOfBirth: '2016-04-12',
+  sex: 'female',
+  smokingStatus: 'never',
+  hasDiabetes: false,
+  medications: [],
+  createdAt: '2026-01-05T09:00:00.000Z',
+};
+
+const visit: Visit = { id: 'visit-1', date: '2026-03-02T10:30:00.000Z', examiner: 'Dr. Example', status: 'closed' };
+
+const SITES = ['disto_buccal', 'mid_buccal', 'mesio_buccal', 'disto_lingual', 'mid_lingual', 'mesio_lingual'] as const;
+
+// Every site probed, with values that differ between teeth and sites
+const chartWithReadings = (dentition: Dentition): ToothData[] =>
+  structuredClone(createChartData(dentition)).map(tooth => {
+    if (!isProbeable(tooth)) return tooth;
+    SITES.forEach((site, i) => {
+      tooth.measurements[MeasurementType.POCKET_DEPTH]![site] = 1 + (tooth.id + i) % 9;
+      tooth.measurements[MeasurementType.RECESSION]![site] = (tooth.id * (i + 1)) % 4;
+      tooth.measurements[MeasurementType.BLEEDING]![site] = (tooth.id + i) % 3 === 0;
+    });
+    return tooth;
+  });
+
+const exchangedSites = (tooth: ToothData) => ({
+  id: tooth.id,
+  pd: tooth.measurements[MeasurementType.POCKET_DEPTH],
+  rec: tooth.measurements[MeasurementType.RECESSION],
+  bop: tooth.measurements[MeasurementType.BLEEDING],
+});
+
+const toothCodes = (bundle: FhirBundle): number[] => {
+  const codes = bundle.entry
+    .map(entry => entry.resource)
+    .filter((resource): resource is FhirObservation => resource.resourceType === 'Observation')
+    .map(observation => Number(observation.bodySite!.coding!.find(c => c.system.endsWith('ex-tooth'))!.code));
+  return [...new Set(codes)].sort((a, b) => a - b);
+};
+
+describe.each<Dentition>(['permanent', 'mixed', 'primary'])('%s dentition round trip', (dentition) => {
+  const chart = chartWithReadings(dentition);
+  const bundle = exportFhirBundle(patient, visit, chart);
+
+  it('exports a bundle that is valid against the R4 schema', () => {
+    expect(isSchemaValid(bundle), ajv.errorsText(isSchemaValid.errors)).toBe(true);
+    expect(validateFhirBundle(bundle)).toEqual([]);
+  });
+
+  it('survives JSON serialisation and imports the same sites', () => {
+    const result = importFhirBundle(JSON.parse(JSON.stringify(bundle)));
+    const probeable = chart.filter(isProbeable);
+
+    expect(result.teeth.map(exchangedSites)).toEqual(probeable.map(exchangedSites));
+    expect(result.imported).toBe(probeable.length * SITES.length * 3);
+    expect(result.skipped).toBe(0);
+    expect(result.patientRecordNumber).toBe('PAT796');
+    expect(result.visitDate).toBe(visit.date);
+    expect(result.examiner).toBe('Dr. Example');
+  });
+
+  it('sets the gingival margin from recession', () => {
+    importFhirBundle(bundle).teeth.forEach(tooth => {
+      SITES.forEach(site => {
+        expect(tooth.measurements[MeasurementType.GINGIVAL_MARGIN]![site]).toBe(-(tooth.measurements[MeasurementType.RECESSION]![site] as number));
+      });
+    });
+  });
+
+  it('names each tooth by its FDI number', () => {
+    expect(toothCodes(bundle)).toEqual(chart.filter(isProbeable).map(tooth => universalToFdi(tooth.id)).sort((a, b) => a! - b!));
+  });
+});
+
+describe('primary dentition', () => {
+  it('exchanges FDI 51-85', () => {
+    const bundle = exportFhirBundle(patient, visit, chartWithReadings('primary'));
+    expect(toothCodes(bundle)).toEqual([
+      51, 52, 53, 54, 55, 61, 62, 63, 64, 65,
+      71, 72, 73, 74, 75, 81, 82, 83, 84, 85,
+    ]);
+  });
+});
+
+describe('exportFhirBundle', () => {
+  it('leaves out missing teeth and sites never probed', () => {
+    const chart = structuredClone(createChartData('permanent'));
+    chart[2].measurements[MeasurementType.POCKET_DEPTH]!.mid_buccal = 4;
+    chart[0].measurements[MeasurementType.POCKET_DEPTH]!.mid_buccal = 5; // tooth 1 is missing
+
+    const bundle = exportFhirBundle(patient, visit, chart);
+    expect(bundle.entry).toHaveLength(2 + 3);
+    expect(importFhirBundle(bundle).teeth.map(tooth => tooth.id)).toEqual([3]);
+  });
+});
+
+describe('standard measurement codings', () => {
+  // Stand-ins for the clinic's binding, not real concept ids
+  const BINDING: Record<ExchangedType, FhirCoding> = {
+    [MeasurementType.POCKET_DEPTH]: { system: SNOMED_CT_SYSTEM, code: 'test-probing-depth', display: 'Test probing depth' },
+    [MeasurementType.RECESSION]: { system: SNOMED_CT_SYSTEM, code: 'test-recession', display: 'Test recession' },
+    [MeasurementType.BLEEDING]: { system: SNOMED_CT_SYSTEM, code: 'test-bleeding', display: 'Test bleeding on probing' },
+  };
+  const observations = (bundle: FhirBundle) =>
+    bundle.entry.map(entry => entry.resource).filter((resource): resource is FhirObservation => resource.resourceType === 'Observation');
+
+  const unbind = () => {
+    (Object.keys(STANDARD_MEASUREMENT_CODINGS) as ExchangedType[]).forEach(type => { STANDARD_MEASUREMENT_CODINGS[type] = null; });
+  };
+
+  beforeEach(() => {
+    Object.assign(STANDARD_MEASUREMENT_CODINGS, BINDING);
+  });
+
+  afterEach(unbind);
+
+  it('exports the standard coding first and the app coding second', () => {
+    const bundle = exportFhirBundle(patient, visit, chartWithReadings('permanent'));
+
+    expect(validateFhirBundle(bundle)).toEqual([]);
+    observations(bundle).forEach(observation => {
+      const type = observation.code.text as ExchangedType;
+      expect(observation.code.coding).toEqual([BINDING[type], APP_MEASUREMENT_CODINGS[type]]);
+    });
+  });
+
+  it('imports observations coded only with the standard code', () => {
+    const chart = chartWithReadings('permanent');
+    const bundle = exportFhirBundle(patient, visit, chart);
+    observations(bundle).forEach(observation => {
+      observation.code = { coding: [observation.code.coding![0]] };
+    });
+
+    const result = importFhirBundle(bundle);
+    expect(result.skipped).toBe(0);
+    expect(result.teeth.map(exchangedSites)).toEqual(chart.filter(isProbeable).map(exchangedSites));
+  });
+
+  it('exports only the app coding while no binding is set', () => {
+    unbind();
+    const bundle = exportFhirBundle(patient, visit, chartWithReadings('permanent'));
+    observations(bundle).forEach(observation => {
+      expect(observation.code.coding).toEqual([APP_MEASUREMENT_CODINGS[observation.code.text as ExchangedType]]);
+    });
+  });
+});
+
+describe('validateFhirBundle', () => {
+  const bundle = exportFhirBundle(patient, visit, chartWithReadings('permanent'));
+
+  it('rejects what is not a bundle', () => {
+    expect(validateFhirBundle(null)).toEqual(['Not a FHIR Bundle']);
+    expect(validateFhirBundle({ resourceType: 'Patient' })).toEqual(['Not a FHIR Bundle']);
+    expect(validateFhirBundle({ resourceType: 'Bundle', type: 'collection' })).toEqual(['Bundle has no entry array']);
+  });
+
+  it('reports schema errors by entry and path', () => {
+    const broken = structuredClone(bundle) as unknown as { entry: Array<{ resource: Record<string, unknown> }> };
+    broken.entry[0].resource.gender = 'f';
+    broken.entry[2].resource.valueQuantity = { value: '4', unit: 'mm' };
+    broken.entry[3].resource.status = 'done';
+
+    const errors = validateFhirBundle(broken);
+    expect(errors).toEqual([
+      'entry[0] Patient.gender: must be equal to one of the allowed values (male, female, other, unknown)',
+      'entry[2] Observation.valueQuantity.value: must be number',
+      expect.stringMatching(/^entry\[3\] Observation\.status: must be equal to one of the allowed values/),
+    ]);
+    expect(() => importFhirBundle(broken as unknown as FhirBundle)).toThrow(/^Invalid FHIR bundle: entry\[0\] Patient\.gender/);
+  });
+
+  it('rejects properties R4 does not define', () => {
+    const broken = structuredClone(bundle) as unknown as { type: string; entry: Array<{ resource: Record<string, unknown> }> };
+    broken.type = 'list';
+    broken.entry[1].resource.visitId = 'visit-1';
+
+    expect(validateFhirBundle(broken)).toEqual([
+      'Bundle.type: must be equal to one of the allowed values (document, message, transaction, transaction-response, batch, batch-response, history, searchset, collection)',
+      'entry[1] Encounter: must NOT have additional properties',
+    ]);
+  });
+
+  it('leaves resources it does not import unchecked', () => {
+    const withPractitioner = structuredClone(bundle);
+    withPractitioner.entry.push({ fullUrl: 'urn:uuid:practitioner', resource: { resourceType: 'Practitioner' } as never });
+    expect(validateFhirBundle(withPractitioner)).toEqual([]);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { createChartData } from '../constants';
+import { PatientRiskInputs, RiskLevel, riskAssessment } from '../services/riskAssessment';
+import { MeasurementType, ToothData } from '../types';
+
+const inputs: PatientRiskInputs = { ageYears: 45, hasSystemicCondition: false, smoking: 'never' };
+
+// Teeth 2-15 are present in the starting chart; the third molars are already missing
+const chartWith = (pockets: number, lostTeeth: number): ToothData[] => {
+  const chart = structuredClone(createChartData('permanent'));
+  chart.slice(1, 1 + lostTeeth).forEach(tooth => { tooth.status = 'missing'; });
+  chart.slice(17, 17 + pockets).forEach(tooth => { tooth.measurements[MeasurementType.POCKET_DEPTH]!.mid_buccal = 5; });
+  return chart;
+};
+
+const vector = (chart: ToothData[], key: 'residualPockets' | 'toothLoss') =>
+  riskAssessment.assess(chart, { bopPercentage: 0 }, inputs).vectors.find(v => v.key === key)!;
+
+describe('Lang & Tonetti risk vectors', () => {
+  it.each<[number, RiskLevel, number]>([
+    [4, 'low', 4 / 15],
+    [5, 'moderate', 1 / 3],
+    [7, 'moderate', 1 / 3 + 2 / 9],
+    [8, 'high', 2 / 3],
+    [12, 'high', 1],
+  ])('%i residual pockets are %s risk', (count, level, normalized) => {
+    const pockets = vector(chartWith(count, 0), 'residualPockets');
+    expect(pockets.value).toBe(count);
+    expect(pockets.level).toBe(level);
+    expect(pockets.normalized).toBeCloseTo(normalized);
+  });
+
+  it.each<[number, RiskLevel, number]>([
+    [4, 'low', 4 / 15],
+    [5, 'moderate', 1 / 3],
+    [7, 'moderate', 1 / 3 + 2 / 9],
+    [8, 'high', 2 / 3],
+    [12, 'high', 1],
+  ])('%i lost teeth are %s risk', (count, level, normalized) => {
+    const toothLoss = vector(chartWith(0, count), 'toothLoss');
+    expect(toothLoss.value).toBe(count);
+    expect(toothLoss.level).toBe(level);
+    expect(toothLoss.normalized).toBeCloseTo(normalized);
+  });
+});
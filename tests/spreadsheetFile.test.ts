@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SpreadsheetCell, parseCsv, parseXlsx, toCsv, toXlsx } from '../services/spreadsheetFile';
+import { writeZip } from '../services/zipArchive';
+import { XmlDomParser } from './xmlDomParser';
+
+// Cells that need quoting in CSV or escaping in XML
+const AWKWARD_ROWS: SpreadsheetCell[][] = [
+  ['Tooth', 'Site', 'PD', 'Note'],
+  ['16', 'MB', 4, 'bleeds, suppurates'],
+  ['17', 'DB', 5, 'said "recheck"\nnext visit'],
+  ['26', 'ML', 3, 'Windows line\r\nbreak'],
+  ['36', 'B', 0, '<PD> & "REC"'],
+];
+
+const asText = (rows: SpreadsheetCell[][]): string[][] => rows.map(row => row.map(String));
+
+beforeEach(() => {
+  vi.stubGlobal('DOMParser', XmlDomParser);
+});
+
+describe('CSV', () => {
+  it('quotes cells with commas, quotes and line breaks', () => {
+    expect(toCsv([['a,b', 'say "hi"', 'two\nlines', 3]])).toBe('\uFEFF"a,b","say ""hi""","two\nlines",3\r\n');
+  });
+
+  it('round-trips awkward cells', () => {
+    expect(parseCsv(toCsv(AWKWARD_ROWS))).toEqual(asText(AWKWARD_ROWS));
+  });
+
+  it.each([
+    ['semicolons', 'Zahn;Stelle;ST\n16;"MB; oral";4,5\n'],
+    ['tabs', 'Zahn\tStelle\tST\n16\tMB; oral\t4,5\n'],
+  ])('detects %s as the delimiter', (_label, text) => {
+    expect(parseCsv(text)).toEqual([['Zahn', 'Stelle', 'ST'], ['16', 'MB; oral', '4,5']]);
+  });
+
+  it('keeps blank rows and reads a last line without a break', () => {
+    expect(parseCsv('Tooth,PD\r\n\r\n16,4')).toEqual([['Tooth', 'PD'], [''], ['16', '4']]);
+  });
+});
+
+describe('XLSX', () => {
+  it('round-trips awkward cells and blank rows', async () => {
+    const rows: SpreadsheetCell[][] = [...AWKWARD_ROWS, [], ['  padded  ', -2, 1.5]];
+    expect(await parseXlsx(toXlsx(rows, 'Chart'))).toEqual([...asText(AWKWARD_ROWS), [], ['  padded  ', '-2', '1.5']]);
+  });
+
+  it('places cells by column letter beyond Z', async () => {
+    const row = Array.from({ length: 30 }, (_, i) => `column ${i + 1}`);
+    expect(await parseXlsx(toXlsx([row]))).toEqual([row]);
+  });
+
+  it('reads shared strings, booleans and skipped cells as other spreadsheets write them', async () => {
+    const encoder = new TextEncoder();
+    const file = (name: string, xml: string) => ({ name, data: encoder.encode(xml) });
+    const workbook = writeZip([
+      file('xl/workbook.xml', '<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+        + '<sheets><sheet name="Befund" sheetId="1" r:id="rId3"/></sheets></workbook>'),
+      file('xl/_rels/workbook.xml.rels', '<Relationships><Relationship Id="rId3" Target="worksheets/befund.xml"/></Relationships>'),
+      file('xl/sharedStrings.xml', '<sst><si><t>Zahn</t></si><si><r><t>BO</t></r><r><t>P</t></r></si></sst>'),
+      file('xl/worksheets/befund.xml', '<worksheet><sheetData>'
+        + '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>'
+        + '<row r="3"><c r="A3"><v>16</v></c><c r="C3" t="b"><v>1</v></c></row>'
+        + '</sheetData></worksheet>'),
+    ]);
+
+    expect(await parseXlsx(workbook)).toEqual([['Zahn', '', 'BOP'], [], ['16', '', 'TRUE']]);
+  });
+
+  it('rejects a workbook without a worksheet', async () => {
+    await expect(parseXlsx(writeZip([]))).rejects.toThrow('Workbook has no worksheet');
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PERMANENT_TOOTH_IDS,
+  PRIMARY_TOOTH_IDS,
+  ToothNotation,
+  fdiToUniversal,
+  formatToothNumber,
+  letterToUniversal,
+  palmerToUniversal,
+  parseToothNumber,
+  universalToFdi,
+  universalToLetter,
+  universalToPalmer,
+} from '../toothNumbering';
+
+// Written out by hand from the charting references, not derived from the module under test
+const PERMANENT: Array<[universal: number, fdi: number, palmer: string]> = [
+  [1, 18, '8┘'], [2, 17, '7┘'], [3, 16, '6┘'], [4, 15, '5┘'],
+  [5, 14, '4┘'], [6, 13, '3┘'], [7, 12, '2┘'], [8, 11, '1┘'],
+  [9, 21, '└1'], [10, 22, '└2'], [11, 23, '└3'], [12, 24, '└4'],
+  [13, 25, '└5'], [14, 26, '└6'], [15, 27, '└7'], [16, 28, '└8'],
+  [17, 38, '┌8'], [18, 37, '┌7'], [19, 36, '┌6'], [20, 35, '┌5'],
+  [21, 34, '┌4'], [22, 33, '┌3'], [23, 32, '┌2'], [24, 31, '┌1'],
+  [25, 41, '1┐'], [26, 42, '2┐'], [27, 43, '3┐'], [28, 44, '4┐'],
+  [29, 45, '5┐'], [30, 46, '6┐'], [31, 47, '7┐'], [32, 48, '8┐'],
+];
+
+const PRIMARY: Array<[universal: number, letter: string, fdi: number, palmer: string]> = [
+  [33, 'A', 55, 'E┘'], [34, 'B', 54, 'D┘'], [35, 'C', 53, 'C┘'], [36, 'D', 52, 'B┘'], [37, 'E', 51, 'A┘'],
+  [38, 'F', 61, '└A'], [39, 'G', 62, '└B'], [40, 'H', 63, '└C'], [41, 'I', 64, '└D'], [42, 'J', 65, '└E'],
+  [43, 'K', 75, '┌E'], [44, 'L', 74, '┌D'], [45, 'M', 73, '┌C'], [46, 'N', 72, '┌B'], [47, 'O', 71, '┌A'],
+  [48, 'P', 81, 'A┐'], [49, 'Q', 82, 'B┐'], [50, 'R', 83, 'C┐'], [51, 'S', 84, 'D┐'], [52, 'T', 85, 'E┐'],
+];
+
+const TYPED_QUADRANTS = ['UR', 'UL', 'LL', 'LR'];
+const NOTATIONS: ToothNotation[] = ['universal', 'fdi', 'palmer'];
+
+describe('permanent teeth', () => {
+  it('covers all 32 teeth', () => {
+    expect(PERMANENT.map(([universal]) => universal)).toEqual(PERMANENT_TOOTH_IDS);
+  });
+
+  it.each(PERMANENT)('Universal %i is FDI %i and Palmer %s', (universal, fdi, palmer) => {
+    expect(universalToFdi(universal)).toBe(fdi);
+    expect(universalToPalmer(universal)).toBe(palmer);
+    expect(fdiToUniversal(fdi)).toBe(universal);
+    expect(palmerToUniversal(palmer)).toBe(universal);
+  });
+
+  it.each(PERMANENT)('Universal %i round-trips through FDI and Palmer', (universal) => {
+    expect(fdiToUniversal(universalToFdi(universal)!)).toBe(universal);
+    expect(palmerToUniversal(universalToPalmer(universal)!)).toBe(universal);
+    // FDI → Palmer → FDI without going through the caller's Universal number
+    const fdi = universalToFdi(universal)!;
+    expect(universalToFdi(palmerToUniversal(universalToPalmer(fdiToUniversal(fdi)!)!)!)).toBe(fdi);
+  });
+
+  it.each(PERMANENT)('Universal %i parses back from every notation', (universal) => {
+    NOTATIONS.forEach(notation => {
+      expect(parseToothNumber(formatToothNumber(universal, notation), notation)).toBe(universal);
+    });
+    expect(parseToothNumber(String(universal), 'universal')).toBe(universal);
+  });
+
+  it.each(PERMANENT)('Universal %i parses from the typed Palmer form', (universal, fdi) => {
+    const typed = `${TYPED_QUADRANTS[Math.floor(fdi / 10) - 1]}${fdi % 10}`;
+    expect(palmerToUniversal(typed)).toBe(universal);
+    expect(palmerToUniversal(typed.toLowerCase())).toBe(universal);
+  });
+});
+
+describe('primary teeth', () => {
+  it('covers all 20 teeth', () => {
+    expect(PRIMARY.map(([universal]) => universal)).toEqual(PRIMARY_TOOTH_IDS);
+  });
+
+  it.each(PRIMARY)('id %i is letter %s, FDI %i and Palmer %s', (universal, letter, fdi, palmer) => {
+    expect(universalToLetter(universal)).toBe(letter);
+    expect(universalToFdi(universal)).toBe(fdi);
+    expect(universalToPalmer(universal)).toBe(palmer);
+    expect(letterToUniversal(letter)).toBe(universal);
+    expect(fdiToUniversal(fdi)).toBe(universal);
+    expect(palmerToUniversal(palmer)).toBe(universal);
+  });
+
+  it.each(PRIMARY)('id %i parses back from every notation', (universal) => {
+    NOTATIONS.forEach(notation => {
+      expect(parseToothNumber(formatToothNumber(universal, notation), notation)).toBe(universal);
+    });
+  });
+
+  it.each(PRIMARY)('id %i parses from the typed Palmer form', (universal, _letter, fdi, palmer) => {
+    const primaryLetter = palmer.replace(/[┘└┌┐]/, '');
+    expect(palmerToUniversal(`${TYPED_QUADRANTS[Math.floor(fdi / 10) - 5]}${primaryLetter}`)).toBe(universal);
+  });
+});
+
+describe('invalid numbers', () => {
+  it.each([0, 53, -1, 1.5, NaN])('Universal %s has no FDI or Palmer number', (universal) => {
+    expect(universalToFdi(universal)).toBeNull();
+    expect(universalToPalmer(universal)).toBeNull();
+  });
+
+  it.each([10, 19, 49, 56, 66, 76, 86, 91, 110])('FDI %i is not a tooth', (fdi) => {
+    expect(fdiToUniversal(fdi)).toBeNull();
+  });
+
+  it.each(['9┘', '┘6', '6└', '└6┘', 'F┘', 'UR9', 'XX6', ''])('Palmer "%s" is not a tooth', (palmer) => {
+    expect(palmerToUniversal(palmer)).toBeNull();
+  });
+
+  it('Universal text outside 1-32 and A-T is not a tooth', () => {
+    expect(parseToothNumber('33', 'universal')).toBeNull();
+    expect(parseToothNumber('0', 'universal')).toBeNull();
+    expect(parseToothNumber('U', 'universal')).toBeNull();
+    expect(parseToothNumber('#', 'universal')).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptyTooth } from '../constants';
+import { VisitComparator } from '../services/visitComparison';
+import { MeasurementType, PerioSiteMeasurements, ToothData } from '../types';
+
+const tooth = (id: number, pocketDepth: PerioSiteMeasurements, recession: PerioSiteMeasurements = {}): ToothData => {
+  const charted = createEmptyTooth(id);
+  charted.measurements[MeasurementType.POCKET_DEPTH] = pocketDepth;
+  charted.measurements[MeasurementType.RECESSION] = recession;
+  return charted;
+};
+
+describe('VisitComparator', () => {
+  it('reports attachment change at sites probed at both visits', () => {
+    const comparison = VisitComparator.compare(
+      [tooth(3, { mid_buccal: 3, mesio_buccal: 6 }, { mid_buccal: 1, mesio_buccal: 0 })],
+      [tooth(3, { mid_buccal: 6, mesio_buccal: 3 }, { mid_buccal: 1, mesio_buccal: 1 })],
+    );
+
+    expect(comparison.teeth[0].sites).toEqual([
+      expect.objectContaining({ location: 'mid_buccal', status: 'progressing', cal: { before: 4, after: 7, delta: 3 } }),
+      expect.objectContaining({ location: 'mesio_buccal', status: 'improved', cal: { before: 6, after: 4, delta: -2 } }),
+    ]);
+    expect(comparison.progressingSites).toBe(1);
+    expect(comparison.improvedSites).toBe(1);
+    expect(comparison.progressingTeeth).toEqual([3]);
+    expect(comparison.meanCalChange).toBe(0.5);
+  });
+
+  it.each<[string, PerioSiteMeasurements, PerioSiteMeasurements]>([
+    ['not charted before', {}, { mid_buccal: 7 }],
+    ['not charted after', { mid_buccal: 7 }, {}],
+    ['zeroed in an empty chart', { mid_buccal: 0 }, { mid_buccal: 7 }],
+  ])('skips a site %s', (_label, before, after) => {
+    const comparison = VisitComparator.compare([tooth(3, before)], [tooth(3, after)]);
+
+    expect(comparison.teeth[0].sites).toEqual([]);
+    expect(comparison.teeth[0].maxCalLoss).toBe(0);
+    expect(comparison.progressingSites).toBe(0);
+    expect(comparison.improvedSites).toBe(0);
+    expect(comparison.meanCalChange).toBe(0);
+  });
+
+  it('leaves recession out unless both visits charted it', () => {
+    const comparison = VisitComparator.compare(
+      [tooth(3, { mid_buccal: 4, mesio_buccal: 4 }, { mid_buccal: 1 })],
+      [tooth(3, { mid_buccal: 4, mesio_buccal: 4 }, { mid_buccal: 2, mesio_buccal: 2 })],
+    );
+
+    expect(comparison.teeth[0].sites.map(site => site.recession)).toEqual([{ before: 1, after: 2, delta: 1 }, null]);
+  });
+});
@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DbMeasurement, ObservationSession, matchesObservationQuery } from '../dbDataSync';
+import { createEmptyTooth } from '../constants';
+import { isLocalVisitId, visitStorage } from '../services/visitStorage';
+
+// The app's services read and write the browser's localStorage
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, String(value)),
+    removeItem: (key: string) => void items.delete(key),
+    clear: () => items.clear(),
+  };
+};
+
+const session = (visitId: string, startedAt: string): ObservationSession =>
+  ({ sessionId: `S-${visitId}`, visitId, startedAt, observationCount: 1 });
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', memoryStorage());
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('database visits', () => {
+  it('starts visits with a local id', () => {
+    const { visit } = visitStorage.startNewVisit({ examiner: 'Dr. A', date: '2026-03-02T09:00:00.000Z' }, []);
+    expect(isLocalVisitId(visit.id)).toBe(true);
+  });
+
+  it('finds the newest database visit started since the open visit', () => {
+    visitStorage.startNewVisit({ examiner: 'Dr. A', date: '2026-03-02T09:00:00.000Z' }, []);
+    const found = visitStorage.findNewDatabaseVisit([
+      session('V-old', '2026-01-10T09:00:00+00:00'),
+      session('V-today', '2026-03-02T09:05:00+00:00'),
+      session('V-later', '2026-03-02T09:30:00+00:00'),
+    ]);
+    expect(found?.visitId).toBe('V-later');
+  });
+
+  it('ignores database visits from before the open visit and ones already known', () => {
+    visitStorage.startNewVisit({ examiner: 'Dr. A', date: '2026-03-02T09:00:00.000Z', visitId: 'V-today' }, []);
+    expect(visitStorage.findNewDatabaseVisit([
+      session('V-old', '2026-01-10T09:00:00+00:00'),
+      session('V-today', '2026-03-02T09:05:00+00:00'),
+    ])).toBeNull();
+  });
+
+  it('moves the open local visit and its chart to the database visit id', () => {
+    const tooth = createEmptyTooth(3);
+    const { visit } = visitStorage.startNewVisit({ examiner: 'Dr. A', date: '2026-03-02T09:00:00.000Z' }, [tooth]);
+
+    const adopted = visitStorage.adoptDatabaseVisitId(visit.id, 'V-today');
+    expect(adopted?.visit).toMatchObject({ id: 'V-today', examiner: 'Dr. A', status: 'open' });
+    expect(visitStorage.getActiveVisit()?.id).toBe('V-today');
+    expect(visitStorage.loadVisit('V-today')?.teeth).toEqual([tooth]);
+    expect(visitStorage.loadVisit(visit.id)).toBeNull();
+    expect(visitStorage.listVisits().map(v => v.id)).toEqual(['V-today']);
+  });
+
+  it('leaves database and closed visits alone', () => {
+    const first = visitStorage.startNewVisit({ examiner: 'Dr. A', date: '2026-01-10T09:00:00.000Z' }, []);
+    visitStorage.startNewVisit({ examiner: 'Dr. A', date: '2026-03-02T09:00:00.000Z', visitId: 'V-today' }, []);
+
+    expect(visitStorage.adoptDatabaseVisitId(first.visit.id, 'V-other')).toBeNull();
+    expect(visitStorage.adoptDatabaseVisitId('V-today', 'V-other')).toBeNull();
+  });
+});
+
+describe('matchesObservationQuery', () => {
+  const row = (visitId: string): DbMeasurement => ({
+    id: `row-${visitId}`, patient_id: '=PAT796', visit_id: `=${visitId}`, session_id: '=S1', type: '=pocketDepth',
+    quadrant: 1, surface: '=buccal', tooth_in_quadrant: 6, distal: 5, middle: 3, mesial: 4, created_at: '2026-03-02T09:10:00+00:00',
+  });
+
+  it('keeps only rows of the queried visit', () => {
+    expect(matchesObservationQuery(row('V-today'), { patientId: 'PAT796', visitId: 'V-today' })).toBe(true);
+    expect(matchesObservationQuery(row('V-old'), { patientId: 'PAT796', visitId: 'V-today' })).toBe(false);
+    expect(matchesObservationQuery(row('V-old'), { patientId: 'PAT796' })).toBe(true);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Enough of the browser's DOMParser for parseXlsx under Node: elements,
+ * attributes and text of well-formed XML. Prefixed names are kept as written.
+ */
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ENTITIES[entity] ?? match;
+  });
+
+class XmlElement {
+  readonly content: Array<string | XmlElement> = [];
+
+  constructor(readonly tagName: string, private readonly attributes: Record<string, string>) {}
+
+  getAttribute(name: string): string | null {
+    return this.attributes[name] ?? null;
+  }
+
+  getAttributeNS(): string | null {
+    return null;
+  }
+
+  getElementsByTagName(name: string): XmlElement[] {
+    return this.content
+      .filter((part): part is XmlElement => typeof part !== 'string')
+      .flatMap(child => [...(child.tagName === name ? [child] : []), ...child.getElementsByTagName(name)]);
+  }
+
+  get textContent(): string {
+    return this.content.map(part => (typeof part === 'string' ? part : part.textContent)).join('');
+  }
+}
+
+export class XmlDomParser {
+  parseFromString(source: string): XmlElement {
+    const document = new XmlElement('#document', {});
+    const open = [document];
+    const body = source.replace(/<\?[\s\S]*?\?>/g, '');
+
+    for (const [, closing, name, attributeText, selfClosing, text] of body.matchAll(/<(\/?)([\w:.-]+)([^>]*?)(\/?)>|([^<]+)/g)) {
+      const parent = open[open.length - 1];
+      if (text !== undefined) {
+        parent.content.push(decodeEntities(text));
+      } else if (closing) {
+        open.pop();
+      } else {
+        const attributes = Object.fromEntries(
+          [...attributeText.matchAll(/([\w:.-]+)="([^"]*)"/g)].map(([, key, value]) => [key, decodeEntities(value)]),
+        );
+        const element = new XmlElement(name, attributes);
+        parent.content.push(element);
+        if (!selfClosing) open.push(element);
+      }
+    }
+    return document;
+  }
+}
@@ -0,0 +1,87 @@
+import { deflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { crc32, readZip, writeZip } from '../services/zipArchive';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// A one-file archive as other zip tools write it, with the entry deflated
+const deflatedZip = (name: string, content: Uint8Array): Uint8Array => {
+  const nameBytes = encoder.encode(name);
+  const data = deflateRawSync(content);
+
+  const local = new Uint8Array(30 + nameBytes.length + data.length);
+  const localView = new DataView(local.buffer);
+  localView.setUint32(0, 0x04034b50, true);
+  localView.setUint16(8, 8, true);
+  localView.setUint32(14, crc32(content), true);
+  localView.setUint32(18, data.length, true);
+  localView.setUint32(22, content.length, true);
+  localView.setUint16(26, nameBytes.length, true);
+  local.set(nameBytes, 30);
+  local.set(data, 30 + nameBytes.length);
+
+  const central = new Uint8Array(46 + nameBytes.length);
+  const centralView = new DataView(central.buffer);
+  centralView.setUint32(0, 0x02014b50, true);
+  centralView.setUint16(10, 8, true);
+  centralView.setUint32(16, crc32(content), true);
+  centralView.setUint32(20, data.length, true);
+  centralView.setUint32(24, content.length, true);
+  centralView.setUint16(28, nameBytes.length, true);
+  central.set(nameBytes, 46);
+
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, 1, true);
+  endView.setUint16(10, 1, true);
+  endView.setUint32(12, central.length, true);
+  endView.setUint32(16, local.length, true);
+
+  return new Uint8Array([...local, ...central, ...end]);
+};
+
+describe('crc32', () => {
+  it('gives the standard check value', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('writeZip and readZip', () => {
+  it('round-trips files by name', async () => {
+    const binary = Uint8Array.from({ length: 300 }, (_, i) => (i * 7) % 256);
+    const files = await readZip(writeZip([
+      { name: 'xl/worksheets/sheet1.xml', data: encoder.encode('<sheetData/>') },
+      { name: 'Zähne/übersicht.csv', data: encoder.encode('Zahn;ST\r\n16;4\r\n') },
+      { name: 'empty.txt', data: new Uint8Array() },
+      { name: 'binary.bin', data: binary },
+    ]));
+
+    expect([...files.keys()]).toEqual(['xl/worksheets/sheet1.xml', 'Zähne/übersicht.csv', 'empty.txt', 'binary.bin']);
+    expect(decoder.decode(files.get('xl/worksheets/sheet1.xml'))).toBe('<sheetData/>');
+    expect(decoder.decode(files.get('Zähne/übersicht.csv'))).toBe('Zahn;ST\r\n16;4\r\n');
+    expect(files.get('empty.txt')).toHaveLength(0);
+    expect([...files.get('binary.bin')!]).toEqual([...binary]);
+  });
+
+  it('reads deflated entries', async () => {
+    const text = 'Tooth,Site,PD\r\n'.repeat(50);
+    const files = await readZip(deflatedZip('chart.csv', encoder.encode(text)));
+    expect(decoder.decode(files.get('chart.csv'))).toBe(text);
+  });
+
+  it('finds the directory behind an archive comment', async () => {
+    const archive = writeZip([{ name: 'a.txt', data: encoder.encode('a') }]);
+    const comment = encoder.encode('written by another tool');
+    const withComment = new Uint8Array([...archive, ...comment]);
+    new DataView(withComment.buffer).setUint16(archive.length - 2, comment.length, true);
+
+    expect(decoder.decode((await readZip(withComment)).get('a.txt'))).toBe('a');
+  });
+
+  it('rejects what is not a zip archive', async () => {
+    await expect(readZip(encoder.encode('Tooth,Site,PD\r\n16,MB,4\r\n'))).rejects.toThrow('Not a zip archive');
+  });
+});
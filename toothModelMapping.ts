@@ -1,18 +1,24 @@
 /**
  * Tooth Model Mapping Configuration
- * Maps each tooth ID (1-32) to its corresponding .glb model file
+ * Maps each tooth ID (1-32, primary 33-52) to its corresponding .glb model file
  * and whether it should be mirrored horizontally
  */
 
+import { patientStorage } from './services/patientStorage';
+import { PRIMARY_TOOTH_SCALE } from './constants';
+import { PRIMARY_TOOTH_IDS, universalToQuadrant, quadrantToUniversal, getToothName } from './toothNumbering';
+
 export interface ToothModelConfig {
   toothId: number;
   modelFile: string;
   shouldMirror: boolean;
   name: string;
+  sourceToothId?: number; // permanent tooth whose model and transform are reused
+  scale?: number; // relative to the source model
 }
 
 // Tooth model mapping based on the assembly order
-export const TOOTH_MODEL_MAPPING: ToothModelConfig[] = [
+const PERMANENT_MODELS: ToothModelConfig[] = [
   // Upper Arch - Right Side (Teeth 1-8)
   { toothId: 1, modelFile: 'public/maxillary_third_molar.glb', shouldMirror: true, name: 'Upper Right Third Molar' },
   { toothId: 2, modelFile: 'public/maxillary_second_molar.glb', shouldMirror: true, name: 'Upper Right Second Molar' },
@@ -54,6 +60,26 @@ export const TOOTH_MODEL_MAPPING: ToothModelConfig[] = [
   { toothId: 32, modelFile: 'public/mandibular_third_molar.glb', shouldMirror: true, name: 'Lower Right Third Molar' },
 ];
 
+export const TOOTH_MODEL_MAPPING: ToothModelConfig[] = [
+  ...PERMANENT_MODELS,
+
+  // Primary teeth (A-T) reuse the nearest permanent model, scaled down:
+  // incisors and canines their successor, the first molar the second molar
+  // and the second molar the first molar it resembles
+  ...PRIMARY_TOOTH_IDS.map((toothId): ToothModelConfig => {
+    const { quadrant, toothInQuadrant } = universalToQuadrant(toothId)!;
+    const permanentPosition = toothInQuadrant <= 3 ? toothInQuadrant : 11 - toothInQuadrant;
+    const source = PERMANENT_MODELS[quadrantToUniversal(quadrant - 4, permanentPosition)! - 1];
+    return {
+      ...source,
+      toothId,
+      name: getToothName(toothId),
+      sourceToothId: source.toothId,
+      scale: PRIMARY_TOOTH_SCALE,
+    };
+  }),
+];
+
 // Helper function to get model config for a specific tooth
 export const getToothModelConfig = (toothId: number): ToothModelConfig | undefined => {
   return TOOTH_MODEL_MAPPING.find(config => config.toothId === toothId);
@@ -76,6 +102,12 @@ export const getDefaultTransform = (): ToothTransform => ({
   scale: { x: 0.1, y: 0.1, z: 0.1 }, // GLB models are often much larger, scale them down
 });
 
+// Transform of a tooth; primary teeth fall back to the one tuned for their source model
+export const resolveToothTransform = (toothId: number, transforms: { [toothId: number]: ToothTransform }): ToothTransform => {
+  const sourceToothId = getToothModelConfig(toothId)?.sourceToothId;
+  return transforms[toothId] || (sourceToothId !== undefined ? transforms[sourceToothId] : undefined) || getDefaultTransform();
+};
+
 // Load transformations from JSON file
 export const loadToothTransformsFromFile = async (filename: string = 'teethv2.json'): Promise<{ [toothId: number]: ToothTransform }> => {
   try {
@@ -110,10 +142,10 @@ export const loadToothTransformsFromFile = async (filename: string = 'teethv2.js
   }
 };
 
-// Load saved transformations from localStorage
+// Load saved transformations of the selected patient from localStorage
 export const loadToothTransforms = (): { [toothId: number]: ToothTransform } => {
   try {
-    const saved = localStorage.getItem(TOOTH_TRANSFORMS_STORAGE_KEY);
+    const saved = localStorage.getItem(patientStorage.scopedKey(TOOTH_TRANSFORMS_STORAGE_KEY));
     return saved ? JSON.parse(saved) : {};
   } catch (error) {
     console.error('Failed to load tooth transforms:', error);
@@ -121,10 +153,10 @@ export const loadToothTransforms = (): { [toothId: number]: ToothTransform } =>
   }
 };
 
-// Save transformations to localStorage
+// Save transformations of the selected patient to localStorage
 export const saveToothTransforms = (transforms: { [toothId: number]: ToothTransform }): void => {
   try {
-    localStorage.setItem(TOOTH_TRANSFORMS_STORAGE_KEY, JSON.stringify(transforms));
+    localStorage.setItem(patientStorage.scopedKey(TOOTH_TRANSFORMS_STORAGE_KEY), JSON.stringify(transforms));
   } catch (error) {
     console.error('Failed to save tooth transforms:', error);
   }
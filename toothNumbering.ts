@@ -0,0 +1,238 @@
+/**
+ * Tooth numbering - the one place that converts between notations.
+ * The app stores and keys everything by Universal number (1-32):
+ *   1-8   upper right, 1 = third molar → 8 = central incisor
+ *   9-16  upper left,  9 = central incisor → 16 = third molar
+ *   17-24 lower left,  17 = third molar → 24 = central incisor
+ *   25-32 lower right, 25 = central incisor → 32 = third molar
+ * Primary teeth continue the sequence as ids 33-52, Universal letters A-T in
+ * the same order (A = upper right second molar → T = lower right second molar).
+ * Quadrants are always the patient's: FDI 1 = upper right, 2 = upper left,
+ * 3 = lower left, 4 = lower right, tooth 1 (central incisor) to 8 (third molar);
+ * primary quadrants 5-8 follow the same order with teeth 1-5.
+ */
+
+export type ToothNotation = 'universal' | 'fdi' | 'palmer';
+
+export const DEFAULT_TOOTH_NOTATION: ToothNotation = 'universal';
+
+export const TOOTH_NOTATIONS: Array<{ value: ToothNotation; label: string }> = [
+  { value: 'universal', label: 'Universal (1-32, A-T)' },
+  { value: 'fdi', label: 'FDI (11-85)' },
+  { value: 'palmer', label: 'Palmer (6┘)' },
+];
+
+export interface QuadrantPosition {
+  quadrant: number; // FDI quadrant 1-4, primary 5-8
+  toothInQuadrant: number; // 1 = central incisor ... 8 = third molar (5 = second molar for primary)
+}
+
+export const PERMANENT_TOOTH_IDS = Array.from({ length: 32 }, (_, i) => i + 1);
+export const PRIMARY_TOOTH_IDS = Array.from({ length: 20 }, (_, i) => i + 33);
+
+const FIRST_PRIMARY_ID = 33;
+
+const TOOTH_TYPE_NAMES = ['Central Incisor', 'Lateral Incisor', 'Canine', 'First Premolar', 'Second Premolar', 'First Molar', 'Second Molar', 'Third Molar'];
+const PRIMARY_TOOTH_TYPE_NAMES = ['Central Incisor', 'Lateral Incisor', 'Canine', 'First Molar', 'Second Molar'];
+const QUADRANT_NAMES = ['', 'Maxillary Right', 'Maxillary Left', 'Mandibular Left', 'Mandibular Right'];
+
+// Palmer draws the quadrant as the corner of a cross centred on the midline
+const PALMER_SYMBOLS = ['', '┘', '└', '┌', '┐'];
+// Palmer writes primary teeth as letters, A = central incisor → E = second molar
+const PALMER_PRIMARY_LETTERS = 'ABCDE';
+
+export const isValidUniversal = (universalId: number): boolean =>
+  Number.isInteger(universalId) && universalId >= 1 && universalId <= 52;
+
+export const isPrimaryTooth = (universalId: number): boolean =>
+  isValidUniversal(universalId) && universalId >= FIRST_PRIMARY_ID;
+
+/**
+ * FDI quadrant and position from the midline to Universal number.
+ * Permanent quadrants 1-4 hold teeth 1-8, primary quadrants 5-8 teeth 1-5.
+ */
+export const quadrantToUniversal = (quadrant: number, toothInQuadrant: number): number | null => {
+  const teethInQuadrant = quadrant >= 5 ? 5 : 8;
+  if (!Number.isInteger(toothInQuadrant) || toothInQuadrant < 1 || toothInQuadrant > teethInQuadrant) return null;
+  switch (quadrant) {
+    case 1: return 9 - toothInQuadrant;
+    case 2: return 8 + toothInQuadrant;
+    case 3: return 25 - toothInQuadrant;
+    case 4: return 24 + toothInQuadrant;
+    case 5: return 38 - toothInQuadrant;
+    case 6: return 37 + toothInQuadrant;
+    case 7: return 48 - toothInQuadrant;
+    case 8: return 47 + toothInQuadrant;
+    default: return null;
+  }
+};
+
+/**
+ * Universal number to FDI quadrant and position
+ */
+export const universalToQuadrant = (universalId: number): QuadrantPosition | null => {
+  if (!isValidUniversal(universalId)) return null;
+  if (universalId <= 8) return { quadrant: 1, toothInQuadrant: 9 - universalId };
+  if (universalId <= 16) return { quadrant: 2, toothInQuadrant: universalId - 8 };
+  if (universalId <= 24) return { quadrant: 3, toothInQuadrant: 25 - universalId };
+  if (universalId <= 32) return { quadrant: 4, toothInQuadrant: universalId - 24 };
+  if (universalId <= 37) return { quadrant: 5, toothInQuadrant: 38 - universalId };
+  if (universalId <= 42) return { quadrant: 6, toothInQuadrant: universalId - 37 };
+  if (universalId <= 47) return { quadrant: 7, toothInQuadrant: 48 - universalId };
+  return { quadrant: 8, toothInQuadrant: universalId - 47 };
+};
+
+/**
+ * Upper arch: permanent quadrants 1-2 and primary quadrants 5-6
+ */
+export const isUpperArch = (universalId: number): boolean => {
+  const quadrant = universalToQuadrant(universalId)?.quadrant;
+  return quadrant === 1 || quadrant === 2 || quadrant === 5 || quadrant === 6;
+};
+
+/**
+ * Patient's right side: permanent quadrants 1 and 4, primary 5 and 8
+ */
+export const isRightSide = (universalId: number): boolean => {
+  const quadrant = universalToQuadrant(universalId)?.quadrant;
+  return quadrant === 1 || quadrant === 4 || quadrant === 5 || quadrant === 8;
+};
+
+/**
+ * Primary tooth id to its Universal letter, e.g. 33 → "A"
+ */
+export const universalToLetter = (universalId: number): string | null =>
+  isPrimaryTooth(universalId) ? String.fromCharCode(65 + universalId - FIRST_PRIMARY_ID) : null;
+
+/**
+ * Universal letter (A-T) to primary tooth id
+ */
+export const letterToUniversal = (letter: string): number | null => {
+  const text = letter.trim().toUpperCase();
+  if (!/^[A-T]$/.test(text)) return null;
+  return FIRST_PRIMARY_ID + text.charCodeAt(0) - 65;
+};
+
+/**
+ * Universal number to FDI two-digit number (11-48, primary 51-85)
+ */
+export const universalToFdi = (universalId: number): number | null => {
+  const position = universalToQuadrant(universalId);
+  return position ? position.quadrant * 10 + position.toothInQuadrant : null;
+};
+
+/**
+ * FDI two-digit number (11-48, primary 51-85) to Universal number
+ */
+export const fdiToUniversal = (fdi: number): number | null => {
+  if (!Number.isInteger(fdi)) return null;
+  return quadrantToUniversal(Math.floor(fdi / 10), fdi % 10);
+};
+
+/**
+ * Universal number to Palmer notation, e.g. 3 → "6┘", 14 → "└6", 36 → "D┘"
+ */
+export const universalToPalmer = (universalId: number): string | null => {
+  const position = universalToQuadrant(universalId);
+  if (!position) return null;
+  const primary = position.quadrant >= 5;
+  const symbol = PALMER_SYMBOLS[primary ? position.quadrant - 4 : position.quadrant];
+  const tooth = primary ? PALMER_PRIMARY_LETTERS[position.toothInQuadrant - 1] : String(position.toothInQuadrant);
+  // Right-side quadrants put the number left of the midline line
+  return isRightSide(universalId) ? `${tooth}${symbol}` : `${symbol}${tooth}`;
+};
+
+// Palmer tooth "1"-"8" or "A"-"E" in a permanent quadrant to Universal number
+const palmerToothToUniversal = (quadrant: number, tooth: string): number | null => {
+  const letter = PALMER_PRIMARY_LETTERS.indexOf(tooth);
+  return letter === -1
+    ? quadrantToUniversal(quadrant, parseInt(tooth))
+    : quadrantToUniversal(quadrant + 4, letter + 1);
+};
+
+/**
+ * Parse Palmer notation: "6┘", "└6", "┌6", "6┐", or the typed forms
+ * "UR6", "UL6", "LL6", "LR6"; letters A-E name primary teeth ("D┘", "URD")
+ */
+export const palmerToUniversal = (palmer: string): number | null => {
+  const text = palmer.trim().toUpperCase();
+  const typed = /^(UR|UL|LL|LR)\s*([1-8A-E])$/.exec(text);
+  if (typed) return palmerToothToUniversal(['UR', 'UL', 'LL', 'LR'].indexOf(typed[1]) + 1, typed[2]);
+
+  const drawn = /^([┘└┌┐]?)([1-8A-E])([┘└┌┐]?)$/.exec(text);
+  if (!drawn || !!drawn[1] === !!drawn[3]) return null;
+  const quadrant = PALMER_SYMBOLS.indexOf(drawn[1] || drawn[3]);
+  // The number sits on the side of the midline its teeth are on
+  const onRight = !!drawn[3];
+  if ((quadrant === 1 || quadrant === 4) !== onRight) return null;
+  return palmerToothToUniversal(quadrant, drawn[2]);
+};
+
+/**
+ * Tooth number typed in a notation back to Universal: "#3", "3" or "A";
+ * "16"; "6┘" or "UR6". Null when the text is not a tooth in that notation.
+ */
+export const parseToothNumber = (text: string, notation: ToothNotation): number | null => {
+  const value = text.trim();
+  switch (notation) {
+    case 'fdi': return /^\d{2}$/.test(value) ? fdiToUniversal(parseInt(value)) : null;
+    case 'palmer': return palmerToUniversal(value);
+    default: {
+      const number = /^#?(\d{1,2})$/.exec(value);
+      if (!number) return letterToUniversal(value);
+      const id = parseInt(number[1]);
+      return id >= 1 && id <= 32 ? id : null;
+    }
+  }
+};
+
+/**
+ * Tooth class from its position in the quadrant; primary teeth have no
+ * premolars, positions 4-5 are the primary molars
+ */
+export const getToothType = (universalId: number): 'molar' | 'premolar' | 'canine' | 'incisor' => {
+  const position = universalToQuadrant(universalId);
+  const toothInQuadrant = position?.toothInQuadrant ?? 1;
+  if (toothInQuadrant <= 2) return 'incisor';
+  if (toothInQuadrant === 3) return 'canine';
+  if (toothInQuadrant <= 5 && !isPrimaryTooth(universalId)) return 'premolar';
+  return 'molar';
+};
+
+/**
+ * Anatomical name, e.g. 3 → "Maxillary Right First Molar",
+ * 33 → "Primary Maxillary Right Second Molar"
+ */
+export const getToothName = (universalId: number): string => {
+  const position = universalToQuadrant(universalId);
+  if (!position) return `Tooth ${universalId}`;
+  if (position.quadrant >= 5) {
+    return `Primary ${QUADRANT_NAMES[position.quadrant - 4]} ${PRIMARY_TOOTH_TYPE_NAMES[position.toothInQuadrant - 1]}`;
+  }
+  return `${QUADRANT_NAMES[position.quadrant]} ${TOOTH_TYPE_NAMES[position.toothInQuadrant - 1]}`;
+};
+
+/**
+ * Tooth number in the chosen notation: "#3", "16" or "6┘"; primary teeth
+ * show as "A", "55" or "E┘"
+ */
+export const formatToothNumber = (universalId: number, notation: ToothNotation): string => {
+  switch (notation) {
+    case 'fdi': return String(universalToFdi(universalId) ?? universalId);
+    case 'palmer': return universalToPalmer(universalId) ?? String(universalId);
+    default: return universalToLetter(universalId) ?? `#${universalId}`;
+  }
+};
+
+/**
+ * Heading-style label, e.g. "Tooth 16 · Maxillary Right First Molar"
+ */
+export const formatToothLabel = (universalId: number, notation: ToothNotation): string =>
+  `Tooth ${formatToothNumber(universalId, notation)} · ${getToothName(universalId)}`;
+
+/**
+ * Label for prompts and exports; always names the notation so a model or a
+ * reader cannot confuse Universal 16 with FDI 16
+ */
+export const describeToothForPrompt = (universalId: number): string =>
+  `Universal ${formatToothNumber(universalId, 'universal')} (FDI ${universalToFdi(universalId)}, ${getToothName(universalId)})`;
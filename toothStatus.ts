@@ -0,0 +1,109 @@
+/**
+ * Tooth status - what occupies each tooth position and which rules apply to it.
+ *   present, crown, root_remnant  natural tooth, probed and staged as usual
+ *   implant                       probed with peri-implant thresholds, not staged
+ *   missing, pontic               no tooth to probe; counts as tooth loss
+ *   unerupted                     not in the mouth yet; neither probed nor lost
+ * Charts saved before statuses existed only carry isMissing.
+ */
+
+import { ToothData, ToothStatus, MissingReason } from './types';
+
+export const TOOTH_STATUSES: Array<{ value: ToothStatus; label: string }> = [
+  { value: 'present', label: 'Present' },
+  { value: 'crown', label: 'Crown' },
+  { value: 'root_remnant', label: 'Root remnant' },
+  { value: 'implant', label: 'Implant' },
+  { value: 'pontic', label: 'Pontic' },
+  { value: 'missing', label: 'Missing' },
+  { value: 'unerupted', label: 'Unerupted' },
+];
+
+export const MISSING_REASONS: Array<{ value: MissingReason; label: string }> = [
+  { value: 'periodontitis', label: 'Periodontitis' },
+  { value: 'caries', label: 'Caries' },
+  { value: 'orthodontic', label: 'Orthodontic extraction' },
+  { value: 'congenital', label: 'Congenitally absent' },
+  { value: 'other', label: 'Other' },
+];
+
+// Status fields a clinician edits in the info panel
+export interface ToothStatusUpdate {
+  status?: ToothStatus;
+  missingReason?: MissingReason | null; // null clears a recorded reason
+  supernumerary?: number;
+}
+
+export const getToothStatus = (tooth: ToothData): ToothStatus =>
+  tooth.status ?? (tooth.isMissing ? 'missing' : 'present');
+
+export const getToothStatusLabel = (status: ToothStatus): string =>
+  TOOTH_STATUSES.find(s => s.value === status)?.label ?? status;
+
+/**
+ * A natural tooth is in the position: periodontal probing, indices and staging apply
+ */
+export const isNaturalTooth = (tooth: ToothData): boolean => {
+  const status = getToothStatus(tooth);
+  return status === 'present' || status === 'crown' || status === 'root_remnant';
+};
+
+export const isImplant = (tooth: ToothData): boolean => getToothStatus(tooth) === 'implant';
+
+/**
+ * Something in the position can be probed: a natural tooth or an implant
+ */
+export const isProbeable = (tooth: ToothData): boolean => isNaturalTooth(tooth) || isImplant(tooth);
+
+/**
+ * The natural tooth was lost, whether or not the gap has been restored
+ */
+export const isToothLost = (tooth: ToothData): boolean => {
+  const status = getToothStatus(tooth);
+  return (status === 'missing' || status === 'pontic' || status === 'implant') && tooth.missingReason !== 'congenital';
+};
+
+export const isLostToPeriodontitis = (tooth: ToothData): boolean =>
+  isToothLost(tooth) && tooth.missingReason === 'periodontitis';
+
+/**
+ * Whether the reason for loss can be recorded for this status
+ */
+export const hasMissingReason = (status: ToothStatus): boolean =>
+  status === 'missing' || status === 'pontic' || status === 'implant';
+
+/**
+ * Apply a status edit; the legacy isMissing flag is dropped and a reason only
+ * kept while the status has one
+ */
+export const applyToothStatus = (tooth: ToothData, update: ToothStatusUpdate): ToothData => {
+  const { isMissing, ...rest } = tooth;
+  const next: ToothData = { ...rest, status: update.status ?? getToothStatus(tooth) };
+
+  const reason = update.missingReason === undefined ? tooth.missingReason : update.missingReason ?? undefined;
+  if (reason && hasMissingReason(next.status!)) next.missingReason = reason;
+  else delete next.missingReason;
+
+  const supernumerary = update.supernumerary ?? tooth.supernumerary ?? 0;
+  if (supernumerary > 0) next.supernumerary = supernumerary;
+  else delete next.supernumerary;
+  return next;
+};
+
+const REASON_DESCRIPTIONS: Record<MissingReason, string> = {
+  periodontitis: 'lost to periodontitis',
+  caries: 'lost to caries',
+  orthodontic: 'orthodontic extraction',
+  congenital: 'congenitally absent',
+  other: 'lost for other reasons',
+};
+
+/**
+ * Short description for prompts and summaries, e.g. "implant (lost to periodontitis)"
+ */
+export const describeToothStatus = (tooth: ToothData): string => {
+  const parts = [getToothStatusLabel(getToothStatus(tooth)).toLowerCase()];
+  if (tooth.missingReason) parts.push(`(${REASON_DESCRIPTIONS[tooth.missingReason]})`);
+  if (tooth.supernumerary) parts.push(`+ ${tooth.supernumerary} supernumerary`);
+  return parts.join(' ');
+};
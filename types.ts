@@ -5,6 +5,12 @@ export enum MeasurementType {
   PLAQUE = 'Plaque',
   MOBILITY = 'Mobility',
   FURCATION = 'Furcation',
+  SUPPURATION = 'Suppuration',
+  FREMITUS = 'Fremitus',
+  GINGIVAL_MARGIN = 'Gingival Margin',
+  MUCOGINGIVAL_JUNCTION = 'Mucogingival Junction',
+  PLAQUE_INDEX = 'Plaque Index',
+  GINGIVAL_INDEX = 'Gingival Index',
 }
 
 export type MeasurementLocation = 
@@ -16,10 +22,22 @@ export type MeasurementLocation =
   | 'mesio_lingual';
 
 // Special locations for tooth-level data entry
-export type NonSiteLocation = 'mobility' | 'furcation_buccal' | 'furcation_lingual';
+export type NonSiteLocation = 'mobility' | 'fremitus' | 'furcation_buccal' | 'furcation_lingual' | 'furcation_mesial' | 'furcation_distal';
+
+// Furcation entrances: buccal/lingual on lower molars, buccal plus mesial/distal (palatal approach) on upper molars
+export type FurcationEntrance = 'buccal' | 'lingual' | 'mesial' | 'distal';
+
+// Furcation classification: Hamp I-III by horizontal loss, Glickman I-IV
+export type FurcationSystem = 'hamp' | 'glickman';
 
 export type MeasurementSiteValue = number | boolean;
 
+// What occupies a tooth position; see toothStatus.ts for how each is charted
+export type ToothStatus = 'present' | 'missing' | 'implant' | 'pontic' | 'crown' | 'root_remnant' | 'unerupted';
+
+// Why the natural tooth is gone (missing, implant or pontic)
+export type MissingReason = 'periodontitis' | 'caries' | 'orthodontic' | 'congenital' | 'other';
+
 export interface PerioSiteMeasurements {
   [key: string]: MeasurementSiteValue | undefined;
   disto_buccal?: MeasurementSiteValue;
@@ -34,18 +52,70 @@ export interface ToothData {
   id: number;
   measurements: {
     [MeasurementType.POCKET_DEPTH]?: PerioSiteMeasurements;
-    [MeasurementType.RECESSION]?: PerioSiteMeasurements;
+    [MeasurementType.RECESSION]?: PerioSiteMeasurements; // mm apical to CEJ, kept in step with the gingival margin
+    [MeasurementType.GINGIVAL_MARGIN]?: PerioSiteMeasurements; // mm from CEJ, + coronal (overgrowth), - apical (recession)
+    [MeasurementType.MUCOGINGIVAL_JUNCTION]?: PerioSiteMeasurements; // mm apical to CEJ
     [MeasurementType.BLEEDING]?: PerioSiteMeasurements; // boolean
     [MeasurementType.PLAQUE]?: PerioSiteMeasurements; // boolean
+    [MeasurementType.SUPPURATION]?: PerioSiteMeasurements; // boolean
+    [MeasurementType.PLAQUE_INDEX]?: PerioSiteMeasurements; // Silness-Löe 0-3
+    [MeasurementType.GINGIVAL_INDEX]?: PerioSiteMeasurements; // Löe-Silness 0-3
   };
-  mobility?: number; // Grade 0, 1, 2, 3
-  furcation?: { // Molars only
-    buccal?: number; // Grade 1, 2, 3
-    lingual?: number; // Grade 1, 2, 3
+  mobility?: number; // Miller grade 0, 1, 2, 3
+  fremitus?: number; // Class 0, I (palpable), II (palpable, visible), III (visible movement)
+  furcation?: { // Multi-rooted teeth, see furcation.ts for the entrances of each
+    buccal?: number; // Class 1-3 (Glickman 1-4)
+    lingual?: number; // Class 1-3 (Glickman 1-4), lower molars
+    mesial?: number; // Class 1-3 (Glickman 1-4), upper molars and first premolars
+    distal?: number; // Class 1-3 (Glickman 1-4), upper molars and first premolars
   };
-  isMissing?: boolean;
+  furcationSystem?: FurcationSystem; // system the classes were recorded in; Hamp when unset
+  status?: ToothStatus; // present when unset
+  missingReason?: MissingReason; // not recorded when unset
+  supernumerary?: number; // extra teeth charted beside this position, e.g. a mesiodens
+  isMissing?: boolean; // legacy charts only, read through getToothStatus
 
   // Agentic, calculated properties
-  cal?: PerioSiteMeasurements; // Clinical Attachment Loss
+  cal?: PerioSiteMeasurements; // Clinical Attachment Loss, PD - gingival margin
+  keratinizedTissue?: PerioSiteMeasurements; // width from gingival margin to MGJ, where the MGJ is charted
   riskScore?: number; // Prognostic score
 }
+
+// A single charting session. Snapshots are keyed by the visit_id that
+// database rows carry; a visit started before the database has one keeps a
+// local VISIT_ id until it is linked to the database visit of the same exam.
+export interface Visit {
+  id: string;
+  date: string; // ISO timestamp of the exam
+  examiner: string;
+  status: 'open' | 'closed'; // closed visits are immutable
+  seededFromVisitId?: string;
+}
+
+export interface VisitSnapshot {
+  visit: Visit;
+  teeth: ToothData[];
+  savedAt: string;
+}
+
+export type PatientSex = 'female' | 'male' | 'other' | 'unknown';
+export type SmokingStatus = 'never' | 'former' | 'current';
+
+// Which teeth a chart starts with; mixed is the early mixed dentition
+export type Dentition = 'permanent' | 'mixed' | 'primary';
+
+// Demographics and systemic history; every chart and analysis belongs to one patient
+export interface Patient {
+  id: string;
+  recordNumber?: string; // id the voice agent writes to clinical_observations.patient_id, e.g. PAT796
+  name: string;
+  dateOfBirth: string; // YYYY-MM-DD
+  sex: PatientSex;
+  smokingStatus: SmokingStatus;
+  cigarettesPerDay?: number;
+  hasDiabetes: boolean;
+  hba1c?: number; // %
+  medications: string[];
+  dentition?: Dentition; // defaults from age, see getPatientDentition
+  createdAt: string;
+}
@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.LLM_ENDPOINT': JSON.stringify(env.LLM_ENDPOINT),
+        'process.env.SUPABASE_REALTIME_URL': JSON.stringify(env.SUPABASE_REALTIME_URL),
+        'process.env.SYNC_TRANSPORT': JSON.stringify(env.SYNC_TRANSPORT)
       },
       resolve: {
         alias: {